@@ -1,13 +1,33 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { useParams } from 'next/navigation'
 import { supabase, getCourtBySlug, validateControlPin } from '@/lib/supabase'
 import MatchSetupForm from '@/components/MatchSetupForm'
 import SetupScreenHeader from '@/components/SetupScreenHeader'
-import type { MatchState, GameMode } from '@/lib/types/match'
-import { formatPointDisplay, buildTeamName, formatGameDuration } from '@/lib/utils/score-format'
+import ButtonPairingPanel from '@/components/ButtonPairingPanel'
+import GestureMapPanel from '@/components/GestureMapPanel'
+import type {
+  MatchState,
+  GameMode,
+  GamesPerSet,
+  DecidingSetFormat,
+  TimeLimitRule,
+  Handicap,
+  PointAnnotation,
+  PointEnding,
+  ShotType,
+  PlayerSlot,
+  Team,
+  EarlyEndStatus,
+} from '@/lib/types/match'
+import { formatPointDisplay, buildTeamName, formatGameDuration, getServerName, formatHandicap, formatSuddenDeath } from '@/lib/utils/score-format'
 import { getPointSituation } from '@/lib/utils/point-situation'
+import { findRuleSet, getScoringFormat } from '@/lib/scoring/rules'
+import { POINT_ENDINGS, SHOT_TYPES, EARLY_END_STATUSES, canEndEarly, getDefaultSuddenDeath, getTimeRemainingMs } from '@/lib/scoring/engine'
+import { migrateMatchState } from '@/lib/scoring/validation'
+import { ENDING_LABELS, SHOT_LABELS, getLastShotTeam } from '@/lib/utils/point-annotation'
+import { FINISHED_STATUSES, EARLY_END_LABELS, isFinishedStatus, formatEarlyEnd } from '@/lib/utils/match-outcome'
 import '@/app/styles/setup-form.css'
 import '@/app/styles/control-panel.css'
 
@@ -27,13 +47,27 @@ export default function ControlPanelPage() {
   const [error, setError] = useState<string | null>(null)
   const [actionLoading, setActionLoading] = useState<string | null>(null)
   const [showEndConfirm, setShowEndConfirm] = useState(false)
+  // Ending early: no result (abandoned) or retired / walkover / defaulted with a winner
+  const [endOutcome, setEndOutcome] = useState<'abandoned' | EarlyEndStatus>('abandoned')
+  const [endWinner, setEndWinner] = useState<Team | null>(null)
+  const [endReason, setEndReason] = useState('')
+  // Last point scored here, waiting for an annotation (null once saved or skipped)
+  const [lastPoint, setLastPoint] = useState<Team | null>(null)
+  const [annotation, setAnnotation] = useState<PointAnnotation>({})
 
   // Form state for creating match (same as player setup)
   const [gameMode, setGameMode] = useState<GameMode>('traditional')
   const [setsToWin, setSetsToWin] = useState<1 | 2>(1)
+  const [gamesPerSet, setGamesPerSet] = useState<GamesPerSet>(6)
+  const [decidingSetFormat, setDecidingSetFormat] = useState<DecidingSetFormat>('full_set')
+  const [timeLimitMinutes, setTimeLimitMinutes] = useState<number | null>(null)
+  const [timeLimitRule, setTimeLimitRule] = useState<TimeLimitRule>('finish_game')
+  const [americanoPoints, setAmericanoPoints] = useState(24)
+  const [handicap, setHandicap] = useState<Handicap | null>(null)
+  const [suddenDeathAfterDeuces, setSuddenDeathAfterDeuces] = useState<number | null>(null)
   const [sideSwapEnabled, setSideSwapEnabled] = useState(true)
-  const [endGameInTiebreak, setEndGameInTiebreak] = useState(true)
   const [players, setPlayers] = useState<string[]>(['', '', '', ''])
+  const timeUpSentRef = useRef<string | null>(null)
 
   // Resolve court ID from slug or UUID
   useEffect(() => {
@@ -56,6 +90,7 @@ export default function ControlPanelPage() {
           // Verify PIN is still valid
           const isValid = await validateControlPin(court.id, storedPin)
           if (isValid) {
+            setPin(storedPin)
             setPinAuthenticated(true)
             setPinLoading(false)
           } else {
@@ -135,7 +170,7 @@ export default function ControlPanelPage() {
             .from('live_matches')
             .select('*')
             .eq('court_id', courtId)
-            .in('status', ['completed', 'abandoned'])
+            .in('status', FINISHED_STATUSES)
             .order('completed_at', { ascending: false })
             .limit(1)
             .maybeSingle()
@@ -178,7 +213,7 @@ export default function ControlPanelPage() {
         if (updatedMatch.status === 'setup' || updatedMatch.status === 'in_progress') {
           setMatch(updatedMatch)
           setCompletedMatch(null)
-        } else if (updatedMatch.status === 'completed' || updatedMatch.status === 'abandoned') {
+        } else if (isFinishedStatus(updatedMatch.status)) {
           setMatch(null)
           setCompletedMatch(updatedMatch)
         }
@@ -211,6 +246,26 @@ export default function ControlPanelPage() {
     }
   }, [courtId, pinAuthenticated])
 
+  // Time-limited match: tell the match function when time is up (it checks the clock too)
+  useEffect(() => {
+    if (!match?.time_limit_minutes || !match.started_at || match.time_expired) return
+
+    const tick = () => {
+      if (getTimeRemainingMs(match) === 0 && timeUpSentRef.current !== match.id) {
+        timeUpSentRef.current = match.id
+        fetch(`${SUPABASE_URL}/functions/v1/match`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ action: 'time_up', court_id: match.court_id, pin }),
+        }).catch((err) => console.error('Error sending time up:', err))
+      }
+    }
+
+    tick()
+    const interval = setInterval(tick, 1000)
+    return () => clearInterval(interval)
+  }, [match, pin])
+
   function handlePlayerChange(index: number, value: string) {
     const next = [...players]
     next[index] = value
@@ -239,7 +294,13 @@ export default function ControlPanelPage() {
         game_mode: gameMode,
         sets_to_win: setsToWin,
         side_swap_enabled: sideSwapEnabled,
-        tiebreak_at: endGameInTiebreak ? 6 : 6,
+        games_per_set: gamesPerSet,
+        deciding_set_format: decidingSetFormat,
+        time_limit_minutes: timeLimitMinutes,
+        time_limit_rule: timeLimitRule,
+        americano_points: americanoPoints,
+        handicap,
+        sudden_death_after_deuces: suddenDeathAfterDeuces,
       }
       if (players[0]?.trim()) body.team_a_player_1 = players[0].trim()
       if (players[1]?.trim()) body.team_a_player_2 = players[1].trim()
@@ -284,6 +345,7 @@ export default function ControlPanelPage() {
           court_id: courtId,
           team: team,
           source: 'control_panel',
+          pin,
         }),
       })
 
@@ -295,7 +357,15 @@ export default function ControlPanelPage() {
         return
       }
 
+      // No point scored (time had already ended the match): nothing to annotate
+      if (data.action === 'time_up') {
+        setActionLoading(null)
+        return
+      }
+
       // Match will be updated via real-time subscription
+      setLastPoint(team)
+      setAnnotation({})
       setActionLoading(null)
     } catch (err) {
       console.error('Error scoring point:', err)
@@ -304,11 +374,68 @@ export default function ControlPanelPage() {
     }
   }
 
+  async function saveAnnotation() {
+    if (!courtId || !lastPoint) return
+
+    setActionLoading('annotate')
+    setError(null)
+
+    try {
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/score`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          court_id: courtId,
+          team: lastPoint,
+          source: 'control_panel',
+          pin,
+          gesture: 'annotate',
+          annotation,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!data.success) {
+        setError(data.error || 'Failed to save annotation')
+        setActionLoading(null)
+        return
+      }
+
+      setLastPoint(null)
+      setActionLoading(null)
+    } catch (err) {
+      console.error('Error saving annotation:', err)
+      setError('Failed to save annotation')
+      setActionLoading(null)
+    }
+  }
+
+  // Changing how the point ended drops a player from the wrong team
+  function selectEnding(ending: PointEnding) {
+    if (!lastPoint) return
+    const next: PointAnnotation = { ...annotation, ending }
+    if (next.player && next.player.team !== getLastShotTeam(lastPoint, ending)) delete next.player
+    setAnnotation(next)
+  }
+
+  function selectShot(shot: ShotType) {
+    setAnnotation({ ...annotation, shot: annotation.shot === shot ? undefined : shot })
+  }
+
+  function selectPlayer(team: Team, slot: PlayerSlot) {
+    const selected = annotation.player?.team === team && annotation.player.slot === slot
+    setAnnotation({ ...annotation, player: selected ? undefined : { team, slot } })
+  }
+
   async function undoLastPoint() {
     if (!courtId) return
 
     setActionLoading('undo')
     setError(null)
+    setLastPoint(null)
 
     try {
       const response = await fetch(`${SUPABASE_URL}/functions/v1/match`, {
@@ -319,6 +446,7 @@ export default function ControlPanelPage() {
         body: JSON.stringify({
           action: 'undo',
           court_id: courtId,
+          pin,
         }),
       })
 
@@ -339,6 +467,53 @@ export default function ControlPanelPage() {
     }
   }
 
+  async function switchServer(team: 'a' | 'b') {
+    if (!courtId || !match) return
+
+    const current = team === 'a' ? match.team_a_server ?? 1 : match.team_b_server ?? 1
+    const next = current === 1 ? 2 : 1
+
+    setActionLoading('servers')
+    setError(null)
+
+    try {
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/match`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          action: 'set_servers',
+          court_id: courtId,
+          pin,
+          [team === 'a' ? 'team_a_server' : 'team_b_server']: next,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!data.success) {
+        setError(data.error || 'Failed to switch server')
+        setActionLoading(null)
+        return
+      }
+
+      // Match will be updated via real-time subscription
+      setActionLoading(null)
+    } catch (err) {
+      console.error('Error switching server:', err)
+      setError('Failed to switch server')
+      setActionLoading(null)
+    }
+  }
+
+  function openEndConfirm() {
+    setEndOutcome('abandoned')
+    setEndWinner(null)
+    setEndReason('')
+    setShowEndConfirm(true)
+  }
+
   async function endMatch() {
     if (!courtId) return
 
@@ -355,7 +530,9 @@ export default function ControlPanelPage() {
         body: JSON.stringify({
           action: 'end',
           court_id: courtId,
-          reason: 'abandoned',
+          pin,
+          reason: endOutcome,
+          ...(endOutcome !== 'abandoned' && { winner: endWinner, end_reason: endReason.trim() || undefined }),
         }),
       })
 
@@ -388,8 +565,17 @@ export default function ControlPanelPage() {
         court_id: courtId,
         game_mode: completedMatch.game_mode,
         sets_to_win: completedMatch.sets_to_win ?? 1,
+        games_per_set: completedMatch.games_per_set ?? 6,
         side_swap_enabled: completedMatch.side_swap_enabled ?? true,
         tiebreak_at: completedMatch.tiebreak_at ?? 6,
+        deciding_set_format: completedMatch.deciding_set_format ?? 'full_set',
+        match_tiebreak_points: completedMatch.match_tiebreak_points ?? 10,
+        time_limit_minutes: completedMatch.time_limit_minutes ?? null,
+        time_limit_rule: completedMatch.time_limit_rule ?? 'finish_game',
+        americano_points: completedMatch.americano_points ?? 24,
+        americano_serve_every: completedMatch.americano_serve_every ?? 4,
+        handicap: completedMatch.handicap ?? null,
+        sudden_death_after_deuces: completedMatch.sudden_death_after_deuces,
       }
       if (completedMatch.team_a_player_1) body.team_a_player_1 = completedMatch.team_a_player_1
       if (completedMatch.team_a_player_2) body.team_a_player_2 = completedMatch.team_a_player_2
@@ -430,8 +616,18 @@ export default function ControlPanelPage() {
     ])
     setGameMode(completedMatch.game_mode ?? 'traditional')
     setSetsToWin((completedMatch.sets_to_win ?? 1) as 1 | 2)
+    setGamesPerSet(completedMatch.games_per_set ?? 6)
+    setDecidingSetFormat(completedMatch.deciding_set_format ?? 'full_set')
+    setTimeLimitMinutes(completedMatch.time_limit_minutes ?? null)
+    setTimeLimitRule(completedMatch.time_limit_rule ?? 'finish_game')
+    setAmericanoPoints(completedMatch.americano_points ?? 24)
+    setHandicap(completedMatch.handicap ?? null)
+    setSuddenDeathAfterDeuces(
+      completedMatch.sudden_death_after_deuces !== undefined
+        ? completedMatch.sudden_death_after_deuces
+        : getDefaultSuddenDeath(completedMatch.game_mode ?? 'traditional')
+    )
     setSideSwapEnabled(completedMatch.side_swap_enabled ?? true)
-    setEndGameInTiebreak((completedMatch.tiebreak_at ?? 6) === 6)
     setCompletedMatch(null)
     setError(null)
   }
@@ -511,11 +707,16 @@ export default function ControlPanelPage() {
           ? teamBName
           : null
     const isAbandoned = completedMatch.status === 'abandoned'
+    const earlyEnd = formatEarlyEnd(completedMatch)
     const setsWonA = (completedMatch.set_scores ?? []).filter((s) => s.team_a > s.team_b).length
     const setsWonB = (completedMatch.set_scores ?? []).filter((s) => s.team_b > s.team_a).length
-    const gameScores = (completedMatch.set_scores ?? [])
-      .map((s) => `${s.team_a}-${s.team_b}`)
-      .join(', ')
+    // Americano: the single recorded score is the final points, shown on its own
+    const isAmericanoMatch = completedMatch.game_mode === 'americano'
+    const gameScores = isAmericanoMatch
+      ? ''
+      : (completedMatch.set_scores ?? [])
+          .map((s) => `${s.team_a}-${s.team_b}`)
+          .join(', ')
     const finalDuration = formatGameDuration(
       completedMatch.started_at ?? null,
       completedMatch.completed_at ?? null
@@ -548,7 +749,12 @@ export default function ControlPanelPage() {
                 <p className="control-summary-win-label">WIN</p>
               </>
             )}
-            <div className="control-summary-sets">{setsWonA} – {setsWonB}</div>
+            {earlyEnd && <p className="control-summary-outcome">{earlyEnd}</p>}
+            <div className="control-summary-sets">
+              {isAmericanoMatch
+                ? `${completedMatch.team_a_points} – ${completedMatch.team_b_points}`
+                : `${setsWonA} – ${setsWonB}`}
+            </div>
             {gameScores && (
               <div className="control-summary-games">({gameScores})</div>
             )}
@@ -580,6 +786,9 @@ export default function ControlPanelPage() {
               </span>
             </div>
           </div>
+
+          {courtId && <ButtonPairingPanel courtId={courtId} pin={pin} />}
+          {courtId && <GestureMapPanel courtId={courtId} pin={pin} />}
         </div>
       </div>
     )
@@ -593,13 +802,25 @@ export default function ControlPanelPage() {
         setGameMode={setGameMode}
         setsToWin={setsToWin}
         setSetsToWin={setSetsToWin}
+        gamesPerSet={gamesPerSet}
+        setGamesPerSet={setGamesPerSet}
+        decidingSetFormat={decidingSetFormat}
+        setDecidingSetFormat={setDecidingSetFormat}
+        timeLimitMinutes={timeLimitMinutes}
+        setTimeLimitMinutes={setTimeLimitMinutes}
+        timeLimitRule={timeLimitRule}
+        setTimeLimitRule={setTimeLimitRule}
+        americanoPoints={americanoPoints}
+        handicap={handicap}
+        setHandicap={setHandicap}
+        suddenDeathAfterDeuces={suddenDeathAfterDeuces}
+        setSuddenDeathAfterDeuces={setSuddenDeathAfterDeuces}
+        setAmericanoPoints={setAmericanoPoints}
         players={players}
         onPlayerChange={handlePlayerChange}
         onRandomize={handleRandomize}
         sideSwapEnabled={sideSwapEnabled}
         setSideSwapEnabled={setSideSwapEnabled}
-        endGameInTiebreak={endGameInTiebreak}
-        setEndGameInTiebreak={setEndGameInTiebreak}
         onSubmit={createMatch}
         submitLoading={actionLoading === 'create'}
         submitLabel="START GAME"
@@ -612,28 +833,52 @@ export default function ControlPanelPage() {
   // Active match — header (LIVE + game mode), scoreboard card, + Point buttons, UNDO / END MATCH
   const teamAName = buildTeamName(match.team_a_player_1, match.team_a_player_2, 'Team A')
   const teamBName = buildTeamName(match.team_b_player_1, match.team_b_player_2, 'Team B')
-  const pointsA = formatPointDisplay(
-    match.team_a_points,
-    match.team_b_points,
-    match.is_tiebreak,
-    match.is_tiebreak ? match.tiebreak_scores?.team_a : undefined
-  )
-  const pointsB = formatPointDisplay(
-    match.team_b_points,
-    match.team_a_points,
-    match.is_tiebreak,
-    match.is_tiebreak ? match.tiebreak_scores?.team_b : undefined
-  )
-  const matchSetsToWin = match.sets_to_win ?? 1
+  // Americano: raw rally points, no games or sets
+  // Pickleball: raw points, each game recorded as a set
+  const scoringFormat = getScoringFormat(match.game_mode)
+  const isAmericano = scoringFormat === 'points'
+  const isSideOut = scoringFormat === 'side_out'
+  const pointsA = isAmericano || isSideOut
+    ? match.team_a_points.toString()
+    : formatPointDisplay(
+        match.team_a_points,
+        match.team_b_points,
+        match.is_tiebreak,
+        match.is_tiebreak ? match.tiebreak_scores?.team_a : undefined
+      )
+  const pointsB = isAmericano || isSideOut
+    ? match.team_b_points.toString()
+    : formatPointDisplay(
+        match.team_b_points,
+        match.team_a_points,
+        match.is_tiebreak,
+        match.is_tiebreak ? match.tiebreak_scores?.team_b : undefined
+      )
+  const matchSetsToWin = isAmericano ? 0 : match.sets_to_win ?? 1
   const setsWonA = (match.set_scores ?? []).filter((s) => s.team_a > s.team_b).length
   const setsWonB = (match.set_scores ?? []).filter((s) => s.team_b > s.team_a).length
-  const gameModeLabel =
-    match.game_mode === 'traditional'
-      ? 'Standard'
-      : match.game_mode === 'golden_point'
-        ? 'Golden Point'
-        : 'Silver Point'
+  const gameModeLabel = findRuleSet(match.game_mode)?.label ?? match.game_mode
+  const suddenDeathLabel = formatSuddenDeath(match.game_mode, match.sudden_death_after_deuces)
   const pointSituation = getPointSituation(match)
+  const serverNameA = getServerName(match.team_a_player_1, match.team_a_player_2, match.team_a_server)
+  const serverNameB = getServerName(match.team_b_player_1, match.team_b_player_2, match.team_b_server)
+  // First server can only be changed before the first point of a set
+  // (never in pickleball, where the server follows court position)
+  // A handicapped set starts from the head start rather than 0-0
+  const headStartA = match.handicap?.team === 'a' ? match.handicap : null
+  const headStartB = match.handicap?.team === 'b' ? match.handicap : null
+  const canSwitchServer =
+    !isSideOut &&
+    match.team_a_games === (headStartA?.games ?? 0) &&
+    match.team_b_games === (headStartB?.games ?? 0) &&
+    match.team_a_points === (headStartA?.points ?? 0) &&
+    match.team_b_points === (headStartB?.points ?? 0) &&
+    (match.tiebreak_scores?.team_a ?? 0) + (match.tiebreak_scores?.team_b ?? 0) === 0
+  // Annotation picker: players are offered once it's known which team played the last shot
+  const shooterTeam = lastPoint && annotation.ending ? getLastShotTeam(lastPoint, annotation.ending) : null
+  const shooterNames = shooterTeam === 'a'
+    ? [match.team_a_player_1, match.team_a_player_2]
+    : [match.team_b_player_1, match.team_b_player_2]
 
   return (
     <div className="control-panel">
@@ -645,7 +890,11 @@ export default function ControlPanelPage() {
             <span className="control-live-dot" aria-hidden />
             LIVE
           </span>
-          <span className="control-game-mode">{gameModeLabel}</span>
+          <span className="control-game-mode">
+            {gameModeLabel}
+            {suddenDeathLabel && ` • ${suddenDeathLabel}`}
+            {match.handicap && ` • Handicap ${formatHandicap(match.handicap)}`}
+          </span>
         </header>
 
         {error && <div className="control-error-message">{error}</div>}
@@ -658,6 +907,20 @@ export default function ControlPanelPage() {
                 <div className="control-server-bar control-server-bar-a" aria-hidden />
               )}
               <div className="control-scoreboard-name">{teamAName}</div>
+              {match.serving_team === 'a' && serverNameA && (
+                <div className="control-scoreboard-server">
+                  {serverNameA} serving
+                  {canSwitchServer && match.team_a_player_2 && (
+                    <button
+                      className="control-server-switch"
+                      onClick={() => switchServer('a')}
+                      disabled={!!actionLoading}
+                    >
+                      Switch
+                    </button>
+                  )}
+                </div>
+              )}
               <div className="control-scoreboard-point">{pointsA}</div>
             </div>
             <div className="control-scoreboard-col">
@@ -665,6 +928,20 @@ export default function ControlPanelPage() {
                 <div className="control-server-bar control-server-bar-b" aria-hidden />
               )}
               <div className="control-scoreboard-name">{teamBName}</div>
+              {match.serving_team === 'b' && serverNameB && (
+                <div className="control-scoreboard-server">
+                  {serverNameB} serving
+                  {canSwitchServer && match.team_b_player_2 && (
+                    <button
+                      className="control-server-switch"
+                      onClick={() => switchServer('b')}
+                      disabled={!!actionLoading}
+                    >
+                      Switch
+                    </button>
+                  )}
+                </div>
+              )}
               <div className="control-scoreboard-point">{pointsB}</div>
             </div>
           </div>
@@ -679,7 +956,11 @@ export default function ControlPanelPage() {
               ))}
             </div>
             <div className="control-scoreboard-games">
-              {match.team_a_games} – {match.team_b_games}
+              {isAmericano
+                ? `${match.team_a_points + match.team_b_points} / ${match.americano_points ?? 24}`
+                : isSideOut
+                  ? `Game ${match.current_set} • Server ${match.server_number ?? 1}`
+                  : `${match.team_a_games} – ${match.team_b_games}`}
             </div>
             <div className="control-scoreboard-sets">
               {Array.from({ length: matchSetsToWin }).map((_, i) => (
@@ -695,7 +976,7 @@ export default function ControlPanelPage() {
             <div className="control-scoreboard-tiebreak">Tiebreak</div>
           )}
           {pointSituation && (
-            <div className="control-point-badge">{pointSituation.type}</div>
+            <div className="control-point-badge">{pointSituation.label}</div>
           )}
         </div>
 
@@ -717,6 +998,71 @@ export default function ControlPanelPage() {
           </button>
         </div>
 
+        {/* How the last point ended (optional, per point) */}
+        {lastPoint && (
+          <div className="control-annotation">
+            <div className="control-annotation-title">
+              Point {lastPoint === 'a' ? teamAName : teamBName} — how did it end?
+            </div>
+            <div className="control-annotation-options">
+              {POINT_ENDINGS.map((ending) => (
+                <button
+                  key={ending}
+                  className={`control-annotation-chip ${annotation.ending === ending ? 'selected' : ''}`}
+                  onClick={() => selectEnding(ending)}
+                  disabled={!!actionLoading}
+                >
+                  {ENDING_LABELS[ending]}
+                </button>
+              ))}
+            </div>
+            <div className="control-annotation-options">
+              {SHOT_TYPES.map((shot) => (
+                <button
+                  key={shot}
+                  className={`control-annotation-chip ${annotation.shot === shot ? 'selected' : ''}`}
+                  onClick={() => selectShot(shot)}
+                  disabled={!!actionLoading}
+                >
+                  {SHOT_LABELS[shot]}
+                </button>
+              ))}
+            </div>
+            {shooterTeam && (
+              <div className="control-annotation-options">
+                {([1, 2] as PlayerSlot[]).map((slot) => (
+                  <button
+                    key={slot}
+                    className={`control-annotation-chip ${
+                      annotation.player?.team === shooterTeam && annotation.player.slot === slot ? 'selected' : ''
+                    }`}
+                    onClick={() => selectPlayer(shooterTeam, slot)}
+                    disabled={!!actionLoading}
+                  >
+                    {shooterNames[slot - 1] || `Player ${slot}`}
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="control-actions">
+              <button
+                className="control-button"
+                onClick={() => setLastPoint(null)}
+                disabled={!!actionLoading}
+              >
+                SKIP
+              </button>
+              <button
+                className="control-button control-button-primary"
+                onClick={saveAnnotation}
+                disabled={!!actionLoading || (!annotation.ending && !annotation.shot)}
+              >
+                {actionLoading === 'annotate' ? 'Saving...' : 'SAVE'}
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* UNDO / END MATCH */}
         <div className="control-actions">
           <button
@@ -728,12 +1074,15 @@ export default function ControlPanelPage() {
           </button>
           <button
             className="control-button control-button-danger"
-            onClick={() => setShowEndConfirm(true)}
+            onClick={openEndConfirm}
             disabled={!!actionLoading}
           >
             END MATCH
           </button>
         </div>
+
+        {courtId && <ButtonPairingPanel courtId={courtId} pin={pin} />}
+        {courtId && <GestureMapPanel courtId={courtId} pin={pin} />}
       </div>
 
       {/* End Match Confirmation */}
@@ -742,6 +1091,49 @@ export default function ControlPanelPage() {
           <div className="control-modal" onClick={(e) => e.stopPropagation()}>
             <h2 className="control-modal-title">End Match?</h2>
             <p className="control-modal-text">Are you sure you want to end this match?</p>
+            <div className="control-end-options">
+              <button
+                className={`control-annotation-chip ${endOutcome === 'abandoned' ? 'selected' : ''}`}
+                onClick={() => setEndOutcome('abandoned')}
+              >
+                No result
+              </button>
+              {EARLY_END_STATUSES.filter((outcome) => canEndEarly(migrateMatchState(match), outcome)).map((outcome) => (
+                <button
+                  key={outcome}
+                  className={`control-annotation-chip ${endOutcome === outcome ? 'selected' : ''}`}
+                  onClick={() => setEndOutcome(outcome)}
+                >
+                  {EARLY_END_LABELS[outcome]}
+                </button>
+              ))}
+            </div>
+            {endOutcome !== 'abandoned' && (
+              <>
+                <div className="control-annotation-title">Winner</div>
+                <div className="control-end-options">
+                  {(['a', 'b'] as Team[]).map((team) => (
+                    <button
+                      key={team}
+                      className={`control-annotation-chip ${endWinner === team ? 'selected' : ''}`}
+                      onClick={() => setEndWinner(team)}
+                    >
+                      {team === 'a'
+                        ? buildTeamName(match.team_a_player_1, match.team_a_player_2, 'Team A')
+                        : buildTeamName(match.team_b_player_1, match.team_b_player_2, 'Team B')}
+                    </button>
+                  ))}
+                </div>
+                <input
+                  className="control-end-reason"
+                  type="text"
+                  placeholder="Reason (optional)"
+                  value={endReason}
+                  maxLength={80}
+                  onChange={(e) => setEndReason(e.target.value)}
+                />
+              </>
+            )}
             <div className="control-modal-buttons">
               <button className="control-button" onClick={() => setShowEndConfirm(false)}>
                 Cancel
@@ -749,7 +1141,7 @@ export default function ControlPanelPage() {
               <button
                 className="control-button control-button-danger"
                 onClick={endMatch}
-                disabled={actionLoading === 'end'}
+                disabled={actionLoading === 'end' || (endOutcome !== 'abandoned' && !endWinner)}
               >
                 {actionLoading === 'end' ? 'Ending...' : 'End Match'}
               </button>
@@ -10,12 +10,22 @@ import SetWinOverlay from '@/components/SetWinOverlay'
 import ServerAnnouncementOverlay from '@/components/ServerAnnouncementOverlay'
 import MatchWinOverlay from '@/components/MatchWinOverlay'
 import { getPointSituation } from '@/lib/utils/point-situation'
+import { getServerName } from '@/lib/utils/score-format'
+import { getServeSide, getTimeRemainingMs, BUTTON_GESTURES, resolveGestureMap } from '@/lib/scoring/engine'
+import { getScoringFormat } from '@/lib/scoring/rules'
+import { isFinishedStatus } from '@/lib/utils/match-outcome'
+import { getButtonHealth } from '@/lib/api/button'
+import { getButtonWarning, formatButtonWarning } from '@/lib/utils/button-health'
+import { GESTURE_LABELS } from '@/lib/utils/gesture-map'
 
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 
 const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY)
 
+// How often the idle screen re-checks the court's buttons
+const BUTTON_CHECK_MS = 60000
+
 // Format points for display (0, 15, 30, 40, ADV)
 function formatPoints(points: number, isAdvantage: boolean, isTiebreak: boolean): string {
   if (isTiebreak) {
@@ -28,41 +38,11 @@ function formatPoints(points: number, isAdvantage: boolean, isTiebreak: boolean)
   return pointMap[points] ?? points.toString()
 }
 
-// Calculate if sides should be swapped
-// Sides swap after every odd-numbered total game (1, 3, 5, 7...) and every 6 points in tiebreak
-function calculateSidesSwapped(match: MatchState): boolean {
-  // If side swap is disabled, never swap
+// Ends are changed by the scoring engine (sides_swapped); the display only
+// follows them when side swapping is enabled for the match
+function getSidesSwapped(match: MatchState): boolean {
   if (match.side_swap_enabled === false) return false
-  
-  // Count total games from set_scores
-  const setScores = match.set_scores || []
-  let totalGames = 0
-  
-  // Add completed set games
-  for (const set of setScores) {
-    totalGames += (set.team_a || 0) + (set.team_b || 0)
-  }
-  
-  // Add current set games
-  totalGames += match.team_a_games + match.team_b_games
-  
-  // In tiebreak, also count tiebreak points
-  if (match.is_tiebreak) {
-    const tiebreakPoints = match.team_a_points + match.team_b_points
-    // Swap every 6 points in tiebreak
-    // Each 6 points = 1 additional "swap unit"
-    const tiebreakSwaps = Math.floor(tiebreakPoints / 6)
-    // Total swaps = games swaps + tiebreak swaps
-    // Games swap on odd totals (1,3,5,7) = swap count is Math.ceil(totalGames / 2) for odd, Math.floor for even
-    // Simpler: just count total swap events
-    const gameSwaps = Math.floor((totalGames + 1) / 2) // 1 swap after game 1, 2 swaps after game 3, etc.
-    return (gameSwaps + tiebreakSwaps) % 2 === 1
-  }
-  
-  // Normal games: swap after odd game counts (1, 3, 5, 7...)
-  // After 1 game = swapped, after 2 = not swapped, after 3 = swapped, etc.
-  // Pattern: swapped when total games is odd
-  return totalGames % 2 === 1
+  return match.sides_swapped ?? false
 }
 
 // Get court by slug or UUID
@@ -108,14 +88,15 @@ export default function CourtDisplay() {
     setNumber: number
     score: { teamA: number; teamB: number }
   } | null>(null)
-  const prevTotalGamesRef = useRef(0)
-  const prevTiebreakPointsRef = useRef(0)
+  const prevEndsRef = useRef<{ matchId: string; version: number; sidesSwapped: boolean } | null>(null)
   const prevSetsRef = useRef<number>(0)
   const prevTeamAPointsRef = useRef(-1)
   const prevTeamBPointsRef = useRef(-1)
   const announcementShownRef = useRef<string | null>(null)
   const [leftScoreAnimating, setLeftScoreAnimating] = useState(false)
   const [rightScoreAnimating, setRightScoreAnimating] = useState(false)
+  const [timeRemainingMs, setTimeRemainingMs] = useState<number | null>(null)
+  const [buttonWarnings, setButtonWarnings] = useState<string[]>([])
 
   // Load court and match data
   useEffect(() => {
@@ -145,6 +126,25 @@ export default function CourtDisplay() {
     loadData()
   }, [id])
 
+  // Button health (battery, check-ins), shown quietly while idle
+  useEffect(() => {
+    if (!court?.id || match) return
+
+    const checkButtons = async () => {
+      const buttons = await getButtonHealth(court.id)
+      setButtonWarnings(
+        buttons.flatMap((button) => {
+          const warning = getButtonWarning(button)
+          return warning ? [formatButtonWarning(button, warning)] : []
+        })
+      )
+    }
+
+    checkButtons()
+    const interval = setInterval(checkButtons, BUTTON_CHECK_MS)
+    return () => clearInterval(interval)
+  }, [court?.id, match])
+
   // Subscribe to real-time updates
   useEffect(() => {
     if (!court?.id) return
@@ -165,7 +165,7 @@ export default function CourtDisplay() {
             setCompletedMatch(null)
           } else {
             const newMatch = payload.new as MatchState
-            if (newMatch.status === 'completed' || newMatch.status === 'abandoned') {
+            if (isFinishedStatus(newMatch.status)) {
               setCompletedMatch(newMatch)
               setMatch(null)
             } else {
@@ -204,42 +204,42 @@ export default function CourtDisplay() {
     }
   }, [match])
 
-  // Side swap detection
+  // Side swap announcement when the engine changes ends
+  // Only on a new scoring version of the same match, so undo doesn't announce
   useEffect(() => {
-    // Don't show swap if disabled
-    if (!match || showSideSwap || match.side_swap_enabled === false) return
+    if (!match) return
+
+    const prev = prevEndsRef.current
+    const sidesSwapped = match.sides_swapped ?? false
+    prevEndsRef.current = { matchId: match.id, version: match.version, sidesSwapped }
+
+    if (match.side_swap_enabled === false) return
+    if (
+      prev &&
+      prev.matchId === match.id &&
+      match.version > prev.version &&
+      sidesSwapped !== prev.sidesSwapped
+    ) {
+      setShowSideSwap(true)
+    }
+  }, [match])
 
-    const setScores = match.set_scores || []
-    
-    // Count total games
-    let totalGames = 0
-    for (const set of setScores) {
-      totalGames += (set.team_a || 0) + (set.team_b || 0)
+  // Time-limited match countdown
+  // The control panel or the players' phone tells the match function when time is up
+  useEffect(() => {
+    if (!match?.time_limit_minutes || !match.started_at || match.time_expired) {
+      setTimeRemainingMs(null)
+      return
     }
-    totalGames += match.team_a_games + match.team_b_games
 
-    if (match.is_tiebreak) {
-      // Tiebreak: swap every 6 points
-      const totalTiebreakPoints = match.team_a_points + match.team_b_points
-      const isAtSwapCondition = totalTiebreakPoints > 0 && totalTiebreakPoints % 6 === 0
-      
-      if (isAtSwapCondition && totalTiebreakPoints !== prevTiebreakPointsRef.current) {
-        setShowSideSwap(true)
-      }
-      
-      prevTiebreakPointsRef.current = totalTiebreakPoints
-    } else {
-      // Normal games: swap after odd game counts (1, 3, 5, 7...)
-      const isAtSwapCondition = totalGames % 2 === 1
-      
-      if (isAtSwapCondition && totalGames !== prevTotalGamesRef.current) {
-        setShowSideSwap(true)
-      }
-      
-      prevTotalGamesRef.current = totalGames
-      prevTiebreakPointsRef.current = 0
+    const tick = () => {
+      setTimeRemainingMs(getTimeRemainingMs(match))
     }
-  }, [match, showSideSwap])
+
+    tick()
+    const interval = setInterval(tick, 1000)
+    return () => clearInterval(interval)
+  }, [match])
 
   const handleSideSwapComplete = () => {
     setShowSideSwap(false)
@@ -263,7 +263,7 @@ export default function CourtDisplay() {
       const winningTeam = lastSet.team_a > lastSet.team_b ? 'a' : 'b'
       
       // Only show if match is not finished (if match finished, show match win instead)
-      if (match.status !== 'completed' && match.status !== 'abandoned') {
+      if (!isFinishedStatus(match.status)) {
         setSetWinData({
           winningTeam,
           setNumber: totalSetsCompleted,
@@ -290,7 +290,7 @@ export default function CourtDisplay() {
 
     if (prevPa >= 0 && prevPb >= 0) {
       if (pa > prevPa) {
-        const teamAOnLeft = !calculateSidesSwapped(match)
+        const teamAOnLeft = !getSidesSwapped(match)
         if (teamAOnLeft) setLeftScoreAnimating(true)
         else setRightScoreAnimating(true)
         setTimeout(() => {
@@ -298,7 +298,7 @@ export default function CourtDisplay() {
           setRightScoreAnimating(false)
         }, 600)
       } else if (pb > prevPb) {
-        const teamAOnLeft = !calculateSidesSwapped(match)
+        const teamAOnLeft = !getSidesSwapped(match)
         if (teamAOnLeft) setRightScoreAnimating(true)
         else setLeftScoreAnimating(true)
         setTimeout(() => {
@@ -348,16 +348,24 @@ export default function CourtDisplay() {
     const setupUrl = typeof window !== 'undefined' 
       ? `${window.location.origin}/setup/${id}` 
       : `/setup/${id}`
+    // The court may have moved starting a match off hold, or off the button altogether
+    const gestureMap = resolveGestureMap(court?.gesture_map)
+    const startGesture = BUTTON_GESTURES.find((g) => gestureMap[g] === 'start_or_end' || gestureMap[g] === 'start')
 
     return (
       <div className="court-idle">
         <div className="court-idle-name">{court?.name || 'Court'}</div>
-        <div className="court-idle-main-text">Hold button to start</div>
+        <div className="court-idle-main-text">
+          {startGesture ? `${GESTURE_LABELS[startGesture]} button to start` : 'Scan to start'}
+        </div>
         <div className="court-idle-subtitle">Quick Play: 1 set, Golden Point</div>
         <div className="court-idle-qr">
           <QRCodeSVG value={setupUrl} size={150} />
         </div>
         <div className="court-idle-qr-label">Scan for custom game</div>
+        {buttonWarnings.length > 0 && (
+          <div className="court-idle-button-warning">{buttonWarnings.join(' · ')}</div>
+        )}
       </div>
     )
   }
@@ -372,12 +380,16 @@ export default function CourtDisplay() {
       : undefined
 
     const servingTeam = match.serving_team as 'a' | 'b'
+    const serverName = servingTeam === 'a'
+      ? getServerName(match.team_a_player_1, match.team_a_player_2, match.team_a_server)
+      : getServerName(match.team_b_player_1, match.team_b_player_2, match.team_b_server)
 
     return (
       <ServerAnnouncementOverlay
         servingTeam={servingTeam}
         teamAName={teamAName}
         teamBName={teamBName}
+        serverName={serverName}
         onComplete={handleServerAnnouncementComplete}
       />
     )
@@ -397,6 +409,7 @@ export default function CourtDisplay() {
         winningTeam={setWinData.winningTeam}
         setNumber={setWinData.setNumber}
         score={setWinData.score}
+        unit={getScoringFormat(match.game_mode) === 'side_out' ? 'GAME' : 'SET'}
         teamAName={teamAName}
         teamBName={teamBName}
         onComplete={handleSetWinComplete}
@@ -409,7 +422,7 @@ export default function CourtDisplay() {
     return (
       <SideSwapOverlay
         servingTeam={match.serving_team as 'a' | 'b'}
-        sidesSwapped={calculateSidesSwapped(match)}
+        sidesSwapped={getSidesSwapped(match)}
         onComplete={handleSideSwapComplete}
       />
     )
@@ -417,9 +430,13 @@ export default function CourtDisplay() {
 
   // MATCH IN PROGRESS
   const isTiebreak = match.is_tiebreak || false
+  const scoringFormat = getScoringFormat(match.game_mode)
+  const isAmericano = scoringFormat === 'points'
+  // Side-out (pickleball): only the serving team scores, games recorded as sets
+  const isSideOut = scoringFormat === 'side_out'
   
-  // Calculate if sides should be swapped
-  const sidesSwapped = calculateSidesSwapped(match)
+  // Ends as changed by the engine
+  const sidesSwapped = getSidesSwapped(match)
   
   // Determine which team is on which side
   const teamOnLeft = sidesSwapped ? 'b' : 'a'
@@ -472,18 +489,19 @@ export default function CourtDisplay() {
 
   // Format points for each side
   // Check for advantage (only in non-tiebreak, when both have 3+ points)
-  const leftHasAdvantage = !isTiebreak && 
+  // Americano and pickleball points are raw counts, shown like tiebreak points
+  const leftHasAdvantage = !isTiebreak && scoringFormat === 'sets' &&
     leftTeamData.points >= 3 && 
     rightTeamData.points >= 3 && 
     leftTeamData.points > rightTeamData.points
 
-  const rightHasAdvantage = !isTiebreak && 
+  const rightHasAdvantage = !isTiebreak && scoringFormat === 'sets' &&
     leftTeamData.points >= 3 && 
     rightTeamData.points >= 3 && 
     rightTeamData.points > leftTeamData.points
 
-  const leftPoints = formatPoints(leftTeamData.points, leftHasAdvantage, isTiebreak)
-  const rightPoints = formatPoints(rightTeamData.points, rightHasAdvantage, isTiebreak)
+  const leftPoints = formatPoints(leftTeamData.points, leftHasAdvantage, isTiebreak || scoringFormat !== 'sets')
+  const rightPoints = formatPoints(rightTeamData.points, rightHasAdvantage, isTiebreak || scoringFormat !== 'sets')
 
   // Serving border follows the serving team (not fixed to side)
   const servingTeam = match.serving_team // 'a' or 'b'
@@ -498,9 +516,19 @@ export default function CourtDisplay() {
     ? 'var(--color-team-a)' 
     : 'var(--color-team-b)'
 
-  // Number of set dots to show
+  // Service box for the next point (null on a receiver's-choice deciding point)
+  const serveSide = getServeSide(match)
+
+  // Individual server within the serving team (only shown when named)
+  const serverName = servingTeam === 'a'
+    ? getServerName(match.team_a_player_1, match.team_a_player_2, match.team_a_server)
+    : servingTeam === 'b'
+      ? getServerName(match.team_b_player_1, match.team_b_player_2, match.team_b_server)
+      : null
+
+  // Number of set dots to show (Americano has no sets)
   const setsToWin = match.sets_to_win || 1
-  const setDotsCount = setsToWin === 1 ? 1 : 2
+  const setDotsCount = isAmericano ? 0 : setsToWin === 1 ? 1 : 2
 
   // Get point situation
   const pointSituation = getPointSituation(match)
@@ -520,9 +548,35 @@ export default function CourtDisplay() {
           style={{ borderColor: servingBorderColor }}
         />
 
+        {/* Time limit countdown (or end rule once time is up) */}
+        {timeRemainingMs !== null && (
+          <div className="time-limit-countdown">
+            {Math.floor(timeRemainingMs / 60000)}:
+            {Math.floor((timeRemainingMs % 60000) / 1000).toString().padStart(2, '0')}
+          </div>
+        )}
+        {match.time_expired && (
+          <div className="time-limit-countdown time-limit-expired">
+            {match.time_limit_rule === 'deciding_point' && !isSideOut ? 'DECIDING POINT' : 'LAST GAME'}
+          </div>
+        )}
+
+        {/* Serve side indicator, inside the serving border */}
+        {servingTeam && (
+          <div
+            className={`serve-side-indicator serve-side-indicator-${servingBorderSide}`}
+            style={{ color: servingBorderColor }}
+          >
+            {serveSide ? `SERVE ${serveSide.toUpperCase()}` : "RECEIVER'S CHOICE"}
+          </div>
+        )}
+
         {/* Left Side - Always darker background, team position based on sidesSwapped */}
         <div className="tile team-1-dark game-team-side">
           <div className="game-team-name">{leftTeamData.name}</div>
+          {serverName && servingTeam === leftTeamData.team && (
+            <div className="game-team-server">{serverName} serving</div>
+          )}
           
           <div className="game-score-display">
             <div className={`${leftPoints === 'ADV' ? 'game-score-adv' : 'game-score'} ${leftScoreAnimating ? 'game-score-animate' : ''}`}>
@@ -547,6 +601,9 @@ export default function CourtDisplay() {
         {/* Right Side - Always lighter background, team position based on sidesSwapped */}
         <div className="tile team-2-dark game-team-side">
           <div className="game-team-name">{rightTeamData.name}</div>
+          {serverName && servingTeam === rightTeamData.team && (
+            <div className="game-team-server">{serverName} serving</div>
+          )}
           
           <div className="game-score-display">
             <div className={`${rightPoints === 'ADV' ? 'game-score-adv' : 'game-score'} ${rightScoreAnimating ? 'game-score-animate' : ''}`}>
@@ -568,16 +625,29 @@ export default function CourtDisplay() {
           </div>
         </div>
 
-        {/* Games score (centered at bottom) */}
+        {/* Games score (centered at bottom); Americano shows points played of the total,
+            pickleball the score call (server score - receiver score - server number) */}
         <div className="game-games-center">
-          <div>{leftTeamData.games} - {rightTeamData.games}</div>
+          {isAmericano ? (
+            <div>{match.team_a_points + match.team_b_points} / {match.americano_points ?? 24}</div>
+          ) : isSideOut ? (
+            <div>
+              {servingTeam === 'b'
+                ? `${match.team_b_points} - ${match.team_a_points}`
+                : `${match.team_a_points} - ${match.team_b_points}`}
+              {' - '}
+              {match.server_number ?? 1}
+            </div>
+          ) : (
+            <div>{leftTeamData.games} - {rightTeamData.games}</div>
+          )}
         </div>
 
         {/* Point situation badge */}
         {pointSituation && (
           <div className="point-situation-overlay">
             <div className={`point-situation-badge ${pointSituation.team === 'a' ? 'team-a' : 'team-b'}`}>
-              {pointSituation.type}
+              {pointSituation.label}
             </div>
           </div>
         )}
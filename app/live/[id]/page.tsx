@@ -8,8 +8,12 @@ import {
   buildTeamName,
   formatGameDuration,
   getHorizontalScoreParts,
+  getServerName,
 } from '@/lib/utils/score-format'
 import { getPointSituation } from '@/lib/utils/point-situation'
+import { getScoringFormat } from '@/lib/scoring/rules'
+import { getWinProbability, estimatePointWinRates } from '@/lib/scoring/probability'
+import { migrateMatchState } from '@/lib/scoring/validation'
 import '@/app/styles/spectator.css'
 
 export default function LivePage() {
@@ -163,6 +167,15 @@ export default function LivePage() {
     'Team B'
   )
 
+  // Individual server for the serving team (null when unnamed)
+  const serverA = match.serving_team === 'a'
+    ? getServerName(match.team_a_player_1, match.team_a_player_2, match.team_a_server)
+    : null
+  const serverB = match.serving_team === 'b'
+    ? getServerName(match.team_b_player_1, match.team_b_player_2, match.team_b_server)
+    : null
+
+  const scoringFormat = getScoringFormat(match.game_mode)
   const partsA = getHorizontalScoreParts(
     match.set_scores,
     'a',
@@ -170,7 +183,8 @@ export default function LivePage() {
     match.team_a_points,
     match.team_b_points,
     match.is_tiebreak ?? false,
-    match.is_tiebreak ? match.tiebreak_scores?.team_a : undefined
+    match.is_tiebreak ? match.tiebreak_scores?.team_a : undefined,
+    scoringFormat
   )
   const partsB = getHorizontalScoreParts(
     match.set_scores,
@@ -179,11 +193,20 @@ export default function LivePage() {
     match.team_b_points,
     match.team_a_points,
     match.is_tiebreak ?? false,
-    match.is_tiebreak ? match.tiebreak_scores?.team_b : undefined
+    match.is_tiebreak ? match.tiebreak_scores?.team_b : undefined,
+    scoringFormat
   )
 
   const pointSituation = getPointSituation(match)
 
+  // Match win chances (percent) from the points played so far
+  const winProbability = match.status === 'in_progress'
+    ? getWinProbability(migrateMatchState(match), estimatePointWinRates(match.stats))
+    : null
+  const winChanceA = winProbability ? Math.round(winProbability.match * 100) : 0
+  const drawChance = winProbability ? Math.round(winProbability.draw * 100) : 0
+  const winChanceB = 100 - winChanceA - drawChance
+
   return (
     <div className="spectator-page">
       <div className="spectator-16-9">
@@ -216,7 +239,12 @@ export default function LivePage() {
           }`}
         >
           <div className="spectator-player-row">
-            <span className="spectator-player-name">{teamAName}</span>
+            <span className="spectator-player-name">
+              {teamAName}
+              {serverA && (
+                <span className="spectator-server-name">{serverA} serving</span>
+              )}
+            </span>
             <div className="spectator-player-scores">
               {match.serving_team === 'a' && (
                 <span className="spectator-serving-dot" aria-hidden />
@@ -235,7 +263,12 @@ export default function LivePage() {
             </div>
           </div>
           <div className="spectator-player-row">
-            <span className="spectator-player-name">{teamBName}</span>
+            <span className="spectator-player-name">
+              {teamBName}
+              {serverB && (
+                <span className="spectator-server-name">{serverB} serving</span>
+              )}
+            </span>
             <div className="spectator-player-scores">
               {match.serving_team === 'b' && (
                 <span className="spectator-serving-dot" aria-hidden />
@@ -258,8 +291,26 @@ export default function LivePage() {
             <div className="spectator-tiebreak-badge">Tiebreak</div>
           )}
 
+          {scoringFormat === 'side_out' && match.serving_team && (
+            <div className="spectator-tiebreak-badge">Server {match.server_number ?? 1}</div>
+          )}
+
           {pointSituation && (
-            <div className="spectator-point-badge">{pointSituation.type}</div>
+            <div className="spectator-point-badge">{pointSituation.label}</div>
+          )}
+
+          {winProbability && (
+            <div className="spectator-win-probability">
+              <span className="spectator-win-chance">{winChanceA}%</span>
+              <div className="spectator-win-bar" aria-label="Win probability">
+                <span className="spectator-win-bar-a" style={{ width: `${winChanceA}%` }} />
+                {drawChance > 0 && (
+                  <span className="spectator-win-bar-draw" style={{ width: `${drawChance}%` }} />
+                )}
+                <span className="spectator-win-bar-b" style={{ width: `${winChanceB}%` }} />
+              </div>
+              <span className="spectator-win-chance">{winChanceB}%</span>
+            </div>
           )}
         </div>
         </div>
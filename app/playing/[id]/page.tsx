@@ -1,16 +1,21 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import { supabase, getCourtBySlug, type Court } from '@/lib/supabase'
 import { validateSession, endSession } from '@/lib/api/session'
+import type { Handicap, MatchStatus } from '@/lib/types/match'
+import { FINISHED_STATUSES, isFinishedStatus, formatEarlyEnd } from '@/lib/utils/match-outcome'
+import { getTimeRemainingMs } from '@/lib/scoring/engine'
 
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 
 interface MatchState {
   id: string
-  status: string
+  court_id: string
+  status: MatchStatus
+  end_reason?: string | null
   team_a_points: number
   team_b_points: number
   team_a_games: number
@@ -24,10 +29,31 @@ interface MatchState {
   session_id: string | null
   game_mode: string
   sets_to_win: number
+  games_per_set?: number
+  deciding_set_format?: 'full_set' | 'match_tiebreak'
+  match_tiebreak_points?: number
+  time_limit_minutes?: number | null
+  time_limit_rule?: 'finish_game' | 'deciding_point' | 'count_games'
+  time_expired?: boolean
+  started_at?: string | null
+  americano_points?: number
+  americano_serve_every?: number
+  handicap?: Handicap | null
+  sudden_death_after_deuces?: number | null
   side_swap_enabled: boolean
   is_tiebreak?: boolean
 }
 
+/**
+ * What to tell the players when scoring or ending the game from this phone fails
+ */
+function describeActionError(error: string | undefined, fallback: string): string {
+  if (error === 'unauthorized') {
+    return 'This phone is not linked to the session on this court. Set up a new game to keep scoring.'
+  }
+  return fallback
+}
+
 interface SessionState {
   valid: boolean
   reason?: string
@@ -45,6 +71,11 @@ export default function PlayingPage() {
   const [match, setMatch] = useState<MatchState | null>(null)
   const [sessionState, setSessionState] = useState<SessionState | null>(null)
   const [sessionId, setSessionId] = useState<string | null>(null)
+  // Credential for scoring and ending matches, issued when the session was created
+  const [sessionToken, setSessionToken] = useState<string | null>(null)
+  const timeUpSentRef = useRef<string | null>(null)
+  // Last scoring / end game failure, shown under the score
+  const [actionError, setActionError] = useState<string | null>(null)
 
   // Load initial data
   useEffect(() => {
@@ -70,6 +101,11 @@ export default function PlayingPage() {
           ? sessionStorage.getItem(`setup_session_id_${courtIdentifier}`)
           : null
       setSessionId(storedSessionId)
+      setSessionToken(
+        typeof window !== 'undefined'
+          ? sessionStorage.getItem(`setup_session_token_${courtIdentifier}`)
+          : null
+      )
 
       if (process.env.NODE_ENV === 'development') {
         console.log('Playing: storedSessionId:', storedSessionId)
@@ -89,12 +125,12 @@ export default function PlayingPage() {
         }
       }
 
-      // Get active match for this court (includes abandoned for transition)
+      // Get active match for this court (includes finished matches for transition)
       const { data: matchData } = await supabase
         .from('live_matches')
         .select('*')
         .eq('court_id', courtData.id)
-        .in('status', ['setup', 'in_progress', 'completed', 'abandoned'])
+        .in('status', ['setup', 'in_progress', ...FINISHED_STATUSES])
         .order('created_at', { ascending: false })
         .limit(1)
         .maybeSingle()
@@ -153,6 +189,29 @@ export default function PlayingPage() {
     return () => clearInterval(interval)
   }, [sessionId])
 
+  // Time-limited match: tell the match function when time is up (it checks the clock too)
+  useEffect(() => {
+    if (!match?.time_limit_minutes || !match.started_at || match.time_expired || !sessionToken) return
+
+    const tick = () => {
+      if (getTimeRemainingMs(match) === 0 && timeUpSentRef.current !== match.id) {
+        timeUpSentRef.current = match.id
+        fetch(`${SUPABASE_URL}/functions/v1/match`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          },
+          body: JSON.stringify({ action: 'time_up', court_id: match.court_id, session_token: sessionToken }),
+        }).catch((err) => console.error('Error sending time up:', err))
+      }
+    }
+
+    tick()
+    const interval = setInterval(tick, 1000)
+    return () => clearInterval(interval)
+  }, [match, sessionToken])
+
   // Handlers
   const handlePlayAgain = async () => {
     if (!match || !sessionId || !courtUuid) return
@@ -169,6 +228,15 @@ export default function PlayingPage() {
         session_id: sessionId,
         game_mode: match.game_mode,
         sets_to_win: match.sets_to_win,
+        games_per_set: match.games_per_set,
+        deciding_set_format: match.deciding_set_format,
+        match_tiebreak_points: match.match_tiebreak_points,
+        time_limit_minutes: match.time_limit_minutes,
+        time_limit_rule: match.time_limit_rule,
+        americano_points: match.americano_points,
+        americano_serve_every: match.americano_serve_every,
+        handicap: match.handicap ?? null,
+        sudden_death_after_deuces: match.sudden_death_after_deuces,
         side_swap_enabled: match.side_swap_enabled,
         team_a_player_1: match.team_a_player_1,
         team_a_player_2: match.team_a_player_2,
@@ -190,6 +258,7 @@ export default function PlayingPage() {
       console.log('Ending game for court:', courtUuid)
     }
 
+    setActionError(null)
     try {
       const response = await fetch(`${SUPABASE_URL}/functions/v1/match`, {
         method: 'POST',
@@ -200,6 +269,7 @@ export default function PlayingPage() {
         body: JSON.stringify({
           action: 'end',
           court_id: courtUuid,
+          session_token: sessionToken,
           reason: 'abandoned',
         }),
       })
@@ -210,9 +280,11 @@ export default function PlayingPage() {
       }
       if (!result.success) {
         console.error('Failed to end game:', result.error)
+        setActionError(describeActionError(result.error, 'Could not end the game. Try again.'))
       }
     } catch (err) {
       console.error('Error ending game:', err)
+      setActionError('Could not end the game. Try again.')
     }
   }
 
@@ -221,6 +293,21 @@ export default function PlayingPage() {
       // Save current settings using court UUID (matching setup page)
       sessionStorage.setItem(`setup_game_mode_${courtUuid}`, match.game_mode)
       sessionStorage.setItem(`setup_sets_${courtUuid}`, String(match.sets_to_win))
+      sessionStorage.setItem(`setup_games_per_set_${courtUuid}`, String(match.games_per_set ?? 6))
+      sessionStorage.setItem(
+        `setup_deciding_set_${courtUuid}`,
+        match.deciding_set_format ?? 'full_set'
+      )
+      sessionStorage.setItem(`setup_time_limit_${courtUuid}`, String(match.time_limit_minutes ?? ''))
+      sessionStorage.setItem(
+        `setup_time_limit_rule_${courtUuid}`,
+        match.time_limit_rule ?? 'finish_game'
+      )
+      sessionStorage.setItem(`setup_americano_points_${courtUuid}`, String(match.americano_points ?? 24))
+      sessionStorage.setItem(`setup_handicap_${courtUuid}`, JSON.stringify(match.handicap ?? null))
+      if (match.sudden_death_after_deuces !== undefined) {
+        sessionStorage.setItem(`setup_sudden_death_${courtUuid}`, JSON.stringify(match.sudden_death_after_deuces))
+      }
       sessionStorage.setItem(
         `setup_side_swap_${courtUuid}`,
         String(match.side_swap_enabled ?? true)
@@ -239,6 +326,7 @@ export default function PlayingPage() {
   const handleScorePoint = async (team: 'a' | 'b') => {
     if (!courtUuid) return
 
+    setActionError(null)
     try {
       const response = await fetch(`${SUPABASE_URL}/functions/v1/score`, {
         method: 'POST',
@@ -250,16 +338,19 @@ export default function PlayingPage() {
           court_id: courtUuid,
           team,
           source: 'control_panel',
+          session_token: sessionToken,
         }),
       })
 
       const data = await response.json()
       if (!data.success) {
         console.error('Failed to score point:', data.error)
+        setActionError(describeActionError(data.error, 'Could not score the point. Try again.'))
       }
       // Match updates via realtime subscription
     } catch (err) {
       console.error('Error scoring point:', err)
+      setActionError('Could not score the point. Try again.')
     }
   }
 
@@ -271,6 +362,7 @@ export default function PlayingPage() {
     if (result.success) {
       if (typeof window !== 'undefined') {
         sessionStorage.removeItem(`setup_session_id_${courtIdentifier}`)
+        sessionStorage.removeItem(`setup_session_token_${courtIdentifier}`)
       }
       router.push(`/session-review/${sessionId}`)
     }
@@ -358,12 +450,10 @@ export default function PlayingPage() {
     )
   }
 
-  // Show post-game if match exists and is completed/abandoned OR has a winner
+  // Show post-game if match exists and is finished OR has a winner
   const showPostGame =
     match &&
-    (match.status === 'completed' ||
-      match.status === 'abandoned' ||
-      !!match.winner)
+    (isFinishedStatus(match.status) || !!match.winner)
 
   if (process.env.NODE_ENV === 'development') {
     console.log('Render - match:', match?.id, 'status:', match?.status, 'winner:', match?.winner)
@@ -373,6 +463,7 @@ export default function PlayingPage() {
     const isAbandoned = match.status === 'abandoned'
     const headerText = isAbandoned ? 'Game Ended' : 'Game Complete'
     const hasWinner = match.winner && !isAbandoned
+    const earlyEnd = formatEarlyEnd(match)
 
     const winnerName = hasWinner
       ? match.winner === 'a'
@@ -404,6 +495,9 @@ export default function PlayingPage() {
             {isAbandoned && (
               <p className="playing-abandoned-label">Match was ended early</p>
             )}
+            {earlyEnd && (
+              <p className="playing-abandoned-label">{earlyEnd}</p>
+            )}
           </div>
 
           <div className="playing-post-actions">
@@ -497,6 +591,8 @@ export default function PlayingPage() {
           </>
         )}
 
+        {actionError && <p className="playing-error">{actionError}</p>}
+
         <div className="playing-session-actions">
           <button
             className="playing-btn playing-btn-danger-outline"
@@ -3,6 +3,11 @@
 import { useEffect, useState } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import { supabase } from '@/lib/supabase'
+import type { MatchStats, MatchStatus, Handicap } from '@/lib/types/match'
+import { formatHandicap } from '@/lib/utils/score-format'
+import { FINISHED_STATUSES, formatEarlyEnd } from '@/lib/utils/match-outcome'
+import { summarizePlayerAnnotations, getTopShot, SHOT_LABELS } from '@/lib/utils/point-annotation'
+import { formatResult } from '@/lib/scoring/notation'
 import '@/app/styles/session-review.css'
 
 interface Game {
@@ -15,8 +20,12 @@ interface Game {
   set_scores: Array<{ team_a: number; team_b: number }>
   created_at: string
   completed_at: string | null
-  status?: string
+  status?: MatchStatus
   live_match_id?: string
+  stats?: MatchStats | null
+  ended_by_time?: boolean
+  end_reason?: string | null
+  handicap?: Handicap | null
 }
 
 interface Session {
@@ -36,6 +45,7 @@ export default function SessionReviewPage() {
   const [games, setGames] = useState<Game[]>([])
   const [courtName, setCourtName] = useState('')
   const [courtSlug, setCourtSlug] = useState<string>('')
+  const [copiedGameId, setCopiedGameId] = useState<string | null>(null)
 
   useEffect(() => {
     async function loadData() {
@@ -66,7 +76,7 @@ export default function SessionReviewPage() {
           .from('live_matches')
           .select('*')
           .eq('session_id', sessionId)
-          .in('status', ['completed', 'abandoned'])
+          .in('status', FINISHED_STATUSES)
           .order('created_at', { ascending: true }),
         supabase
           .from('matches')
@@ -118,6 +128,17 @@ export default function SessionReviewPage() {
     return `${minutes} mins`
   }
 
+  // Copy a game's result (e.g. "6-4 3-6 [10-8]") to paste into other apps
+  const handleCopyResult = async (game: Game) => {
+    try {
+      await navigator.clipboard.writeText(formatResult(game.set_scores))
+      setCopiedGameId(game.id)
+      setTimeout(() => setCopiedGameId(null), 2000)
+    } catch (err) {
+      console.error('Error copying result:', err)
+    }
+  }
+
   const handleDone = () => {
     if (courtSlug) {
       router.push(`/setup/${courtSlug}`)
@@ -144,6 +165,8 @@ export default function SessionReviewPage() {
         )
       : 0
 
+  const playerSummaries = summarizePlayerAnnotations(games)
+
   return (
     <div className="review-container">
       <div className="review-header">
@@ -160,7 +183,7 @@ export default function SessionReviewPage() {
           games.map((game, index) => {
             const winnerName =
               !game.winner
-                ? 'Abandoned'
+                ? game.ended_by_time || game.status === 'completed' ? 'Draw' : 'Abandoned'
                 : game.winner === 'a'
                   ? formatTeamName(
                       game.team_a_player_1,
@@ -185,26 +208,75 @@ export default function SessionReviewPage() {
                 ? formatDuration(game.created_at, game.completed_at)
                 : null
 
+            const earlyEnd = game.status ? formatEarlyEnd({ status: game.status, end_reason: game.end_reason }) : null
+
             return (
               <div key={game.id} className="review-game-card">
                 <div className="review-game-header">
-                  <span className="review-game-number">Game {index + 1}</span>
+                  <span className="review-game-number">
+                    Game {index + 1}
+                    {game.ended_by_time && ' • Time limit'}
+                    {earlyEnd && ` • ${earlyEnd}`}
+                    {game.handicap && ` • Handicap (${formatHandicap(game.handicap)})`}
+                  </span>
                   {duration && (
                     <span className="review-game-duration">{duration}</span>
                   )}
                 </div>
                 <div className="review-game-result">
                   <span className="review-game-winner">
-                    {winnerName === 'Abandoned' ? winnerName : `${winnerName} WIN`}
+                    {!game.winner ? winnerName : `${winnerName} WIN`}
                   </span>
                   <span className="review-game-score">{score}</span>
                 </div>
+                {game.set_scores && game.set_scores.length > 0 && (
+                  <button
+                    className="review-copy-btn"
+                    onClick={() => handleCopyResult(game)}
+                  >
+                    {copiedGameId === game.id ? 'Copied' : 'Copy result'}
+                  </button>
+                )}
+                {game.stats && game.stats.points_played > 0 && (
+                  <div className="review-game-stats">
+                    Points {game.stats.team_a.points_won}–{game.stats.team_b.points_won}
+                    {' • '}
+                    Breaks {game.stats.team_a.breaks}–{game.stats.team_b.breaks}
+                    {' • '}
+                    Deuces {game.stats.deuces}
+                  </div>
+                )}
               </div>
             )
           })
         )}
       </div>
 
+      {playerSummaries.length > 0 && (
+        <div className="review-players">
+          <h2 className="review-players-title">How points ended</h2>
+          <div className="review-player-row review-player-row-head">
+            <span>Player</span>
+            <span>Winners</span>
+            <span>Forced</span>
+            <span>Unforced</span>
+            <span>Top shot</span>
+          </div>
+          {playerSummaries.map((player) => {
+            const topShot = getTopShot(player)
+            return (
+              <div key={player.name} className="review-player-row">
+                <span className="review-player-name">{player.name}</span>
+                <span>{player.winners}</span>
+                <span>{player.forced_errors}</span>
+                <span>{player.unforced_errors}</span>
+                <span>{topShot ? SHOT_LABELS[topShot] : '–'}</span>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
       <div className="review-summary">
         <div className="review-stat">
           <span className="review-stat-value">{games.length}</span>
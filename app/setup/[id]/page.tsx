@@ -7,7 +7,15 @@ import { checkSession, createSession, takeoverSession, validateSession } from '@
 import ScoreDisplay from '@/components/ScoreDisplay'
 import MatchSetupForm from '@/components/MatchSetupForm'
 import SessionProtectionPrompt from '@/components/SessionProtectionPrompt'
-import type { MatchState, GameMode } from '@/lib/types/match'
+import type {
+  MatchState,
+  GameMode,
+  GamesPerSet,
+  DecidingSetFormat,
+  TimeLimitRule,
+  Handicap,
+} from '@/lib/types/match'
+import { getDefaultSuddenDeath } from '@/lib/scoring/engine'
 
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!
 
@@ -55,9 +63,15 @@ export default function SetupPage() {
   // Form state
   const [gameMode, setGameMode] = useState<GameMode>('traditional')
   const [setsToWin, setSetsToWin] = useState<1 | 2>(1)
+  const [gamesPerSet, setGamesPerSet] = useState<GamesPerSet>(6)
+  const [decidingSetFormat, setDecidingSetFormat] = useState<DecidingSetFormat>('full_set')
+  const [timeLimitMinutes, setTimeLimitMinutes] = useState<number | null>(null)
+  const [timeLimitRule, setTimeLimitRule] = useState<TimeLimitRule>('finish_game')
+  const [americanoPoints, setAmericanoPoints] = useState(24)
+  const [handicap, setHandicap] = useState<Handicap | null>(null)
+  const [suddenDeathAfterDeuces, setSuddenDeathAfterDeuces] = useState<number | null>(null)
   const [players, setPlayers] = useState<string[]>(['', '', '', ''])
   const [sideSwapEnabled, setSideSwapEnabled] = useState(true)
-  const [endGameInTiebreak, setEndGameInTiebreak] = useState(true)
 
   // Load court and check for active match
   useEffect(() => {
@@ -103,6 +117,7 @@ export default function SetupPage() {
             } else {
               if (typeof window !== 'undefined') {
                 sessionStorage.removeItem(storageKey)
+                sessionStorage.removeItem(`setup_session_token_${courtIdentifier}`)
               }
             }
           }
@@ -121,6 +136,7 @@ export default function SetupPage() {
                 setCurrentSessionId(createResult.session.id)
                 if (typeof window !== 'undefined') {
                   sessionStorage.setItem(storageKey, createResult.session.id)
+                  sessionStorage.setItem(`setup_session_token_${courtIdentifier}`, createResult.session_token ?? '')
                   if (process.env.NODE_ENV === 'development') {
                     console.log('Setup: currentSessionId (created):', createResult.session.id)
                   }
@@ -172,23 +188,58 @@ export default function SetupPage() {
             
             if (savedGameMode) {
               const value = savedGameMode as GameMode
-              if (['golden_point', 'silver_point', 'traditional'].includes(value)) {
+              if (['golden_point', 'silver_point', 'traditional', 'americano', 'pickleball'].includes(value)) {
                 setGameMode(value)
+                setSuddenDeathAfterDeuces(getDefaultSuddenDeath(value))
               }
             }
             
             if (savedSets) {
               setSetsToWin(Number(savedSets) as 1 | 2)
             }
+
+            const savedGamesPerSet = Number(sessionStorage.getItem(`setup_games_per_set_${courtData.id}`))
+            if ([4, 6, 8, 9].includes(savedGamesPerSet)) {
+              setGamesPerSet(savedGamesPerSet as GamesPerSet)
+            }
+
+            const savedDecidingSet = sessionStorage.getItem(`setup_deciding_set_${courtData.id}`)
+            if (savedDecidingSet === 'full_set' || savedDecidingSet === 'match_tiebreak') {
+              setDecidingSetFormat(savedDecidingSet)
+            }
+
+            const savedTimeLimit = Number(sessionStorage.getItem(`setup_time_limit_${courtData.id}`))
+            if (savedTimeLimit > 0) {
+              setTimeLimitMinutes(savedTimeLimit)
+            }
+            const savedTimeLimitRule = sessionStorage.getItem(`setup_time_limit_rule_${courtData.id}`)
+            if (
+              savedTimeLimitRule === 'finish_game' ||
+              savedTimeLimitRule === 'deciding_point' ||
+              savedTimeLimitRule === 'count_games'
+            ) {
+              setTimeLimitRule(savedTimeLimitRule)
+            }
+
+            const savedAmericanoPoints = Number(sessionStorage.getItem(`setup_americano_points_${courtData.id}`))
+            if ([16, 24, 32].includes(savedAmericanoPoints)) {
+              setAmericanoPoints(savedAmericanoPoints)
+            }
+
+            const savedHandicap = sessionStorage.getItem(`setup_handicap_${courtData.id}`)
+            if (savedHandicap) {
+              setHandicap(JSON.parse(savedHandicap))
+            }
+
+            const savedSuddenDeath = sessionStorage.getItem(`setup_sudden_death_${courtData.id}`)
+            if (savedSuddenDeath) {
+              setSuddenDeathAfterDeuces(JSON.parse(savedSuddenDeath))
+            }
             
             const savedSideSwap = sessionStorage.getItem(`setup_side_swap_${courtData.id}`)
             if (savedSideSwap) {
               setSideSwapEnabled(JSON.parse(savedSideSwap))
             }
-            const savedTiebreak = sessionStorage.getItem(`setup_tiebreak_${courtData.id}`)
-            if (savedTiebreak !== null) {
-              setEndGameInTiebreak(JSON.parse(savedTiebreak))
-            }
           }
         }
       } catch (err) {
@@ -225,6 +276,10 @@ export default function SetupPage() {
             `setup_session_id_${courtIdentifier}`,
             result.session.id
           )
+          sessionStorage.setItem(
+            `setup_session_token_${courtIdentifier}`,
+            result.session_token ?? ''
+          )
         }
       } else {
         setError(result.error || 'Failed to take over')
@@ -252,6 +307,10 @@ export default function SetupPage() {
         body: JSON.stringify({
           action: 'end',
           court_id: courtId,
+          session_token:
+            typeof window !== 'undefined'
+              ? sessionStorage.getItem(`setup_session_token_${courtIdentifier}`)
+              : null,
         }),
       })
 
@@ -302,8 +361,14 @@ export default function SetupPage() {
       sessionStorage.setItem(`setup_players_${courtId}`, JSON.stringify(players))
       sessionStorage.setItem(`setup_game_mode_${courtId}`, gameMode)
       sessionStorage.setItem(`setup_sets_${courtId}`, setsToWin.toString())
+      sessionStorage.setItem(`setup_games_per_set_${courtId}`, gamesPerSet.toString())
+      sessionStorage.setItem(`setup_deciding_set_${courtId}`, decidingSetFormat)
+      sessionStorage.setItem(`setup_time_limit_${courtId}`, String(timeLimitMinutes ?? ''))
+      sessionStorage.setItem(`setup_time_limit_rule_${courtId}`, timeLimitRule)
+      sessionStorage.setItem(`setup_americano_points_${courtId}`, americanoPoints.toString())
+      sessionStorage.setItem(`setup_handicap_${courtId}`, JSON.stringify(handicap))
+      sessionStorage.setItem(`setup_sudden_death_${courtId}`, JSON.stringify(suddenDeathAfterDeuces))
       sessionStorage.setItem(`setup_side_swap_${courtId}`, JSON.stringify(sideSwapEnabled))
-      sessionStorage.setItem(`setup_tiebreak_${courtId}`, JSON.stringify(endGameInTiebreak))
       sessionStorage.setItem(
         `setup_session_id_${courtIdentifier}`,
         currentSessionId || ''
@@ -318,7 +383,13 @@ export default function SetupPage() {
         game_mode: gameMode,
         sets_to_win: setsToWin,
         side_swap_enabled: sideSwapEnabled,
-        tiebreak_at: endGameInTiebreak ? 6 : 6,
+        games_per_set: gamesPerSet,
+        deciding_set_format: decidingSetFormat,
+        time_limit_minutes: timeLimitMinutes,
+        time_limit_rule: timeLimitRule,
+        americano_points: americanoPoints,
+        handicap,
+        sudden_death_after_deuces: suddenDeathAfterDeuces,
       }
       if (players[0]?.trim()) body.team_a_player_1 = players[0].trim()
       if (players[1]?.trim()) body.team_a_player_2 = players[1].trim()
@@ -344,8 +415,14 @@ export default function SetupPage() {
         sessionStorage.removeItem(`setup_players_${courtId}`)
         sessionStorage.removeItem(`setup_game_mode_${courtId}`)
         sessionStorage.removeItem(`setup_sets_${courtId}`)
+        sessionStorage.removeItem(`setup_games_per_set_${courtId}`)
+        sessionStorage.removeItem(`setup_deciding_set_${courtId}`)
+        sessionStorage.removeItem(`setup_time_limit_${courtId}`)
+        sessionStorage.removeItem(`setup_time_limit_rule_${courtId}`)
+        sessionStorage.removeItem(`setup_americano_points_${courtId}`)
+        sessionStorage.removeItem(`setup_handicap_${courtId}`)
+        sessionStorage.removeItem(`setup_sudden_death_${courtId}`)
         sessionStorage.removeItem(`setup_side_swap_${courtId}`)
-        sessionStorage.removeItem(`setup_tiebreak_${courtId}`)
         // NOTE: Do NOT remove session_id - it's needed by the playing page
       }
 
@@ -537,13 +614,25 @@ export default function SetupPage() {
       setGameMode={setGameMode}
       setsToWin={setsToWin}
       setSetsToWin={setSetsToWin}
+      gamesPerSet={gamesPerSet}
+      setGamesPerSet={setGamesPerSet}
+      decidingSetFormat={decidingSetFormat}
+      setDecidingSetFormat={setDecidingSetFormat}
+      timeLimitMinutes={timeLimitMinutes}
+      setTimeLimitMinutes={setTimeLimitMinutes}
+      timeLimitRule={timeLimitRule}
+      setTimeLimitRule={setTimeLimitRule}
+      americanoPoints={americanoPoints}
+      setAmericanoPoints={setAmericanoPoints}
+      handicap={handicap}
+      setHandicap={setHandicap}
+      suddenDeathAfterDeuces={suddenDeathAfterDeuces}
+      setSuddenDeathAfterDeuces={setSuddenDeathAfterDeuces}
       players={players}
       onPlayerChange={handlePlayerChange}
       onRandomize={handleRandomize}
       sideSwapEnabled={sideSwapEnabled}
       setSideSwapEnabled={setSideSwapEnabled}
-      endGameInTiebreak={endGameInTiebreak}
-      setEndGameInTiebreak={setEndGameInTiebreak}
       onSubmit={handleStartGame}
       submitLoading={actionLoading === 'create'}
       submitLabel="START GAME"
@@ -68,7 +68,7 @@ export default function TeamsPage() {
 
           if (savedGameMode) {
             const value = savedGameMode as GameMode
-            if (['golden_point', 'silver_point', 'traditional'].includes(value)) {
+            if (['golden_point', 'silver_point', 'traditional', 'americano', 'pickleball'].includes(value)) {
               setGameMode(value)
             }
           }
@@ -166,11 +166,35 @@ export default function TeamsPage() {
     setActionLoading(true)
     setError(null)
 
-    // Read side swap and session_id from sessionStorage
+    // Read side swap, set format and session_id from sessionStorage
     const savedSideSwap = typeof window !== 'undefined'
       ? sessionStorage.getItem(`setup_side_swap_${courtId}`)
       : null
     const sideSwapEnabled = savedSideSwap ? JSON.parse(savedSideSwap) : true
+    const gamesPerSet = typeof window !== 'undefined'
+      ? Number(sessionStorage.getItem(`setup_games_per_set_${courtId}`)) || 6
+      : 6
+    const decidingSetFormat = typeof window !== 'undefined'
+      ? sessionStorage.getItem(`setup_deciding_set_${courtId}`) || 'full_set'
+      : 'full_set'
+    const timeLimitMinutes = typeof window !== 'undefined'
+      ? Number(sessionStorage.getItem(`setup_time_limit_${courtId}`)) || null
+      : null
+    const timeLimitRule = typeof window !== 'undefined'
+      ? sessionStorage.getItem(`setup_time_limit_rule_${courtId}`) || 'finish_game'
+      : 'finish_game'
+    const americanoPoints = typeof window !== 'undefined'
+      ? Number(sessionStorage.getItem(`setup_americano_points_${courtId}`)) || 24
+      : 24
+    const savedHandicap = typeof window !== 'undefined'
+      ? sessionStorage.getItem(`setup_handicap_${courtId}`)
+      : null
+    const handicap = savedHandicap ? JSON.parse(savedHandicap) : null
+    const savedSuddenDeath = typeof window !== 'undefined'
+      ? sessionStorage.getItem(`setup_sudden_death_${courtId}`)
+      : null
+    // Not chosen: the game mode's
+    const suddenDeathAfterDeuces = savedSuddenDeath ? JSON.parse(savedSuddenDeath) : undefined
     const sessionId = typeof window !== 'undefined'
       ? sessionStorage.getItem(`setup_session_id_${courtIdentifier}`)
       : null
@@ -187,6 +211,13 @@ export default function TeamsPage() {
           session_id: sessionId || undefined,
           game_mode: gameMode,
           sets_to_win: setsToWin,
+          games_per_set: gamesPerSet,
+          deciding_set_format: decidingSetFormat,
+          time_limit_minutes: timeLimitMinutes,
+          time_limit_rule: timeLimitRule,
+          americano_points: americanoPoints,
+          handicap,
+          sudden_death_after_deuces: suddenDeathAfterDeuces,
           side_swap_enabled: sideSwapEnabled,
           team_a_player_1: teams.teamA[0] || undefined,
           team_a_player_2: teams.teamA[1] || undefined,
@@ -208,6 +239,13 @@ export default function TeamsPage() {
         sessionStorage.removeItem(`setup_players_${courtId}`)
         sessionStorage.removeItem(`setup_game_mode_${courtId}`)
         sessionStorage.removeItem(`setup_sets_${courtId}`)
+        sessionStorage.removeItem(`setup_games_per_set_${courtId}`)
+        sessionStorage.removeItem(`setup_deciding_set_${courtId}`)
+        sessionStorage.removeItem(`setup_time_limit_${courtId}`)
+        sessionStorage.removeItem(`setup_time_limit_rule_${courtId}`)
+        sessionStorage.removeItem(`setup_americano_points_${courtId}`)
+        sessionStorage.removeItem(`setup_handicap_${courtId}`)
+        sessionStorage.removeItem(`setup_sudden_death_${courtId}`)
         sessionStorage.removeItem(`setup_teams_${courtId}`)
         // NOTE: Do NOT remove session_id - it's needed by the playing page
       }
@@ -0,0 +1,243 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import type { Team } from '@/lib/types/match'
+import {
+  getButtonDevices,
+  getButtonPairing,
+  pairButton,
+  cancelPairing,
+  unpairButton,
+  rotateButtonKey,
+  type ButtonDevice,
+  type ButtonPairing,
+} from '@/lib/api/button'
+import { getButtonWarning, formatButtonWarning } from '@/lib/utils/button-health'
+import '@/app/styles/control-panel.css'
+
+const PAIRING_POLL_MS = 2000
+// Telemetry arrives every few minutes; refresh so warnings show without a reload
+const DEVICE_REFRESH_MS = 60000
+
+/**
+ * "2m ago" style time since a button was last pressed or checked in
+ */
+function formatLastSeen(lastSeenAt: string | null): string {
+  if (!lastSeenAt) return 'Never seen'
+  const minutes = Math.floor((Date.now() - new Date(lastSeenAt).getTime()) / 60000)
+  if (minutes < 1) return 'Seen just now'
+  if (minutes < 60) return `Seen ${minutes}m ago`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `Seen ${hours}h ago`
+  return `Seen ${Math.floor(hours / 24)}d ago`
+}
+
+/**
+ * Court buttons: lists the paired buttons and pairs a new one for either side.
+ * Pairing opens a short window on the server; the next press from an unknown
+ * button is assigned to that side (replacing the old button).
+ * Each button signs its presses with its own key; "New key" replaces it.
+ * Buttons that are low on battery or have stopped checking in are flagged.
+ * Every action is checked against the court's control PIN on the server.
+ */
+export default function ButtonPairingPanel({ courtId, pin }: { courtId: string; pin: string }) {
+  const [devices, setDevices] = useState<ButtonDevice[]>([])
+  const [pairing, setPairing] = useState<ButtonPairing | null>(null)
+  const [secondsLeft, setSecondsLeft] = useState(0)
+  const [label, setLabel] = useState('')
+  const [message, setMessage] = useState<string | null>(null)
+  // Shown once after a key rotation, until dismissed
+  const [newKey, setNewKey] = useState<{ team: Team; secret: string } | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const loadDevices = useCallback(async () => {
+    setDevices(await getButtonDevices(courtId, pin))
+  }, [courtId, pin])
+
+  useEffect(() => {
+    loadDevices()
+    const interval = setInterval(loadDevices, DEVICE_REFRESH_MS)
+    return () => clearInterval(interval)
+  }, [loadDevices])
+
+  // While pairing: poll until a button is pressed or the window closes
+  useEffect(() => {
+    if (!pairing) return
+
+    const tick = async () => {
+      const remaining = Math.ceil((new Date(pairing.expires_at).getTime() - Date.now()) / 1000)
+      setSecondsLeft(Math.max(0, remaining))
+
+      const latest = await getButtonPairing(courtId, pin, pairing.id)
+      if (latest?.device_id) {
+        setPairing(null)
+        setLabel('')
+        setMessage(`Team ${latest.team.toUpperCase()} button paired`)
+        loadDevices()
+      } else if (!latest || remaining <= 0) {
+        setPairing(null)
+        setMessage('No button was pressed — try again')
+      }
+    }
+
+    tick()
+    const interval = setInterval(tick, PAIRING_POLL_MS)
+    return () => clearInterval(interval)
+  }, [pairing, courtId, pin, loadDevices])
+
+  const startPairing = async (team: Team) => {
+    setBusy(true)
+    setMessage(null)
+    try {
+      const result = await pairButton(courtId, pin, team, label)
+      if (!result.success || !result.pairing) {
+        setMessage(result.error || 'Could not start pairing')
+        return
+      }
+      setPairing(result.pairing)
+    } catch (err) {
+      console.error('Error starting pairing:', err)
+      setMessage('Could not start pairing')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const stopPairing = async () => {
+    setPairing(null)
+    try {
+      await cancelPairing(courtId, pin)
+    } catch (err) {
+      console.error('Error cancelling pairing:', err)
+    }
+  }
+
+  const removeDevice = async (device: ButtonDevice) => {
+    setBusy(true)
+    setMessage(null)
+    try {
+      const result = await unpairButton(courtId, pin, device.device_id)
+      if (!result.success) {
+        setMessage(result.error || 'Could not remove button')
+        return
+      }
+      await loadDevices()
+    } catch (err) {
+      console.error('Error removing button:', err)
+      setMessage('Could not remove button')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const rotateKey = async (device: ButtonDevice) => {
+    setBusy(true)
+    setMessage(null)
+    try {
+      const result = await rotateButtonKey(courtId, pin, device.device_id)
+      if (!result.success || !result.secret) {
+        setMessage(result.error || 'Could not rotate key')
+        return
+      }
+      setNewKey({ team: device.team, secret: result.secret })
+    } catch (err) {
+      console.error('Error rotating button key:', err)
+      setMessage('Could not rotate key')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="control-buttons">
+      <div className="control-annotation-title">Buttons</div>
+
+      {devices.length === 0 && <p className="control-buttons-empty">No buttons paired</p>}
+      {devices.map((device) => {
+        const warning = getButtonWarning(device)
+        const lastSeen = [device.last_seen_at, device.last_heartbeat_at].filter(Boolean).sort().pop() ?? null
+        return (
+          <div key={device.device_id} className="control-buttons-device">
+            <div className="control-buttons-device-info">
+              <span className="control-buttons-device-name">
+                Team {device.team.toUpperCase()}
+                {device.label && ` · ${device.label}`}
+              </span>
+              <span className="control-buttons-device-seen">
+                {formatLastSeen(lastSeen)}
+                {device.battery_percent !== null && ` · ${device.battery_percent}%`}
+                {device.signal_rssi !== null && ` · ${device.signal_rssi} dBm`}
+                {device.firmware_version && ` · v${device.firmware_version}`}
+              </span>
+              {warning && (
+                <span className="control-buttons-device-warning">{formatButtonWarning(device, warning)}</span>
+              )}
+            </div>
+            <div className="control-buttons-device-actions">
+              <button
+                className="control-annotation-chip"
+                onClick={() => rotateKey(device)}
+                disabled={busy || !!pairing}
+              >
+                New key
+              </button>
+              <button
+                className="control-annotation-chip"
+                onClick={() => removeDevice(device)}
+                disabled={busy || !!pairing}
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        )
+      })}
+
+      {newKey && (
+        <div className="control-buttons-key">
+          <span>New key for the Team {newKey.team.toUpperCase()} button (shown once):</span>
+          <code className="control-buttons-key-value">{newKey.secret}</code>
+          <button className="control-annotation-chip" onClick={() => setNewKey(null)}>
+            Done
+          </button>
+        </div>
+      )}
+
+      {pairing ? (
+        <div className="control-buttons-pairing">
+          <span>
+            Press the new Team {pairing.team.toUpperCase()} button now… {secondsLeft}s
+          </span>
+          <button className="control-annotation-chip" onClick={stopPairing}>
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <>
+          <input
+            className="control-end-reason"
+            type="text"
+            placeholder="Label for new button (optional)"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            maxLength={40}
+          />
+          <div className="control-annotation-options">
+            {(['a', 'b'] as Team[]).map((team) => (
+              <button
+                key={team}
+                className="control-annotation-chip"
+                onClick={() => startPairing(team)}
+                disabled={busy}
+              >
+                Pair Team {team.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      {message && <p className="control-buttons-message">{message}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { ButtonGesture, GestureAction, GestureMap } from '@/lib/scoring/types'
+import { BUTTON_GESTURES, GESTURE_ACTIONS, DEFAULT_GESTURE_MAP, resolveGestureMap } from '@/lib/scoring/engine'
+import { getGestureMap, setGestureMap } from '@/lib/api/button'
+import { GESTURE_LABELS, GESTURE_ACTION_LABELS } from '@/lib/utils/gesture-map'
+import '@/app/styles/control-panel.css'
+
+/**
+ * What each button gesture does on this court (the control panel's own buttons
+ * are not affected). Only gestures that differ from the defaults are stored.
+ */
+export default function GestureMapPanel({ courtId, pin }: { courtId: string; pin: string }) {
+  const [map, setMap] = useState<GestureMap>({})
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    getGestureMap(courtId).then(setMap)
+  }, [courtId])
+
+  const save = async (next: GestureMap) => {
+    const previous = map
+    setMap(next)
+    setSaving(true)
+    setError(null)
+    try {
+      const result = await setGestureMap(courtId, pin, next)
+      if (!result.success) {
+        setMap(previous)
+        setError(result.error || 'Could not save gestures')
+      }
+    } catch (err) {
+      console.error('Error saving gesture map:', err)
+      setMap(previous)
+      setError('Could not save gestures')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const selectAction = (gesture: ButtonGesture, action: GestureAction) => {
+    const next = { ...map }
+    if (action === DEFAULT_GESTURE_MAP[gesture]) delete next[gesture]
+    else next[gesture] = action
+    save(next)
+  }
+
+  const resolved = resolveGestureMap(map)
+
+  return (
+    <div className="control-buttons">
+      <div className="control-annotation-title">Button gestures</div>
+      {BUTTON_GESTURES.map((gesture) => (
+        <div key={gesture} className="control-gesture-row">
+          <span className="control-gesture-label">{GESTURE_LABELS[gesture]}</span>
+          <div className="control-annotation-options">
+            {GESTURE_ACTIONS.map((action) => (
+              <button
+                key={action}
+                className={`control-annotation-chip ${resolved[gesture] === action ? 'selected' : ''}`}
+                onClick={() => selectAction(gesture, action)}
+                disabled={saving}
+              >
+                {GESTURE_ACTION_LABELS[action]}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+      {Object.keys(map).length > 0 && (
+        <button className="control-annotation-chip" onClick={() => save({})} disabled={saving}>
+          Reset to defaults
+        </button>
+      )}
+      {error && <p className="control-buttons-message">{error}</p>}
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 'use client'
 
-import type { GameMode } from '@/lib/types/match'
+import type { GameMode, GamesPerSet, DecidingSetFormat, TimeLimitRule, Handicap, Team } from '@/lib/types/match'
+import { SUDDEN_DEATH_OPTIONS, getDefaultSuddenDeath } from '@/lib/scoring/engine'
 import SetupScreenHeader from './SetupScreenHeader'
 import '@/app/styles/setup-form.css'
 
@@ -9,13 +10,25 @@ export interface MatchSetupFormProps {
   setGameMode: (m: GameMode) => void
   setsToWin: 1 | 2
   setSetsToWin: (n: 1 | 2) => void
+  gamesPerSet: GamesPerSet
+  setGamesPerSet: (n: GamesPerSet) => void
+  decidingSetFormat: DecidingSetFormat
+  setDecidingSetFormat: (f: DecidingSetFormat) => void
+  timeLimitMinutes: number | null
+  setTimeLimitMinutes: (m: number | null) => void
+  timeLimitRule: TimeLimitRule
+  setTimeLimitRule: (r: TimeLimitRule) => void
+  americanoPoints: number
+  setAmericanoPoints: (n: number) => void
+  handicap: Handicap | null
+  setHandicap: (h: Handicap | null) => void
+  suddenDeathAfterDeuces: number | null
+  setSuddenDeathAfterDeuces: (n: number | null) => void
   players: string[]
   onPlayerChange: (index: number, value: string) => void
   onRandomize: () => void
   sideSwapEnabled: boolean
   setSideSwapEnabled: (v: boolean) => void
-  endGameInTiebreak: boolean
-  setEndGameInTiebreak: (v: boolean) => void
   onSubmit: () => void
   submitLoading: boolean
   submitLabel?: string
@@ -28,19 +41,48 @@ export default function MatchSetupForm({
   setGameMode,
   setsToWin,
   setSetsToWin,
+  gamesPerSet,
+  setGamesPerSet,
+  decidingSetFormat,
+  setDecidingSetFormat,
+  timeLimitMinutes,
+  setTimeLimitMinutes,
+  timeLimitRule,
+  setTimeLimitRule,
+  americanoPoints,
+  setAmericanoPoints,
+  handicap,
+  setHandicap,
+  suddenDeathAfterDeuces,
+  setSuddenDeathAfterDeuces,
   players,
   onPlayerChange,
   onRandomize,
   sideSwapEnabled,
   setSideSwapEnabled,
-  endGameInTiebreak,
-  setEndGameInTiebreak,
   onSubmit,
   submitLoading,
   submitLabel = 'START GAME',
   error,
   showHeader = true,
 }: MatchSetupFormProps) {
+  // A head start of nothing is no handicap
+  function updateHandicap(next: Handicap | null) {
+    setHandicap(next && next.points + next.games + next.sets > 0 ? next : null)
+  }
+
+  // Handicaps only apply to points, games and sets; each mode starts from its own deuce rule
+  function selectGameMode(m: GameMode) {
+    setGameMode(m)
+    setSuddenDeathAfterDeuces(getDefaultSuddenDeath(m))
+    if (m === 'americano' || m === 'pickleball') setHandicap(null)
+  }
+
+  function selectSetsToWin(n: 1 | 2) {
+    setSetsToWin(n)
+    if (handicap && handicap.sets >= n) updateHandicap({ ...handicap, sets: 0 })
+  }
+
   return (
     <div className="setup-screen">
       <div className="setup-screen-inner">
@@ -55,7 +97,7 @@ export default function MatchSetupForm({
               <button
                 type="button"
                 className={`setup-mode-card ${gameMode === 'traditional' ? 'active' : ''}`}
-                onClick={() => setGameMode('traditional')}
+                onClick={() => selectGameMode('traditional')}
               >
                 <svg className="setup-mode-icon" viewBox="0 0 280 281" fill="none" aria-hidden>
                   <path d="M277.137 147.289C277.92 147.289 278.677 147.322 279.482 147.357C279.623 147.363 279.766 147.367 279.909 147.373C276.211 219.047 218.899 276.359 147.225 280.058C147.219 279.914 147.214 279.771 147.208 279.63C147.173 278.825 147.141 278.069 147.141 277.285C147.141 205.445 205.297 147.289 277.137 147.289Z" fill="currentColor" />
@@ -68,7 +110,7 @@ export default function MatchSetupForm({
               <button
                 type="button"
                 className={`setup-mode-card ${gameMode === 'golden_point' ? 'active' : ''}`}
-                onClick={() => setGameMode('golden_point')}
+                onClick={() => selectGameMode('golden_point')}
               >
                 <svg className="setup-mode-icon" viewBox="0 0 280 281" fill="none" aria-hidden>
                   <path d="M277.137 147.289C277.92 147.289 278.677 147.322 279.482 147.357C279.623 147.363 279.766 147.367 279.909 147.373C276.211 219.047 218.899 276.359 147.225 280.058C147.219 279.914 147.214 279.771 147.208 279.63C147.173 278.825 147.141 278.069 147.141 277.285C147.141 205.445 205.297 147.289 277.137 147.289Z" fill="currentColor" />
@@ -81,7 +123,7 @@ export default function MatchSetupForm({
               <button
                 type="button"
                 className={`setup-mode-card ${gameMode === 'silver_point' ? 'active' : ''}`}
-                onClick={() => setGameMode('silver_point')}
+                onClick={() => selectGameMode('silver_point')}
               >
                 <svg className="setup-mode-icon" viewBox="0 0 280 281" fill="none" aria-hidden>
                   <path d="M277.137 147.289C277.92 147.289 278.677 147.322 279.482 147.357C279.623 147.363 279.766 147.367 279.909 147.373C276.211 219.047 218.899 276.359 147.225 280.058C147.219 279.914 147.214 279.771 147.208 279.63C147.173 278.825 147.141 278.069 147.141 277.285C147.141 205.445 205.297 147.289 277.137 147.289Z" fill="currentColor" />
@@ -91,16 +133,101 @@ export default function MatchSetupForm({
                 <span className="setup-mode-name">Silver</span>
                 <span className="setup-mode-desc">1 Adv.</span>
               </button>
+              <button
+                type="button"
+                className={`setup-mode-card ${gameMode === 'americano' ? 'active' : ''}`}
+                onClick={() => selectGameMode('americano')}
+              >
+                <svg className="setup-mode-icon" viewBox="0 0 280 281" fill="none" aria-hidden>
+                  <path d="M277.137 147.289C277.92 147.289 278.677 147.322 279.482 147.357C279.623 147.363 279.766 147.367 279.909 147.373C276.211 219.047 218.899 276.359 147.225 280.058C147.219 279.914 147.214 279.771 147.208 279.63C147.173 278.825 147.141 278.069 147.141 277.285C147.141 205.445 205.297 147.289 277.137 147.289Z" fill="currentColor" />
+                  <path d="M146.986 0.239349C218.799 3.75729 276.39 61.3491 279.908 133.162C279.87 133.159 279.83 133.157 279.79 133.153C278.985 133.085 278.068 133.008 277.137 133.008C197.53 133.008 132.86 197.678 132.86 277.285C132.86 278.217 132.937 279.133 133.005 279.939C133.008 279.978 133.011 280.018 133.014 280.057C61.2007 276.539 3.60878 218.947 0.0910645 147.134C0.13026 147.137 0.170441 147.14 0.210205 147.144C1.01588 147.212 1.93229 147.289 2.86353 147.289C82.4706 147.289 147.141 82.6189 147.141 3.01181C147.141 2.08041 147.064 1.16427 146.995 0.35849C146.992 0.318576 146.989 0.278689 146.986 0.239349Z" fill="currentColor" />
+                  <path d="M132.792 0.667084C132.827 1.47181 132.86 2.22846 132.86 3.01181C132.859 74.8521 74.7037 133.007 2.86353 133.008C2.08032 133.008 1.32335 132.975 0.518799 132.941C0.377499 132.934 0.233451 132.929 0.0891113 132.923C3.78765 61.2496 61.1013 3.93691 132.775 0.238373C132.781 0.382705 132.786 0.525791 132.792 0.667084Z" fill="currentColor" />
+                </svg>
+                <span className="setup-mode-name">Americano</span>
+                <span className="setup-mode-desc">Points</span>
+              </button>
+              <button
+                type="button"
+                className={`setup-mode-card ${gameMode === 'pickleball' ? 'active' : ''}`}
+                onClick={() => selectGameMode('pickleball')}
+              >
+                <svg className="setup-mode-icon" viewBox="0 0 280 281" fill="none" aria-hidden>
+                  <path d="M277.137 147.289C277.92 147.289 278.677 147.322 279.482 147.357C279.623 147.363 279.766 147.367 279.909 147.373C276.211 219.047 218.899 276.359 147.225 280.058C147.219 279.914 147.214 279.771 147.208 279.63C147.173 278.825 147.141 278.069 147.141 277.285C147.141 205.445 205.297 147.289 277.137 147.289Z" fill="currentColor" />
+                  <path d="M146.986 0.239349C218.799 3.75729 276.39 61.3491 279.908 133.162C279.87 133.159 279.83 133.157 279.79 133.153C278.985 133.085 278.068 133.008 277.137 133.008C197.53 133.008 132.86 197.678 132.86 277.285C132.86 278.217 132.937 279.133 133.005 279.939C133.008 279.978 133.011 280.018 133.014 280.057C61.2007 276.539 3.60878 218.947 0.0910645 147.134C0.13026 147.137 0.170441 147.14 0.210205 147.144C1.01588 147.212 1.93229 147.289 2.86353 147.289C82.4706 147.289 147.141 82.6189 147.141 3.01181C147.141 2.08041 147.064 1.16427 146.995 0.35849C146.992 0.318576 146.989 0.278689 146.986 0.239349Z" fill="currentColor" />
+                  <path d="M132.792 0.667084C132.827 1.47181 132.86 2.22846 132.86 3.01181C132.859 74.8521 74.7037 133.007 2.86353 133.008C2.08032 133.008 1.32335 132.975 0.518799 132.941C0.377499 132.934 0.233451 132.929 0.0891113 132.923C3.78765 61.2496 61.1013 3.93691 132.775 0.238373C132.781 0.382705 132.786 0.525791 132.792 0.667084Z" fill="currentColor" />
+                </svg>
+                <span className="setup-mode-name">Pickleball</span>
+                <span className="setup-mode-desc">To 11</span>
+              </button>
             </div>
           </section>
 
+          {gameMode !== 'americano' && gameMode !== 'pickleball' && (
+            <section className="setup-section">
+              <h2 className="setup-section-title">SUDDEN DEATH</h2>
+              <div className="setup-sets-row">
+                {SUDDEN_DEATH_OPTIONS.map((n) => (
+                  <button
+                    key={n ?? 'off'}
+                    type="button"
+                    className={`setup-sets-pill ${suddenDeathAfterDeuces === n ? 'active' : ''}`}
+                    onClick={() => setSuddenDeathAfterDeuces(n)}
+                  >
+                    {n === null ? 'Never' : n === 0 ? '1st Deuce' : n === 1 ? '2nd Deuce' : '3rd Deuce'}
+                  </button>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {gameMode === 'americano' && (
+            <section className="setup-section">
+              <h2 className="setup-section-title">POINTS PER MATCH</h2>
+              <div className="setup-sets-row">
+                {[16, 24, 32].map((n) => (
+                  <button
+                    key={n}
+                    type="button"
+                    className={`setup-sets-pill ${americanoPoints === n ? 'active' : ''}`}
+                    onClick={() => setAmericanoPoints(n)}
+                  >
+                    {n} Points
+                  </button>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {gameMode === 'pickleball' && (
+            <section className="setup-section">
+              <h2 className="setup-section-title">NUMBER OF GAMES</h2>
+              <div className="setup-sets-row">
+                <button
+                  type="button"
+                  className={`setup-sets-pill ${setsToWin === 1 ? 'active' : ''}`}
+                  onClick={() => setSetsToWin(1)}
+                >
+                  1 Game
+                </button>
+                <button
+                  type="button"
+                  className={`setup-sets-pill ${setsToWin === 2 ? 'active' : ''}`}
+                  onClick={() => setSetsToWin(2)}
+                >
+                  Best of 3
+                </button>
+              </div>
+            </section>
+          )}
+
+          {gameMode !== 'americano' && gameMode !== 'pickleball' && (
           <section className="setup-section">
             <h2 className="setup-section-title">NUMBER OF SETS</h2>
             <div className="setup-sets-row">
               <button
                 type="button"
                 className={`setup-sets-pill ${setsToWin === 1 ? 'active' : ''}`}
-                onClick={() => setSetsToWin(1)}
+                onClick={() => selectSetsToWin(1)}
               >
                 1 Set
               </button>
@@ -113,20 +240,148 @@ export default function MatchSetupForm({
               </button>
             </div>
           </section>
+          )}
 
-          <section className="setup-section setup-toggles">
-            <div className="setup-toggle-row">
-              <span className="setup-toggle-label">END GAME IN TIEBREAK</span>
-              <button
-                type="button"
-                role="switch"
-                aria-checked={endGameInTiebreak}
-                className={`setup-switch ${endGameInTiebreak ? 'on' : ''}`}
-                onClick={() => setEndGameInTiebreak(!endGameInTiebreak)}
-              >
-                <span className="setup-switch-knob" />
-              </button>
+          {gameMode !== 'americano' && gameMode !== 'pickleball' && (
+          <section className="setup-section">
+            <h2 className="setup-section-title">GAMES PER SET</h2>
+            <div className="setup-sets-row">
+              {([4, 6, 8, 9] as GamesPerSet[]).map((n) => (
+                <button
+                  key={n}
+                  type="button"
+                  className={`setup-sets-pill ${gamesPerSet === n ? 'active' : ''}`}
+                  onClick={() => setGamesPerSet(n)}
+                >
+                  {n === 4 ? 'Short (4)' : n === 6 ? 'Standard (6)' : `Pro (${n})`}
+                </button>
+              ))}
             </div>
+          </section>
+          )}
+
+          {gameMode !== 'americano' && gameMode !== 'pickleball' && setsToWin === 2 && (
+            <section className="setup-section">
+              <h2 className="setup-section-title">THIRD SET</h2>
+              <div className="setup-sets-row">
+                <button
+                  type="button"
+                  className={`setup-sets-pill ${decidingSetFormat === 'full_set' ? 'active' : ''}`}
+                  onClick={() => setDecidingSetFormat('full_set')}
+                >
+                  Full Set
+                </button>
+                <button
+                  type="button"
+                  className={`setup-sets-pill ${decidingSetFormat === 'match_tiebreak' ? 'active' : ''}`}
+                  onClick={() => setDecidingSetFormat('match_tiebreak')}
+                >
+                  Super Tiebreak
+                </button>
+              </div>
+            </section>
+          )}
+
+          {gameMode !== 'americano' && gameMode !== 'pickleball' && (
+            <section className="setup-section">
+              <h2 className="setup-section-title">HANDICAP</h2>
+              <div className="setup-sets-row">
+                {([null, 'a', 'b'] as (Team | null)[]).map((team) => (
+                  <button
+                    key={team ?? 'none'}
+                    type="button"
+                    className={`setup-sets-pill ${(handicap?.team ?? null) === team ? 'active' : ''}`}
+                    onClick={() =>
+                      updateHandicap(team ? { points: 1, games: 0, sets: 0, ...handicap, team } : null)
+                    }
+                  >
+                    {team === null ? 'None' : `Team ${team.toUpperCase()}`}
+                  </button>
+                ))}
+              </div>
+              {handicap && (
+                <>
+                  <div className="setup-sets-row">
+                    {[0, 1, 2].map((n) => (
+                      <button
+                        key={n}
+                        type="button"
+                        className={`setup-sets-pill ${handicap.points === n ? 'active' : ''}`}
+                        onClick={() => updateHandicap({ ...handicap, points: n })}
+                      >
+                        {n === 0 ? 'Level Games' : n === 1 ? 'Start 15-0' : 'Start 30-0'}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="setup-sets-row">
+                    {[0, 1, 2].map((n) => (
+                      <button
+                        key={n}
+                        type="button"
+                        className={`setup-sets-pill ${handicap.games === n ? 'active' : ''}`}
+                        onClick={() => updateHandicap({ ...handicap, games: n })}
+                      >
+                        {n === 0 ? 'Level Sets' : `+${n} Game${n > 1 ? 's' : ''}`}
+                      </button>
+                    ))}
+                  </div>
+                  {setsToWin === 2 && (
+                    <div className="setup-sets-row">
+                      {[0, 1].map((n) => (
+                        <button
+                          key={n}
+                          type="button"
+                          className={`setup-sets-pill ${handicap.sets === n ? 'active' : ''}`}
+                          onClick={() => updateHandicap({ ...handicap, sets: n })}
+                        >
+                          {n === 0 ? 'Level Match' : '+1 Set'}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+            </section>
+          )}
+
+          <section className="setup-section">
+            <h2 className="setup-section-title">TIME LIMIT</h2>
+            <div className="setup-sets-row">
+              {[null, 60, 90].map((m) => (
+                <button
+                  key={m ?? 'none'}
+                  type="button"
+                  className={`setup-sets-pill ${timeLimitMinutes === m ? 'active' : ''}`}
+                  onClick={() => setTimeLimitMinutes(m)}
+                >
+                  {m === null ? 'None' : `${m} min`}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          {timeLimitMinutes !== null && (
+            <section className="setup-section">
+              <h2 className="setup-section-title">WHEN TIME IS UP</h2>
+              <div className="setup-sets-row">
+                {(['finish_game', 'deciding_point', 'count_games'] as TimeLimitRule[])
+                  // Pickleball games are always played out (only the server can win one)
+                  .filter((r) => gameMode !== 'pickleball' || r !== 'deciding_point')
+                  .map((r) => (
+                    <button
+                      key={r}
+                      type="button"
+                      className={`setup-sets-pill ${timeLimitRule === r ? 'active' : ''}`}
+                      onClick={() => setTimeLimitRule(r)}
+                    >
+                      {r === 'finish_game' ? 'Finish Game' : r === 'deciding_point' ? 'Deciding Point' : 'Count Games'}
+                    </button>
+                  ))}
+              </div>
+            </section>
+          )}
+
+          <section className="setup-section setup-toggles">
             <div className="setup-toggle-row">
               <span className="setup-toggle-label">SWAP SIDES</span>
               <button
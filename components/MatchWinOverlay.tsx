@@ -2,6 +2,7 @@
 
 import { useEffect, useRef, useCallback } from 'react'
 import type { MatchState } from '@/lib/types/match'
+import { formatEarlyEnd } from '@/lib/utils/match-outcome'
 
 interface MatchWinOverlayProps {
   match: MatchState
@@ -56,9 +57,14 @@ export default function MatchWinOverlay({ match, onComplete }: MatchWinOverlayPr
       ? 'var(--color-team-b)'
       : 'var(--color-text-secondary)'
 
+  const stats = match.stats && match.stats.points_played > 0 ? match.stats : null
+  const earlyEnd = formatEarlyEnd(match)
+
   const title = match.status === 'abandoned'
     ? 'MATCH ABANDONED'
-    : `${winnerName} WINS!`
+    : !winner && (match.ended_by_time || match.game_mode === 'americano')
+      ? 'DRAW'
+      : `${winnerName} WINS!`
 
   return (
     <div className="match-win-overlay screen-wrapper">
@@ -90,6 +96,26 @@ export default function MatchWinOverlay({ match, onComplete }: MatchWinOverlayPr
                 })}
               </div>
             )}
+
+            {match.ended_by_time && (
+              <p className="match-win-time-limit">
+                TIME LIMIT REACHED
+              </p>
+            )}
+
+            {earlyEnd && (
+              <p className="match-win-time-limit">
+                {earlyEnd.toUpperCase()}
+              </p>
+            )}
+
+            {stats && (
+              <div className="match-win-stats">
+                <span>POINTS {stats.team_a.points_won} - {stats.team_b.points_won}</span>
+                <span>BREAKS {stats.team_a.breaks} - {stats.team_b.breaks}</span>
+                <span>LONGEST RUN {stats.longest_streak.length}</span>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -6,6 +6,7 @@ interface ServerAnnouncementOverlayProps {
   servingTeam: 'a' | 'b'
   teamAName?: string
   teamBName?: string
+  serverName?: string | null
   onComplete: () => void
 }
 
@@ -13,6 +14,7 @@ export default function ServerAnnouncementOverlay({
   servingTeam,
   teamAName,
   teamBName,
+  serverName,
   onComplete
 }: ServerAnnouncementOverlayProps) {
   const [phase, setPhase] = useState<1 | 2>(1)
@@ -160,7 +162,7 @@ export default function ServerAnnouncementOverlay({
             <div className="content-centered">
               <div className="server-announcement-text-overlay">
                 <h1 className="server-announcement-title">
-                  {teamName}<br />TO SERVE
+                  {serverName || teamName}<br />TO SERVE
                 </h1>
               </div>
             </div>
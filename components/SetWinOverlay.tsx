@@ -6,6 +6,7 @@ interface SetWinOverlayProps {
   winningTeam: 'a' | 'b'
   setNumber: number
   score: { teamA: number; teamB: number }
+  unit?: 'SET' | 'GAME'  // GAME for pickleball, where each game is recorded as a set
   teamAName?: string
   teamBName?: string
   onComplete: () => void
@@ -15,6 +16,7 @@ export default function SetWinOverlay({
   winningTeam,
   setNumber,
   score,
+  unit = 'SET',
   teamAName,
   teamBName,
   onComplete
@@ -56,7 +58,7 @@ export default function SetWinOverlay({
         <div className="content-centered">
           <div className="set-win-text-overlay">
             <h1 className="set-win-title">
-              {winnerName} WINS SET {setNumber}
+              {winnerName} WINS {unit} {setNumber}
             </h1>
             <div className="set-win-score">
               <span className="set-win-score-value">{score.teamA}</span>
@@ -0,0 +1,262 @@
+import { supabase } from '@/lib/supabase'
+import type { Team } from '@/lib/types/match'
+import type { GestureMap } from '@/lib/scoring/types'
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+
+const BUTTON_FUNCTION_URL = `${SUPABASE_URL}/functions/v1/button`
+
+export interface ButtonDevice {
+  device_id: string
+  court_id: string
+  team: Team
+  label: string | null
+  paired_at: string
+  last_seen_at: string | null
+  // Telemetry: null until the button first reports it
+  last_heartbeat_at: string | null
+  battery_percent: number | null
+  signal_rssi: number | null
+  firmware_version: string | null
+}
+
+// What the court screen may see of a button: no device id, label or secret
+export type ButtonHealth = Pick<ButtonDevice, 'team' | 'battery_percent' | 'last_heartbeat_at' | 'last_seen_at'>
+
+export interface ButtonPairing {
+  id: string
+  court_id: string
+  team: Team
+  label: string | null
+  expires_at: string
+  device_id: string | null
+  paired_at: string | null
+}
+
+interface PairResponse {
+  success: boolean
+  pairing?: ButtonPairing
+  error?: string
+}
+
+/**
+ * Buttons paired with a court, Team A first (staff only: needs the control PIN)
+ */
+export async function getButtonDevices(courtId: string, pin: string): Promise<ButtonDevice[]> {
+  try {
+    const response = await fetch(BUTTON_FUNCTION_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+      },
+      body: JSON.stringify({
+        action: 'list',
+        court_id: courtId,
+        pin,
+      }),
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      console.error('Error fetching button devices:', result.error)
+      return []
+    }
+
+    return result.devices
+  } catch (err) {
+    console.error('Error fetching button devices:', err)
+    return []
+  }
+}
+
+/**
+ * Battery and last check-in of each side's button, for the court screen
+ */
+export async function getButtonHealth(courtId: string): Promise<ButtonHealth[]> {
+  try {
+    const response = await fetch(BUTTON_FUNCTION_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+      },
+      body: JSON.stringify({
+        action: 'health',
+        court_id: courtId,
+      }),
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      console.error('Error fetching button health:', result.error)
+      return []
+    }
+
+    return result.buttons
+  } catch (err) {
+    console.error('Error fetching button health:', err)
+    return []
+  }
+}
+
+/**
+ * Current state of a pairing (device_id is set once a button has been pressed)
+ */
+export async function getButtonPairing(
+  courtId: string,
+  pin: string,
+  pairingId: string
+): Promise<ButtonPairing | null> {
+  try {
+    const response = await fetch(BUTTON_FUNCTION_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+      },
+      body: JSON.stringify({
+        action: 'pairing_status',
+        court_id: courtId,
+        pin,
+        pairing_id: pairingId,
+      }),
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      console.error('Error fetching button pairing:', result.error)
+      return null
+    }
+
+    return result.pairing
+  } catch (err) {
+    console.error('Error fetching button pairing:', err)
+    return null
+  }
+}
+
+export async function pairButton(courtId: string, pin: string, team: Team, label?: string): Promise<PairResponse> {
+  const response = await fetch(BUTTON_FUNCTION_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+    },
+    body: JSON.stringify({
+      action: 'pair',
+      court_id: courtId,
+      pin,
+      team,
+      label,
+    }),
+  })
+
+  return response.json()
+}
+
+export async function cancelPairing(courtId: string, pin: string): Promise<{ success: boolean; error?: string }> {
+  const response = await fetch(BUTTON_FUNCTION_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+    },
+    body: JSON.stringify({
+      action: 'cancel_pair',
+      court_id: courtId,
+      pin,
+    }),
+  })
+
+  return response.json()
+}
+
+export async function unpairButton(
+  courtId: string,
+  pin: string,
+  deviceId: string
+): Promise<{ success: boolean; error?: string }> {
+  const response = await fetch(BUTTON_FUNCTION_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+    },
+    body: JSON.stringify({
+      action: 'unpair',
+      court_id: courtId,
+      pin,
+      device_id: deviceId,
+    }),
+  })
+
+  return response.json()
+}
+
+/**
+ * Give a button a new secret; the old one is rejected from now on
+ * The new secret is only returned here, to be loaded onto the button
+ */
+export async function rotateButtonKey(
+  courtId: string,
+  pin: string,
+  deviceId: string
+): Promise<{ success: boolean; secret?: string; error?: string }> {
+  const response = await fetch(BUTTON_FUNCTION_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+    },
+    body: JSON.stringify({
+      action: 'rotate_key',
+      court_id: courtId,
+      pin,
+      device_id: deviceId,
+    }),
+  })
+
+  return response.json()
+}
+
+/**
+ * The court's own gesture remapping (empty when it uses the defaults)
+ */
+export async function getGestureMap(courtId: string): Promise<GestureMap> {
+  const { data, error } = await supabase
+    .from('courts')
+    .select('gesture_map')
+    .eq('id', courtId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching gesture map:', error)
+    return {}
+  }
+
+  return data?.gesture_map ?? {}
+}
+
+export async function setGestureMap(
+  courtId: string,
+  pin: string,
+  gestureMap: GestureMap
+): Promise<{ success: boolean; gesture_map?: GestureMap | null; error?: string }> {
+  const response = await fetch(BUTTON_FUNCTION_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+    },
+    body: JSON.stringify({
+      action: 'set_gesture_map',
+      court_id: courtId,
+      pin,
+      gesture_map: gestureMap,
+    }),
+  })
+
+  return response.json()
+}
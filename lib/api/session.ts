@@ -1,12 +1,15 @@
+import type { GameMode, GamesPerSet } from '@/lib/types/match'
+
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 
 const SESSION_FUNCTION_URL = `${SUPABASE_URL}/functions/v1/session`
 
 interface SessionSettings {
-  game_mode: 'traditional' | 'golden_point' | 'silver_point'
+  game_mode: GameMode
   sets_to_win: 1 | 2
-  tiebreak_at: 6 | 7
+  games_per_set: GamesPerSet
+  tiebreak_at: number
   side_swap_enabled: boolean
 }
 
@@ -36,6 +39,8 @@ interface CheckSessionResponse {
 interface CreateSessionResponse {
   success: boolean
   session?: Session
+  // Only returned here: keep it to score and end matches on the court
+  session_token?: string
   error?: string
 }
 
@@ -3,8 +3,43 @@
 // Run with: npx ts-node lib/scoring/engine.test.ts
 // ============================================================
 
-import { applyScore, createMatchState, formatDisplay } from './engine';
-import { MatchState, ScoreEvent, Team, GameMode } from './types';
+import {
+  applyScore,
+  createMatchState,
+  formatDisplay,
+  canChooseServers,
+  chooseServers,
+  getServeSide,
+  getPointSituations,
+  createMatchStats,
+  updateStats,
+  replayMatch,
+  diffMatchState,
+  expireTime,
+  isTimeUp,
+  getTimeRemainingMs,
+  isValidHandicap,
+  isValidPointAnnotation,
+  annotatePoint,
+  canEndEarly,
+  endMatchEarly,
+  isValidGestureMap,
+  resolveGestureMap,
+  DEFAULT_GESTURE_MAP,
+  MATCH_SCHEMA_VERSION,
+} from './engine';
+import {
+  createSeededRandom,
+  createManualClock,
+  simulateMatch,
+  fuzzMatches,
+  checkInvariants,
+} from './simulator';
+import { migrateMatchState, validateMatchState, parseMatchState } from './validation';
+import { getRuleSet, findRuleSet, registerRuleSet, listRuleSets } from './rules';
+import { getWinProbability, estimatePointWinRates } from './probability';
+import { formatPointSequence, parsePointSequence, formatResult, parseResult } from './notation';
+import { MatchState, MatchConfig, ScoreEvent, Team, GameMode, SetsRuleSet, ShotType } from './types';
 
 // ============================================================
 // TEST UTILITIES
@@ -242,6 +277,54 @@ test('Silver point: second deuce is sudden death', () => {
   assertEqual(state.team_a_games, 1);
 });
 
+// ============================================================
+// DEUCE TESTS - SUDDEN DEATH SETTING
+// ============================================================
+
+console.log('\n=== Deuce Tests - Sudden Death Setting ===\n');
+
+test('Game modes map onto sudden death after deuces', () => {
+  const after = (game_mode: GameMode) => createMatchState({ id: 'test', court_id: 'court1', game_mode }).sudden_death_after_deuces;
+  assertEqual(
+    [after('traditional'), after('golden_point'), after('silver_point'), after('americano'), after('pickleball')],
+    [null, 0, 1, null, null]
+  );
+});
+
+test('Star point: third deuce is sudden death', () => {
+  let state = createMatchState({
+    id: 'test',
+    court_id: 'court1',
+    game_mode: 'traditional',
+    sudden_death_after_deuces: 2,
+    serving_team: 'a',
+  });
+  
+  // Deuce 1 -> Ad A -> Deuce 2 -> Ad B -> Deuce 3
+  state = scorePoints(state, ['a', 'a', 'a', 'b', 'b', 'b', 'a', 'b', 'b', 'a']);
+  assertEqual(state.deuce_count, 3);
+  assertEqual(state.team_a_games, 0);
+  assertEqual(getPointSituations(state).map((s) => s.type), ['break_point', 'game_point', 'deciding_point']);
+  assertEqual(getServeSide(state), null);
+  
+  state = scorePoints(state, ['b']);
+  assertEqual(state.team_b_games, 1);
+});
+
+test('Setting overrides the game mode', () => {
+  // Golden point mode played with advantage
+  let state = createMatchState({ id: 'test', court_id: 'court1', game_mode: 'golden_point', sudden_death_after_deuces: null });
+  state = scorePoints(state, ['a', 'a', 'a', 'b', 'b', 'b', 'a']);
+  assertEqual(state.team_a_games, 0);
+  assertEqual(formatDisplay(state).advantage, 'a');
+  
+  // Standard mode played with golden point, credited as a golden point
+  let golden = createMatchState({ id: 'test', court_id: 'court1', game_mode: 'traditional', sudden_death_after_deuces: 0 });
+  golden = scoreWithStats(golden, ['a', 'a', 'a', 'b', 'b', 'b', 'b']);
+  assertEqual(golden.team_b_games, 1);
+  assertEqual(golden.stats!.team_b.golden_points_won, 1);
+});
+
 // ============================================================
 // SET WIN TESTS
 // ============================================================
@@ -341,7 +424,7 @@ test('Win tiebreak at 7-0', () => {
   
   assertEqual(state.is_tiebreak, false);
   assertEqual(state.set_scores.length, 1);
-  assertEqual(state.set_scores[0], { team_a: 7, team_b: 6 });
+  assertEqual(state.set_scores[0], { team_a: 7, team_b: 6, tiebreak: { team_a: 7, team_b: 0 } });
 });
 
 test('Tiebreak needs win by 2', () => {
@@ -375,6 +458,51 @@ test('Tiebreak needs win by 2', () => {
   assertEqual(state.set_scores.length, 1);
 });
 
+// ============================================================
+// SET LENGTH TESTS
+// ============================================================
+
+console.log('\n=== Set Length Tests ===\n');
+
+test('Short set: win at 4-0', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1', games_per_set: 4 });
+  
+  for (let i = 0; i < 4; i++) state = scoreGame(state, 'a');
+  
+  assertEqual(state.set_scores[0], { team_a: 4, team_b: 0 });
+  assertEqual(state.status, 'completed');
+});
+
+test('Short set: tiebreak at 4-4 gives 5-4 set', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1', games_per_set: 4 });
+  
+  for (let i = 0; i < 4; i++) {
+    state = scoreGame(state, 'a');
+    state = scoreGame(state, 'b');
+  }
+  assertEqual(state.is_tiebreak, true);
+  
+  for (let i = 0; i < 7; i++) state = scorePoints(state, ['b']);
+  
+  assertEqual(state.set_scores[0], { team_a: 4, team_b: 5, tiebreak: { team_a: 0, team_b: 7 } });
+});
+
+test('Pro set: no set win at 6-0', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1', games_per_set: 8 });
+  
+  for (let i = 0; i < 6; i++) state = scoreGame(state, 'a');
+  assertEqual(state.set_scores.length, 0);
+  
+  state = scoreGame(state, 'a');
+  state = scoreGame(state, 'a');
+  assertEqual(state.set_scores[0], { team_a: 8, team_b: 0 });
+});
+
+test('9-game pro set defaults to tiebreak at 8-8', () => {
+  const state = createMatchState({ id: 'test', court_id: 'court1', games_per_set: 9 });
+  assertEqual(state.tiebreak_at, 8);
+});
+
 // ============================================================
 // MATCH WIN TESTS
 // ============================================================
@@ -436,6 +564,1132 @@ test('Cannot score after match finished', () => {
   assertEqual(result.effects.length, 0);
 });
 
+// ============================================================
+// MATCH TIEBREAK (DECIDING SET) TESTS
+// ============================================================
+
+console.log('\n=== Match Tiebreak Tests ===\n');
+
+// Helper to reach one set all in a best-of-3 match
+function reachOneSetAll(state: MatchState): MatchState {
+  let s = state;
+  for (let i = 0; i < 6; i++) s = scoreGame(s, 'a');
+  for (let i = 0; i < 6; i++) s = scoreGame(s, 'b');
+  return s;
+}
+
+test('Deciding set starts as match tiebreak at one set all', () => {
+  let state = createMatchState({
+    id: 'test',
+    court_id: 'court1',
+    sets_to_win: 2,
+    deciding_set_format: 'match_tiebreak'
+  });
+  
+  state = reachOneSetAll(state);
+  
+  assertEqual(state.current_set, 3);
+  assertEqual(state.is_tiebreak, true);
+  assertEqual(state.tiebreak_scores, { team_a: 0, team_b: 0 });
+  assertEqual(formatDisplay(state).is_match_tiebreak, true);
+});
+
+test('Match tiebreak is first to 10 and recorded in set_scores', () => {
+  let state = createMatchState({
+    id: 'test',
+    court_id: 'court1',
+    sets_to_win: 2,
+    deciding_set_format: 'match_tiebreak'
+  });
+  
+  state = reachOneSetAll(state);
+  for (let i = 0; i < 8; i++) state = scorePoints(state, ['a', 'b']);
+  
+  // 8-8: still playing (not over at 7)
+  assertEqual(state.is_tiebreak, true);
+  
+  state = scorePoints(state, ['a', 'a']);
+  
+  assertEqual(state.status, 'completed');
+  assertEqual(state.winner, 'a');
+  assertEqual(state.set_scores[2], { team_a: 10, team_b: 8, match_tiebreak: true });
+});
+
+test('Match tiebreak needs win by 2', () => {
+  let state = createMatchState({
+    id: 'test',
+    court_id: 'court1',
+    sets_to_win: 2,
+    deciding_set_format: 'match_tiebreak'
+  });
+  
+  state = reachOneSetAll(state);
+  for (let i = 0; i < 9; i++) state = scorePoints(state, ['a', 'b']);
+  state = scorePoints(state, ['b']); // 9-10
+  
+  assertEqual(state.status, 'in_progress');
+  
+  state = scorePoints(state, ['a', 'b', 'b']); // 10-12
+  assertEqual(state.winner, 'b');
+  assertEqual(state.set_scores[2], { team_a: 10, team_b: 12, match_tiebreak: true });
+});
+
+test('Full deciding set by default', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1', sets_to_win: 2 });
+  
+  state = reachOneSetAll(state);
+  
+  assertEqual(state.current_set, 3);
+  assertEqual(state.is_tiebreak, false);
+});
+
+// ============================================================
+// SERVER ROTATION TESTS
+// ============================================================
+
+console.log('\n=== Server Rotation Tests ===\n');
+
+test('Players alternate within each team across service games', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1', serving_team: 'a' });
+  assertEqual(state.team_a_server, 1);
+  assertEqual(state.team_b_server, 1);
+  
+  state = scoreGame(state, 'a'); // A1 served
+  assertEqual(state.serving_team, 'b');
+  assertEqual(state.team_b_server, 1);
+  assertEqual(state.team_a_server, 2);
+  
+  state = scoreGame(state, 'b'); // B1 served
+  assertEqual(state.serving_team, 'a');
+  assertEqual(state.team_a_server, 2);
+  assertEqual(state.team_b_server, 2);
+  
+  state = scoreGame(state, 'a'); // A2 served
+  state = scoreGame(state, 'b'); // B2 served
+  assertEqual(state.serving_team, 'a');
+  assertEqual(state.team_a_server, 1);
+  assertEqual(state.team_b_server, 1);
+});
+
+test('Player rotation continues through a tiebreak', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1', serving_team: 'a' });
+  for (let i = 0; i < 6; i++) {
+    state = scoreGame(state, 'a');
+    state = scoreGame(state, 'b');
+  }
+  // 12 games played: A1, B1, A2, B2 ... so A1 opens the tiebreak
+  assertEqual(state.is_tiebreak, true);
+  assertEqual(state.serving_team, 'a');
+  assertEqual(state.team_a_server, 1);
+  
+  state = applyScore(state, { type: 'point', team: 'a' }).newState; // A1 serves 1 point
+  assertEqual(state.serving_team, 'b');
+  assertEqual(state.team_b_server, 1);
+  assertEqual(state.team_a_server, 2);
+  
+  state = scorePoints(state, ['a', 'a']); // B1 serves 2 points
+  assertEqual(state.serving_team, 'a');
+  assertEqual(state.team_a_server, 2);
+  assertEqual(state.team_b_server, 2);
+});
+
+test('Servers can only be chosen before the first point of a set', () => {
+  let state = createMatchState({
+    id: 'test',
+    court_id: 'court1',
+    serving_team: 'a',
+    team_a_player_1: 'Ana',
+    team_a_player_2: 'Bea',
+  });
+  assertEqual(canChooseServers(state), true);
+  
+  state = chooseServers(state, { team_a_server: 2 });
+  assertEqual(state.team_a_server, 2);
+  assertEqual(formatDisplay(state).serving_player, 2);
+  assertEqual(formatDisplay(state).server_name, 'Bea');
+  
+  state = applyScore(state, { type: 'point', team: 'a' }).newState;
+  assertEqual(canChooseServers(state), false);
+  state = chooseServers(state, { team_a_server: 1 });
+  assertEqual(state.team_a_server, 2);
+});
+
+test('Servers can be chosen again at the start of the next set', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1', sets_to_win: 2, serving_team: 'a' });
+  for (let i = 0; i < 6; i++) {
+    state = scoreGame(state, 'a');
+  }
+  assertEqual(state.current_set, 2);
+  assertEqual(canChooseServers(state), true);
+  
+  state = chooseServers(state, { team_b_server: 2 });
+  assertEqual(state.team_b_server, 2);
+});
+
+// ============================================================
+// SERVE SIDE TESTS
+// ============================================================
+
+console.log('\n=== Serve Side Tests ===\n');
+
+test('Serve side alternates every point in a game', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1', serving_team: 'a' });
+  assertEqual(getServeSide(state), 'right');
+  
+  state = scorePoints(state, ['a']);
+  assertEqual(getServeSide(state), 'left');
+  
+  state = scorePoints(state, ['b']);
+  assertEqual(getServeSide(state), 'right');
+  assertEqual(formatDisplay(state).serve_side, 'right');
+  
+  // New game starts from the right again
+  state = scorePoints(state, ['a', 'a', 'a']);
+  assertEqual(state.team_a_games, 1);
+  assertEqual(getServeSide(state), 'right');
+});
+
+test('Advantage is served from the left in traditional scoring', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1', game_mode: 'traditional' });
+  state = scorePoints(state, ['a', 'a', 'a', 'b', 'b', 'b']);
+  assertEqual(getServeSide(state), 'right');
+  
+  state = scorePoints(state, ['a']);
+  assertEqual(getServeSide(state), 'left');
+});
+
+test('Golden point leaves the side to the receivers', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1', game_mode: 'golden_point' });
+  state = scorePoints(state, ['a', 'a', 'a', 'b', 'b', 'b']);
+  assertEqual(getServeSide(state), null);
+});
+
+test('Tiebreak serve side follows tiebreak points', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1', serving_team: 'a' });
+  for (let i = 0; i < 6; i++) {
+    state = scoreGame(state, 'a');
+    state = scoreGame(state, 'b');
+  }
+  assertEqual(state.is_tiebreak, true);
+  assertEqual(getServeSide(state), 'right');
+  
+  // Second server serves points 2 and 3: left then right
+  state = applyScore(state, { type: 'point', team: 'a' }).newState;
+  assertEqual(getServeSide(state), 'left');
+  state = applyScore(state, { type: 'point', team: 'b' }).newState;
+  assertEqual(getServeSide(state), 'right');
+});
+
+// ============================================================
+// POINT SITUATION TESTS
+// ============================================================
+
+console.log('\n=== Point Situation Tests ===\n');
+
+test('Game point for the server, break point for the receivers', () => {
+  const state = createMatchState({ id: 'test', court_id: 'court1', game_mode: 'traditional', serving_team: 'a' });
+  assertEqual(getPointSituations(state), []);
+  assertEqual(getPointSituations(scorePoints(state, ['a', 'a', 'a'])), [{ type: 'game_point', team: 'a' }]);
+  assertEqual(getPointSituations(scorePoints(state, ['b', 'b', 'b', 'a'])), [{ type: 'break_point', team: 'b' }]);
+  // Advantage server, then deuce
+  assertEqual(getPointSituations(scorePoints(state, ['a', 'a', 'a', 'b', 'b', 'b', 'a'])), [{ type: 'game_point', team: 'a' }]);
+  assertEqual(getPointSituations(scorePoints(state, ['a', 'a', 'a', 'b', 'b', 'b'])), []);
+});
+
+test('Set and match points are flagged alongside break points', () => {
+  const state = {
+    ...createMatchState({ id: 'test', court_id: 'court1', game_mode: 'traditional', serving_team: 'a', sets_to_win: 2 }),
+    team_a_games: 4,
+    team_b_games: 5,
+  };
+  assertEqual(getPointSituations(scorePoints(state, ['b', 'b', 'b'])), [
+    { type: 'set_point', team: 'b' },
+    { type: 'break_point', team: 'b' },
+  ]);
+  
+  const decider = { ...state, set_scores: [{ team_a: 6, team_b: 2 }, { team_a: 3, team_b: 6 }], current_set: 3 };
+  assertEqual(getPointSituations(scorePoints(decider, ['b', 'b', 'b']))[0], { type: 'match_point', team: 'b' });
+});
+
+test('Golden and silver points are listed for both teams', () => {
+  const golden = scorePoints(
+    createMatchState({ id: 'test', court_id: 'court1', game_mode: 'golden_point', serving_team: 'a' }),
+    ['a', 'a', 'a', 'b', 'b', 'b']
+  );
+  assertEqual(getPointSituations(golden), [
+    { type: 'break_point', team: 'b' },
+    { type: 'game_point', team: 'a' },
+    { type: 'golden_point', team: null },
+  ]);
+  
+  const silver = scorePoints(
+    createMatchState({ id: 'test', court_id: 'court1', game_mode: 'silver_point', serving_team: 'a' }),
+    ['a', 'a', 'a', 'b', 'b', 'b', 'a', 'b']
+  );
+  assertEqual(getPointSituations(silver).map((s) => s.type), ['break_point', 'game_point', 'silver_point']);
+});
+
+test('Tiebreak points are set or match points', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1', serving_team: 'a' });
+  for (let i = 0; i < 12; i++) state = scoreGame(state, i % 2 === 0 ? 'a' : 'b');
+  assertEqual(state.is_tiebreak, true);
+  state = scorePoints(state, ['a', 'a', 'a', 'a', 'a', 'b']);
+  assertEqual(getPointSituations(state), []);
+  state = scorePoints(state, ['a']);
+  assertEqual(getPointSituations(state), [{ type: 'match_point', team: 'a' }]);
+});
+
+test('Point situations are emitted as effects and shown in the display', () => {
+  const state = createMatchState({ id: 'test', court_id: 'court1', game_mode: 'traditional', serving_team: 'a' });
+  const result = applyScore(scorePoints(state, ['b', 'b']), { type: 'point', team: 'b' });
+  assertEqual(result.effects, [
+    { type: 'point_scored', team: 'b' },
+    { type: 'point_situation', situation: { type: 'break_point', team: 'b' } },
+  ]);
+  assertEqual(formatDisplay(result.newState).point_situations, [{ type: 'break_point', team: 'b' }]);
+  
+  const americano = createMatchState({ id: 'test', court_id: 'court1', game_mode: 'americano', americano_points: 16 });
+  assertEqual(getPointSituations(scorePoints(americano, Array(15).fill('a'))), []);
+});
+
+// ============================================================
+// STATISTICS TESTS
+// ============================================================
+
+console.log('\n=== Statistics Tests ===\n');
+
+// Score points while folding each one into the stats, as the score function does
+function scoreWithStats(state: MatchState, points: Team[]): MatchState {
+  let s = state;
+  for (const team of points) {
+    const result = applyScore(s, { type: 'point', team });
+    const stats = updateStats(s.stats, s, result);
+    s = { ...result.newState, stats };
+  }
+  return s;
+}
+
+test('New match starts with empty stats', () => {
+  const state = createMatchState({ id: 'test', court_id: 'court1' });
+  assertEqual(state.stats, createMatchStats());
+});
+
+test('Stats count points on serve and on return', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1', serving_team: 'a' });
+  state = scoreWithStats(state, ['a', 'b', 'a']);
+  
+  assertEqual(state.stats!.points_played, 3);
+  assertEqual(state.stats!.team_a.points_won, 2);
+  assertEqual(state.stats!.team_a.service_points_won, 2);
+  assertEqual(state.stats!.team_b.return_points_won, 1);
+});
+
+test('Stats count breaks of serve but not holds', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1', serving_team: 'a' });
+  state = scoreWithStats(state, ['a', 'a', 'a', 'a']); // A holds
+  state = scoreWithStats(state, ['a', 'a', 'a', 'a']); // A breaks B
+  
+  assertEqual(state.stats!.team_a.breaks, 1);
+  assertEqual(state.stats!.team_b.breaks, 0);
+});
+
+test('Stats count deuces and golden points', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1', game_mode: 'golden_point' });
+  state = scoreWithStats(state, ['a', 'a', 'a', 'b', 'b', 'b', 'b']);
+  
+  assertEqual(state.stats!.deuces, 1);
+  assertEqual(state.stats!.team_b.golden_points_won, 1);
+  assertEqual(state.stats!.team_a.golden_points_won, 0);
+});
+
+test('Stats count silver points after the second deuce', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1', game_mode: 'silver_point' });
+  state = scoreWithStats(state, ['a', 'a', 'a', 'b', 'b', 'b', 'a', 'b', 'a']);
+  
+  assertEqual(state.stats!.deuces, 2);
+  assertEqual(state.stats!.team_a.silver_points_won, 1);
+});
+
+test('Stats track the longest point streak', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1' });
+  state = scoreWithStats(state, ['a', 'a', 'b', 'b', 'b', 'a']);
+  
+  assertEqual(state.stats!.longest_streak, { team: 'b', length: 3 });
+  assertEqual(state.stats!.current_streak, { team: 'a', length: 1 });
+});
+
+test('Annotated points are tallied per player', () => {
+  const state = createMatchState({ id: 'test', court_id: 'court1', serving_team: 'a' });
+  const result = applyScore(state, { type: 'point', team: 'a' });
+  const smash = { ending: 'winner' as const, shot: 'smash' as const, player: { team: 'a' as Team, slot: 2 as const } };
+  const stats = updateStats(state.stats, state, result, smash);
+  assertEqual(stats.team_a.players![2], { winners: 1, forced_errors: 0, unforced_errors: 0, shots: { smash: 1 } });
+  assertEqual(stats.team_b.players, undefined);
+  
+  // Re-annotating replaces the earlier annotation
+  const error = { ending: 'unforced_error' as const, shot: 'off_the_glass' as const, player: { team: 'b' as Team, slot: 1 as const } };
+  const fixed = annotatePoint(stats, error, smash);
+  assertEqual(fixed.team_a.players![2], { winners: 0, forced_errors: 0, unforced_errors: 0, shots: { smash: 0 } });
+  assertEqual(fixed.team_b.players![1].unforced_errors, 1);
+  
+  // Replay keeps annotations from the event log
+  const replayed = replayMatch({ id: 'test', court_id: 'court1', serving_team: 'a' }, [
+    { type: 'point', team: 'a', annotation: smash },
+  ]);
+  assertEqual(replayed.stats!.team_a.players![2].winners, 1);
+});
+
+test('Annotation player must fit how the point ended', () => {
+  assertEqual(isValidPointAnnotation({ ending: 'winner', player: { team: 'a', slot: 1 } }, 'a'), true);
+  assertEqual(isValidPointAnnotation({ ending: 'winner', player: { team: 'b', slot: 1 } }, 'a'), false);
+  assertEqual(isValidPointAnnotation({ ending: 'forced_error', player: { team: 'b', slot: 2 } }, 'a'), true);
+  assertEqual(isValidPointAnnotation({ ending: 'unforced_error', player: { team: 'a', slot: 2 } }, 'a'), false);
+  assertEqual(isValidPointAnnotation({ shot: 'off_the_glass' }, 'b'), true);
+  assertEqual(isValidPointAnnotation({ shot: 'tweener' as ShotType }, 'b'), false);
+});
+
+// ============================================================
+// REPLAY TESTS
+// ============================================================
+
+console.log('\n=== Replay Tests ===\n');
+
+test('Replay reproduces the live state point by point', () => {
+  const config = { id: 'test', court_id: 'court1', serving_team: 'a' as Team };
+  const points: Team[] = ['a', 'b', 'a', 'a', 'b', 'b', 'b', 'b', 'a', 'a', 'a', 'a'];
+  
+  // Live path: what the score function does for each point
+  let live = createMatchState(config);
+  for (const team of points) {
+    const result = applyScore(live, { type: 'point', team });
+    live = { ...result.newState, stats: updateStats(live.stats, live, result), version: result.newState.version + 1 };
+  }
+  
+  const replayed = replayMatch(config, points.map((team) => ({ type: 'point' as const, team })));
+  assertEqual(diffMatchState(replayed, live), []);
+  assertEqual(replayed.stats, live.stats);
+});
+
+test('Replay applies server choices and restores timestamps', () => {
+  const replayed = replayMatch(
+    { id: 'test', court_id: 'court1', serving_team: 'b' },
+    [
+      { type: 'set_servers', team_b_server: 2, at: '2026-01-01T10:00:00.000Z' },
+      { type: 'point', team: 'a', at: '2026-01-01T10:00:30.000Z' },
+    ]
+  );
+  
+  assertEqual(replayed.team_b_server, 2);
+  assertEqual(replayed.version, 3);
+  assertEqual(replayed.started_at, '2026-01-01T10:00:30.000Z');
+});
+
+test('Diff reports drifted fields', () => {
+  const config = { id: 'test', court_id: 'court1', serving_team: 'a' as Team };
+  const replayed = replayMatch(config, [{ type: 'point', team: 'a' }]);
+  const stored = { ...replayed, team_a_points: 2 };
+  
+  assertEqual(diffMatchState(replayed, stored), [
+    { field: 'team_a_points', expected: 1, actual: 2 },
+  ]);
+});
+
+// ============================================================
+// TIME LIMIT TESTS
+// ============================================================
+
+console.log('\n=== Time Limit Tests ===\n');
+
+test('Time remaining counts down from the first point', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1', time_limit_minutes: 60 });
+  assertEqual(getTimeRemainingMs(state), null);
+  
+  state = { ...state, status: 'in_progress', started_at: '2026-01-01T10:00:00.000Z' };
+  assertEqual(getTimeRemainingMs(state, new Date('2026-01-01T10:45:00.000Z')), 15 * 60000);
+  assertEqual(isTimeUp(state, new Date('2026-01-01T10:59:59.000Z')), false);
+  assertEqual(isTimeUp(state, new Date('2026-01-01T11:00:00.000Z')), true);
+});
+
+test('Count games ends the match immediately on games', () => {
+  let state = createMatchState({
+    id: 'test',
+    court_id: 'court1',
+    time_limit_minutes: 60,
+    time_limit_rule: 'count_games',
+  });
+  state = scoreGame(state, 'a');
+  state = scoreGame(state, 'a');
+  state = scoreGame(state, 'b');
+  state = scorePoints(state, ['b', 'b']);
+  
+  const result = expireTime(state);
+  assertEqual(result.newState.status, 'completed');
+  assertEqual(result.newState.winner, 'a');
+  assertEqual(result.newState.ended_by_time, true);
+  assertEqual(result.effects.map((e) => e.type), ['time_up', 'match_won']);
+});
+
+test('Finish game plays out the current game before ending', () => {
+  let state = createMatchState({
+    id: 'test',
+    court_id: 'court1',
+    time_limit_minutes: 60,
+    time_limit_rule: 'finish_game',
+  });
+  state = scoreGame(state, 'a');
+  state = scorePoints(state, ['b']);
+  
+  state = expireTime(state).newState;
+  assertEqual(state.status, 'in_progress');
+  assertEqual(state.time_expired, true);
+  
+  // B wins the game: 1-1, a draw on games
+  state = scorePoints(state, ['b', 'b', 'b']);
+  assertEqual(state.status, 'completed');
+  assertEqual(state.winner, null);
+  assertEqual(state.ended_by_time, true);
+});
+
+test('Finish game does not start a tiebreak', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1', time_limit_minutes: 90 });
+  for (let i = 0; i < 6; i++) {
+    state = scoreGame(state, 'a');
+    if (i < 5) state = scoreGame(state, 'b');
+  }
+  // 6-5: A one game away, time runs out mid-game
+  state = scorePoints(state, ['b']);
+  state = expireTime(state).newState;
+  state = scorePoints(state, ['b', 'b', 'b']);
+  
+  assertEqual(state.is_tiebreak, false);
+  assertEqual(state.status, 'completed');
+  assertEqual(state.winner, null);
+});
+
+test('Deciding point wins the current game and ends the match', () => {
+  let state = createMatchState({
+    id: 'test',
+    court_id: 'court1',
+    time_limit_minutes: 60,
+    time_limit_rule: 'deciding_point',
+  });
+  state = scorePoints(state, ['a', 'a', 'a']);
+  state = expireTime(state).newState;
+  
+  state = scorePoints(state, ['b']);
+  assertEqual(state.team_b_games, 1);
+  assertEqual(state.winner, 'b');
+  assertEqual(state.ended_by_time, true);
+});
+
+test('Completing a set after time is up still ends the match', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1', sets_to_win: 2, time_limit_minutes: 60 });
+  for (let i = 0; i < 5; i++) {
+    state = scoreGame(state, 'a');
+  }
+  state = scorePoints(state, ['a']);
+  state = expireTime(state).newState;
+  state = scorePoints(state, ['a', 'a', 'a']);
+  
+  assertEqual(state.set_scores, [{ team_a: 6, team_b: 0 }]);
+  assertEqual(state.status, 'completed');
+  assertEqual(state.winner, 'a');
+});
+
+// ============================================================
+// EARLY END TESTS
+// ============================================================
+
+console.log('\n=== Early End Tests ===\n');
+
+test('Retirement keeps the score and gives the match to the other team', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1', serving_team: 'a' });
+  state = scorePoints(state, ['a', 'a', 'a', 'a', 'b']);
+  const env = { now: createManualClock(new Date('2025-06-01T10:30:00.000Z')).now, random: () => 0.3 };
+  
+  const result = endMatchEarly(state, 'retired', 'b', ' injury ', env);
+  assertEqual(result.effects, [{ type: 'match_won', team: 'b' }]);
+  assertEqual(result.newState.status, 'retired');
+  assertEqual(result.newState.winner, 'b');
+  assertEqual(result.newState.end_reason, 'injury');
+  assertEqual(result.newState.completed_at, '2025-06-01T10:30:00.000Z');
+  assertEqual(result.newState.team_a_games, 1);
+  assertEqual(result.newState.team_b_points, 1);
+  assertEqual(validateMatchState(result.newState), []);
+  
+  // No more points once retired
+  const after = applyScore(result.newState, { type: 'point', team: 'a' });
+  assertEqual(after.newState, result.newState);
+  assertEqual(getPointSituations(result.newState), []);
+});
+
+test('Early endings are only allowed at the right stage', () => {
+  const setup = createMatchState({ id: 'test', court_id: 'court1', serving_team: 'a' });
+  const playing = scorePoints(setup, ['a']);
+  
+  assertEqual([canEndEarly(setup, 'walkover'), canEndEarly(setup, 'retired'), canEndEarly(setup, 'defaulted')], [true, false, true]);
+  assertEqual([canEndEarly(playing, 'walkover'), canEndEarly(playing, 'retired'), canEndEarly(playing, 'defaulted')], [false, true, true]);
+  
+  const walkover = endMatchEarly(setup, 'walkover', 'a').newState;
+  assertEqual([walkover.status, walkover.winner, walkover.end_reason], ['walkover', 'a', null]);
+  assertEqual(canEndEarly(walkover, 'defaulted'), false);
+  
+  // Not allowed: unchanged, no effects
+  const refused = endMatchEarly(playing, 'walkover', 'b');
+  assertEqual(refused.newState, playing);
+  assertEqual(refused.effects, []);
+});
+
+test('Early endings are checked by validation', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1', serving_team: 'a' });
+  state = scorePoints(state, ['a']);
+  const defaulted = endMatchEarly(state, 'defaulted', 'a', 'Code violation').newState;
+  
+  assertEqual(validateMatchState(defaulted), []);
+  assertEqual(validateMatchState({ ...defaulted, winner: null }).map((i) => i.field), ['winner']);
+  assertEqual(validateMatchState({ ...state, end_reason: 'injury' }).map((i) => i.field), ['end_reason']);
+  assertEqual(getWinProbability(defaulted, { a: 0.5, b: 0.5 })?.match, 1);
+});
+
+// ============================================================
+// GESTURE MAP TESTS
+// ============================================================
+
+console.log('\n=== Gesture Map Tests ===\n');
+
+test('Court gesture map overrides only the gestures it names', () => {
+  const map = resolveGestureMap({ triple_click: 'switch_server', hold: 'start' });
+  assertEqual(map, { click: 'score', double_click: 'undo', triple_click: 'switch_server', hold: 'start' });
+  assertEqual(resolveGestureMap(null), DEFAULT_GESTURE_MAP);
+});
+
+test('Unknown gestures or actions make a gesture map invalid', () => {
+  assertEqual(isValidGestureMap({ click: 'undo', double_click: 'score' }), true);
+  assertEqual(isValidGestureMap({ swipe: 'score' }), false);
+  assertEqual(isValidGestureMap({ hold: 'explode' }), false);
+  assertEqual(isValidGestureMap(['score']), false);
+  assertEqual(resolveGestureMap({ hold: 'explode' }), DEFAULT_GESTURE_MAP);
+});
+
+// ============================================================
+// CHANGE OF ENDS TESTS
+// ============================================================
+
+console.log('\n=== Change of Ends Tests ===\n');
+
+test('Ends change after odd games of a set', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1', serving_team: 'a' });
+  assertEqual(state.sides_swapped, false);
+  
+  state = scorePoints(state, ['a', 'a', 'a']);
+  const result = applyScore(state, { type: 'point', team: 'a' });
+  assertEqual(result.newState.sides_swapped, true);
+  assertEqual(result.effects.map((e) => e.type), ['point_scored', 'game_won', 'change_ends']);
+  
+  state = scoreGame(result.newState, 'b');
+  assertEqual(state.sides_swapped, true);
+  state = scoreGame(state, 'a');
+  assertEqual(state.sides_swapped, false);
+});
+
+test('Ends change every 6 tiebreak points and after the tiebreak', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1', sets_to_win: 2, serving_team: 'a' });
+  for (let i = 0; i < 6; i++) {
+    state = scoreGame(state, 'a');
+    state = scoreGame(state, 'b');
+  }
+  assertEqual(state.is_tiebreak, true);
+  assertEqual(state.sides_swapped, false);
+  
+  state = scorePoints(state, ['a', 'b', 'a', 'b', 'a']);
+  const result = applyScore(state, { type: 'point', team: 'b' });
+  assertEqual(result.newState.sides_swapped, true);
+  assertEqual(result.effects.some((e) => e.type === 'change_ends'), true);
+  
+  // 7-6 set has 13 games: change ends for the next set
+  state = scorePoints(result.newState, ['a', 'a', 'a', 'a']);
+  assertEqual(state.set_scores.length, 1);
+  assertEqual(state.sides_swapped, false);
+});
+
+test('Even set ends change after the first game of the next set', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1', sets_to_win: 2, serving_team: 'a' });
+  for (let i = 0; i < 6; i++) state = scoreGame(state, 'a');
+  assertEqual(state.set_scores, [{ team_a: 6, team_b: 0 }]);
+  assertEqual(state.sides_swapped, true);  // Changed after games 1, 3 and 5
+  
+  state = scoreGame(state, 'b');
+  assertEqual(state.sides_swapped, false);
+});
+
+// ============================================================
+// AMERICANO TESTS
+// ============================================================
+
+console.log('\n=== Americano Tests ===\n');
+
+test('Americano ends when all points are played', () => {
+  let state = createMatchState({
+    id: 'test',
+    court_id: 'court1',
+    game_mode: 'americano',
+    americano_points: 24,
+    serving_team: 'a',
+  });
+  state = scorePoints(state, [...Array(13).fill('a'), ...Array(10).fill('b')]);
+  assertEqual(state.status, 'in_progress');
+  assertEqual(state.team_a_points, 13);
+  assertEqual(state.team_a_games, 0);
+  
+  const result = applyScore(state, { type: 'point', team: 'b' });
+  assertEqual(result.newState.status, 'completed');
+  assertEqual(result.newState.winner, 'a');
+  assertEqual(result.newState.set_scores, [{ team_a: 13, team_b: 11 }]);
+  assertEqual(result.effects.map((e) => e.type), ['point_scored', 'match_won']);
+});
+
+test('Americano service changes every N points', () => {
+  let state = createMatchState({
+    id: 'test',
+    court_id: 'court1',
+    game_mode: 'americano',
+    americano_serve_every: 4,
+    serving_team: 'a',
+  });
+  state = scorePoints(state, ['a', 'b', 'a']);
+  assertEqual(state.serving_team, 'a');
+  assertEqual(getServeSide(state), 'left');
+  
+  state = scorePoints(state, ['b']);
+  assertEqual(state.serving_team, 'b');
+  assertEqual(state.team_b_server, 1);
+  assertEqual(getServeSide(state), 'right');
+  
+  state = scorePoints(state, ['a', 'a', 'a', 'a']);
+  assertEqual(state.serving_team, 'a');
+  assertEqual(state.team_a_server, 2);
+});
+
+test('Americano level on points is a draw', () => {
+  let state = createMatchState({
+    id: 'test',
+    court_id: 'court1',
+    game_mode: 'americano',
+    americano_points: 16,
+    serving_team: 'a',
+  });
+  state = scorePoints(state, [...Array(8).fill('a'), ...Array(8).fill('b')]);
+  assertEqual(state.status, 'completed');
+  assertEqual(state.winner, null);
+  assertEqual(state.set_scores, [{ team_a: 8, team_b: 8 }]);
+});
+
+test('Americano displays raw points', () => {
+  let state = createMatchState({
+    id: 'test',
+    court_id: 'court1',
+    game_mode: 'americano',
+    serving_team: 'a',
+  });
+  state = scorePoints(state, ['a', 'a', 'a', 'a', 'b']);
+  const display = formatDisplay(state);
+  assertEqual(display.points, { a: '4', b: '1' });
+  assertEqual(display.advantage, null);
+});
+
+test('Americano ends on points when time is up', () => {
+  let state = createMatchState({
+    id: 'test',
+    court_id: 'court1',
+    game_mode: 'americano',
+    time_limit_minutes: 60,
+    time_limit_rule: 'finish_game',
+    serving_team: 'a',
+  });
+  state = scorePoints(state, ['b', 'b', 'a']);
+  
+  const result = expireTime(state);
+  assertEqual(result.newState.status, 'completed');
+  assertEqual(result.newState.winner, 'b');
+  assertEqual(result.newState.ended_by_time, true);
+  assertEqual(result.newState.set_scores, [{ team_a: 1, team_b: 2 }]);
+});
+
+// ============================================================
+// PICKLEBALL TESTS
+// ============================================================
+
+console.log('\n=== Pickleball Tests ===\n');
+
+test('Pickleball game starts on the second server', () => {
+  const state = createMatchState({ id: 'test', court_id: 'court1', game_mode: 'pickleball', serving_team: 'a' });
+  assertEqual(state.server_number, 2);
+  assertEqual(formatDisplay(state).server_number, 2);
+  assertEqual(canChooseServers(state), false);
+});
+
+test('Only the serving team scores in pickleball', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1', game_mode: 'pickleball', serving_team: 'a' });
+  state = scorePoints(state, ['a', 'a']);
+  assertEqual([state.team_a_points, state.team_b_points], [2, 0]);
+  assertEqual(getServeSide(state), 'right');
+  
+  // Second server loses the rally: side out, no point
+  const result = applyScore(state, { type: 'point', team: 'b' });
+  state = result.newState;
+  assertEqual([state.team_a_points, state.team_b_points], [2, 0]);
+  assertEqual(state.serving_team, 'b');
+  assertEqual(state.server_number, 1);
+  assertEqual(state.team_b_server, 1);
+  assertEqual(result.effects.some((e) => e.type === 'side_out'), true);
+  
+  // First server loses: partner serves, then side out
+  state = scorePoints(state, ['b', 'a']);
+  assertEqual(state.team_b_points, 1);
+  assertEqual(state.server_number, 2);
+  assertEqual(state.team_b_server, 2);
+  assertEqual(getServeSide(state), 'left');
+  state = scorePoints(state, ['a']);
+  assertEqual(state.serving_team, 'a');
+  assertEqual(state.server_number, 1);
+});
+
+test('Pickleball games go to 11, win by 2, best of 3', () => {
+  let state = createMatchState({
+    id: 'test', court_id: 'court1', game_mode: 'pickleball', sets_to_win: 2, serving_team: 'a',
+  });
+  state = scorePoints(state, Array(10).fill('a'));
+  // Receivers break serve and run to 10-10
+  state = scorePoints(state, ['b', ...Array(10).fill('b')]);
+  assertEqual([state.team_a_points, state.team_b_points], [10, 10]);
+  state = scorePoints(state, ['b', 'b']);
+  assertEqual(state.set_scores, [{ team_a: 10, team_b: 12 }]);
+  assertEqual(state.current_set, 2);
+  
+  // Loser of the game serves first, 0-0-2
+  assertEqual(state.serving_team, 'a');
+  assertEqual(state.server_number, 2);
+  assertEqual(state.sides_swapped, true);
+  
+  state = scorePoints(state, Array(11).fill('a'));
+  assertEqual(state.set_scores.length, 2);
+  assertEqual(state.status, 'in_progress');
+  
+  // Deciding game: ends change when the first team reaches 6
+  assertEqual(state.serving_team, 'b');
+  state = scorePoints(state, Array(6).fill('b'));
+  assertEqual(state.sides_swapped, true);
+  state = scorePoints(state, Array(5).fill('b'));
+  assertEqual(state.status, 'completed');
+  assertEqual(state.winner, 'b');
+  assertEqual(formatDisplay(state).sets_won, { a: 1, b: 2 });
+  assertEqual(validateMatchState(state), []);
+});
+
+// ============================================================
+// HANDICAP TESTS
+// ============================================================
+
+console.log('\n=== Handicap Tests ===\n');
+
+test('Handicap points head start applies to every game', () => {
+  let state = createMatchState({
+    id: 'test', court_id: 'court1', serving_team: 'a',
+    handicap: { team: 'b', points: 1, games: 0, sets: 0 },
+  });
+  assertEqual(formatDisplay(state).points, { a: '0', b: '15' });
+  assertEqual(canChooseServers(state), true);
+  
+  state = scoreGame(state, 'a');
+  assertEqual(state.team_a_games, 1);
+  assertEqual(formatDisplay(state).points, { a: '0', b: '15' });
+  
+  // 15-0 up, Team B needs three more points
+  state = scorePoints(state, ['b', 'b', 'b']);
+  assertEqual(state.team_b_games, 1);
+});
+
+test('Handicap games and sets are given at the start of each set', () => {
+  let state = createMatchState({
+    id: 'test', court_id: 'court1', serving_team: 'a', sets_to_win: 2,
+    handicap: { team: 'a', points: 0, games: 2, sets: 1 },
+  });
+  assertEqual(state.set_scores, [{ team_a: 6, team_b: 0, handicap: true }]);
+  assertEqual(state.current_set, 2);
+  assertEqual([state.team_a_games, state.team_b_games], [2, 0]);
+  assertEqual(formatDisplay(state).sets_won, { a: 1, b: 0 });
+  assertEqual(validateMatchState(state), []);
+  
+  // Ends change after the first game played, not on the head start
+  state = scoreGame(state, 'b');
+  assertEqual(state.sides_swapped, true);
+  
+  for (let i = 0; i < 5; i++) state = scoreGame(state, 'b');
+  assertEqual(state.set_scores[1], { team_a: 2, team_b: 6 });
+  
+  // Deciding set starts 2-0 again, servers may still be chosen
+  assertEqual(state.status, 'in_progress');
+  assertEqual([state.team_a_games, state.team_b_games], [2, 0]);
+  assertEqual(canChooseServers(state), true);
+  assertEqual(validateMatchState(state), []);
+});
+
+test('Handicap must fit the match format', () => {
+  const padel = { game_mode: 'golden_point' as GameMode, games_per_set: 6 as const, sets_to_win: 2 as const };
+  assertEqual(isValidHandicap({ team: 'a', points: 2, games: 4, sets: 1 }, padel), true);
+  assertEqual(isValidHandicap({ team: 'a', points: 3, games: 0, sets: 0 }, padel), false);
+  assertEqual(isValidHandicap({ team: 'a', points: 0, games: 5, sets: 0 }, padel), false);
+  assertEqual(isValidHandicap({ team: 'b', points: 0, games: 0, sets: 2 }, padel), false);
+  assertEqual(isValidHandicap({ team: 'b', points: 0, games: 0, sets: 0 }, padel), false);
+  assertEqual(isValidHandicap({ team: 'b', points: 1, games: 0, sets: 0 }, { ...padel, game_mode: 'americano' }), false);
+  
+  const state = createMatchState({ id: 'test', court_id: 'court1', game_mode: 'americano', serving_team: 'a' });
+  const handicapped = { ...state, handicap: { team: 'a' as Team, points: 1, games: 0, sets: 0 } };
+  assertEqual(validateMatchState(handicapped).map((i) => i.field), ['handicap']);
+});
+
+// ============================================================
+// WIN PROBABILITY TESTS
+// ============================================================
+
+console.log('\n=== Win Probability Tests ===\n');
+
+const EVEN_RATES = { a: 0.5, b: 0.5 };
+
+test('Evenly matched teams start at 50%', () => {
+  for (const mode of ['traditional', 'golden_point', 'silver_point', 'americano', 'pickleball'] as GameMode[]) {
+    const state = createMatchState({ id: 'test', court_id: 'court1', game_mode: mode, serving_team: 'a' });
+    const chance = getWinProbability(state, EVEN_RATES)!;
+    const teamB = 1 - chance.match - chance.draw;
+    assertEqual(Math.round(chance.match * 1000), Math.round(teamB * 1000));
+  }
+  
+  // Americano can end level
+  const americano = createMatchState({ id: 'test', court_id: 'court1', game_mode: 'americano', serving_team: 'a' });
+  assertEqual(getWinProbability(americano, EVEN_RATES)!.draw > 0, true);
+});
+
+test('Leading team is favoured and a finished match is certain', () => {
+  const state = createMatchState({ id: 'test', court_id: 'court1', game_mode: 'traditional', serving_team: 'a', sets_to_win: 2 });
+  const ahead = getWinProbability(scorePoints(state, ['a', 'a', 'a', 'a', 'a', 'a']), EVEN_RATES)!;
+  assertEqual(ahead.game > 0.5 && ahead.set > 0.5 && ahead.match > 0.5, true);
+  assertEqual(ahead.set > ahead.match, true);
+  
+  // Stronger server is favoured from the first point
+  assertEqual(getWinProbability(state, { a: 0.65, b: 0.5 })!.match > 0.5, true);
+  
+  // Match tiebreak: the tiebreak decides the match
+  const decider = { ...state, deciding_set_format: 'match_tiebreak' as const };
+  const tiebreak = getWinProbability(scorePoints(reachOneSetAll(decider), ['b', 'b', 'b']), EVEN_RATES)!;
+  assertEqual(tiebreak.match, tiebreak.game);
+  assertEqual(tiebreak.match < 0.5, true);
+  
+  const won = { ...state, status: 'completed' as const, winner: 'b' as Team };
+  assertEqual(getWinProbability(won, EVEN_RATES), { game: 0, set: 0, match: 0, draw: 0 });
+  assertEqual(getWinProbability({ ...state, status: 'abandoned' }, EVEN_RATES), null);
+});
+
+test('Win probability is recorded after every point', () => {
+  assertEqual(estimatePointWinRates(undefined), EVEN_RATES);
+  
+  const state = createMatchState({ id: 'test', court_id: 'court1', game_mode: 'traditional', serving_team: 'a' });
+  const played = scoreWithStats(state, ['a', 'a', 'b', 'a', 'a', 'b', 'b']);
+  const history = played.stats!.win_probability!;
+  assertEqual(history.length, 7);
+  assertEqual(history.every((p) => p > 0 && p < 1), true);
+  assertEqual(history[4] > 0.5, true);  // A held serve
+  
+  const rates = estimatePointWinRates(played.stats);
+  assertEqual(rates.a > 0.5, true);
+});
+
+// ============================================================
+// NOTATION TESTS
+// ============================================================
+
+console.log('\n=== Notation Tests ===\n');
+
+test('Imported point sequence gives the same state as live scoring', () => {
+  const env = { now: createManualClock(new Date('2026-03-01T18:00:00.000Z')).now, random: () => 0.3 };
+  const config = { id: 'test', court_id: 'court1', game_mode: 'traditional' as GameMode, games_per_set: 4 as const };
+  const points: Team[] = [...'aaaabbbbaabaabbabbbbbbbbaaaa'].map((c) => c as Team);
+  
+  // As the score edge function does it
+  let live = createMatchState(config, env);
+  for (const team of points) {
+    const result = applyScore(live, { type: 'point', team }, env);
+    live = { ...result.newState, stats: updateStats(live.stats, live, result), version: result.newState.version + 1 };
+  }
+  
+  const text = formatPointSequence(config, points, env);
+  assertEqual(text, 'AAAA BBBB AABAA BBABB BBBB BBAAAA');
+  assertEqual(parsePointSequence(config, text, env), { state: live, error: null });
+});
+
+test('Point sequence separators must match set ends', () => {
+  const config = { id: 'test', court_id: 'court1', game_mode: 'golden_point' as GameMode, games_per_set: 4 as const, sets_to_win: 2 as const };
+  const sequence = 'aaaa '.repeat(4) + '/ BBBB';
+  assertEqual(parsePointSequence(config, sequence).state!.set_scores, [{ team_a: 4, team_b: 0 }]);
+  assertEqual(parsePointSequence(config, 'AAAA/').error, "'/' after point 4 does not end a set");
+  assertEqual(parsePointSequence(config, 'AAXA').error, "Unexpected 'X' in point sequence");
+  assertEqual(parsePointSequence({ ...config, sets_to_win: 1 }, 'AAAA'.repeat(4) + 'B').error, 'Point 17 is after the end of the match');
+});
+
+test('Result strings round-trip through the engine', () => {
+  const cases: [Partial<MatchState>, string][] = [
+    [{ game_mode: 'traditional', sets_to_win: 2, deciding_set_format: 'match_tiebreak' }, '6-4 3-6 [10-8]'],
+    [{ game_mode: 'golden_point', sets_to_win: 2 }, '7-6(5) 6-7(12) 7-5'],
+    [{ game_mode: 'pickleball', sets_to_win: 2 }, '11-7 9-11 12-10'],
+    [{ game_mode: 'americano', americano_points: 24 }, '13-11'],
+    [{ game_mode: 'traditional', sets_to_win: 2, handicap: { team: 'b', points: 1, games: 2, sets: 0 } }, '4-6 6-3 7-6(3)'],
+  ];
+  for (const [format, result] of cases) {
+    const parsed = parseResult({ id: 'test', court_id: 'court1', serving_team: 'a', ...format } as MatchConfig, result);
+    assertEqual(parsed.state!.status, 'completed');
+    assertEqual(formatResult(parsed.state!.set_scores), result);
+  }
+  
+  // Tiebreak points default to 7-0
+  const short = parseResult({ id: 'test', court_id: 'court1', sets_to_win: 1 }, '6-7');
+  assertEqual(short.state!.set_scores, [{ team_a: 6, team_b: 7, tiebreak: { team_a: 0, team_b: 7 } }]);
+});
+
+test('Results that do not fit the match are rejected', () => {
+  const config = { id: 'test', court_id: 'court1', sets_to_win: 1 as const };
+  assertEqual(parseResult(config, '6-5').error, "Result '6-5' does not fit the match format");
+  assertEqual(parseResult(config, '6-4 6-2').error, 'Result has more sets than the match');
+  assertEqual(parseResult(config, '6-4]').error, "Unexpected '6-4]' in result");
+  assertEqual(parseResult(config, ' ').error, 'Empty result');
+});
+
+// ============================================================
+// VALIDATION + MIGRATION TESTS
+// ============================================================
+
+console.log('\n=== Validation Tests ===\n');
+
+test('Rows without schema_version are migrated to the current schema', () => {
+  // Row written before set length, time limits, Americano and ends existed
+  const legacyRow = {
+    id: 'old',
+    court_id: 'court1',
+    version: 9,
+    game_mode: 'golden_point',
+    sets_to_win: 1,
+    status: 'in_progress',
+    current_set: 1,
+    is_tiebreak: null,
+    team_a_points: 2,
+    team_b_points: 1,
+    team_a_games: 1,
+    team_b_games: 0,
+    set_scores: null,
+    tiebreak_scores: null,
+    deuce_count: 0,
+    serving_team: 'b',
+    winner: null,
+    created_at: '2025-06-01T10:00:00.000Z',
+  };
+  
+  const { state, issues } = parseMatchState(legacyRow);
+  assertEqual(issues, []);
+  assertEqual(state.schema_version, MATCH_SCHEMA_VERSION);
+  assertEqual(state.server_number, 1);
+  assertEqual(state.handicap, null);
+  assertEqual(state.end_reason, null);
+  assertEqual(state.sudden_death_after_deuces, 0);  // Golden point
+  assertEqual(state.games_per_set, 6);
+  assertEqual(state.tiebreak_at, 6);
+  assertEqual(state.time_limit_rule, 'finish_game');
+  assertEqual(state.team_a_server, 1);
+  assertEqual(state.set_scores, []);
+  assertEqual(state.sides_swapped, true);  // Ends changed after the first game
+  assertEqual('created_at' in state, false);
+  
+  const next = applyScore(state, { type: 'point', team: 'a' }).newState;
+  assertEqual(next.team_a_points, 3);
+});
+
+test('Current states pass through migration unchanged', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1', serving_team: 'a' });
+  state = scorePoints(state, ['a', 'a', 'a', 'a', 'b']);
+  assertEqual(migrateMatchState(JSON.parse(JSON.stringify(state))), state);
+  assertEqual(validateMatchState(state), []);
+});
+
+test('Validation reports structural problems', () => {
+  const state = createMatchState({ id: 'test', court_id: 'court1', serving_team: 'a' });
+  const broken = { ...state, game_mode: 'platinum_point' as GameMode, team_b_points: -2, schema_version: MATCH_SCHEMA_VERSION + 1 };
+  assertEqual(validateMatchState(broken).map((i) => i.field), ['schema_version', 'game_mode', 'team_b_points']);
+});
+
+test('Validation reports rules problems', () => {
+  let state = createMatchState({ id: 'test', court_id: 'court1', serving_team: 'a' });
+  state = scorePoints(state, ['a']);
+  
+  assertEqual(validateMatchState({ ...state, winner: 'a' }).map((i) => i.field), ['winner']);
+  assertEqual(
+    validateMatchState({ ...state, is_tiebreak: true }).map((i) => i.field),
+    ['tiebreak_scores', 'tiebreak_starting_server']
+  );
+  assertEqual(
+    validateMatchState({ ...state, set_scores: [{ team_a: 6, team_b: 2 }], current_set: 2 }).map((i) => i.field),
+    ['set_scores']
+  );
+});
+
+// ============================================================
+// RULE SET TESTS
+// ============================================================
+
+console.log('\n=== Rule Set Tests ===\n');
+
+test('Built-in game modes are registered', () => {
+  assertEqual(
+    listRuleSets().map((r) => [r.mode, r.format, r.label]),
+    [
+      ['traditional', 'sets', 'Standard'],
+      ['golden_point', 'sets', 'Golden Point'],
+      ['silver_point', 'sets', 'Silver Point'],
+      ['americano', 'points', 'Americano'],
+      ['pickleball', 'side_out', 'Pickleball'],
+    ]
+  );
+  assertEqual(findRuleSet('platinum_point'), null);
+  
+  let threw = false;
+  try {
+    getRuleSet('platinum_point');
+  } catch {
+    threw = true;
+  }
+  assertEqual(threw, true, 'Unknown mode should throw');
+});
+
+test('Registered variant is used by the engine', () => {
+  // Deciding point on the third deuce
+  const silver = getRuleSet('silver_point') as SetsRuleSet;
+  registerRuleSet({
+    ...silver,
+    mode: 'bronze_point',
+    label: 'Bronze Point',
+    isDecidingPoint: (s) => s.team_a_points >= 3 && s.team_a_points === s.team_b_points && s.deuce_count >= 3,
+    decidingPointStat: undefined,
+  });
+  
+  let state = createMatchState({ id: 'test', court_id: 'court1', game_mode: 'bronze_point', serving_team: 'a' });
+  assertEqual(validateMatchState(state), []);
+  
+  // Deuce three times
+  state = scorePoints(state, ['a', 'a', 'a', 'b', 'b', 'b', 'a', 'b', 'a', 'b']);
+  assertEqual(state.deuce_count, 3);
+  assertEqual(getServeSide(state), null);
+  
+  // Deciding point wins the game
+  state = scorePoints(state, ['b']);
+  assertEqual(state.team_b_games, 1);
+});
+
 // ============================================================
 // DISPLAY FORMAT TESTS
 // ============================================================
@@ -493,6 +1747,63 @@ test('Display shows tiebreak scores as numbers', () => {
   assertEqual(display.is_tiebreak, true);
 });
 
+// ============================================================
+// SIMULATOR TESTS
+// ============================================================
+
+console.log('\n=== Simulator Tests ===\n');
+
+test('Injected clock stamps start and completion times', () => {
+  const clock = createManualClock(new Date('2026-03-01T18:00:00.000Z'));
+  const env = { now: clock.now, random: () => 0.9 };
+  
+  let state = createMatchState({ id: 'test', court_id: 'court1', game_mode: 'americano', americano_points: 16 }, env);
+  assertEqual(state.serving_team, 'a');
+  
+  state = applyScore(state, { type: 'point', team: 'a' }, env).newState;
+  assertEqual(state.started_at, '2026-03-01T18:00:00.000Z');
+  
+  clock.advance(20 * 60000);
+  for (let i = 0; i < 15; i++) {
+    state = applyScore(state, { type: 'point', team: 'a' }, env).newState;
+  }
+  assertEqual(state.status, 'completed');
+  assertEqual(state.completed_at, '2026-03-01T18:20:00.000Z');
+});
+
+test('Seeded random repeats its sequence', () => {
+  const r1 = createSeededRandom(42);
+  const r2 = createSeededRandom(42);
+  const a = [r1(), r1(), r1()];
+  assertEqual([r2(), r2(), r2()], a);
+  assertEqual(a.every((x) => x >= 0 && x < 1), true);
+});
+
+test('Simulated matches are deterministic per seed', () => {
+  const first = simulateMatch(7);
+  const second = simulateMatch(7);
+  assertEqual(second.state, first.state);
+  assertEqual(second.points, first.points);
+});
+
+test('Invariant check flags a broken state', () => {
+  const state = createMatchState({ id: 'test', court_id: 'court1', serving_team: 'a' });
+  const broken = { ...state, status: 'completed' as const, team_a_points: -1 };
+  const violations = checkInvariants(broken);
+  assertEqual(violations.includes('team_a_points is -1'), true);
+  assertEqual(violations.includes('completed without a winner'), true);
+});
+
+test('Random matches across all formats keep the invariants', () => {
+  const summary = fuzzMatches(1000, 2000);
+  const first = summary.failures[0];
+  assertEqual(
+    summary.failures.length,
+    0,
+    first && `seed ${first.seed} (${JSON.stringify(first.config)}): ${first.violations.join('; ')}`
+  );
+});
+
 // ============================================================
 // SUMMARY
 // ============================================================
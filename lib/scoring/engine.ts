@@ -9,13 +9,63 @@ import {
   ScoreEvent,
   ScoreResult,
   Effect,
+  PointSituation,
+  PointSituationType,
   Team,
+  PlayerSlot,
+  ServeSide,
+  MatchStats,
+  TeamStats,
+  PlayerPointStats,
+  PointAnnotation,
+  PointEnding,
+  ShotType,
+  MatchConfig,
+  MatchEvent,
+  SetsRuleSet,
+  PointsRuleSet,
+  SideOutRuleSet,
+  StateDrift,
+  EngineEnv,
+  GamesPerSet,
   GameMode,
+  GameScore,
+  TimeLimitRule,
+  SetScore,
+  Handicap,
   DisplayModel,
   otherTeam,
   getTeamPoints,
   getTeamGames,
+  getTeamServer,
+  EarlyEndStatus,
+  ButtonGesture,
+  GestureAction,
+  GestureMap,
+  isFinishedStatus,
 } from './types';
+import { getRuleSet, findRuleSet } from './rules';
+import { getWinProbability, estimatePointWinRates } from './probability';
+
+// ============================================================
+// ENVIRONMENT
+// ============================================================
+
+export const SYSTEM_ENV: EngineEnv = {
+  now: () => new Date(),
+  random: () => Math.random(),
+};
+
+/**
+ * Stamp completed_at from the clock when a result has just finished the match
+ */
+function stampCompletion(result: ScoreResult, env: EngineEnv): ScoreResult {
+  const s = result.newState;
+  if (s.status === 'completed' && !s.completed_at) {
+    s.completed_at = env.now().toISOString();
+  }
+  return result;
+}
 
 // ============================================================
 // MAIN SCORING FUNCTION
@@ -24,46 +74,64 @@ import {
 /**
  * Apply a score event to the match state
  * Pure function: takes state + event, returns new state + effects
+ * (ending with a point_situation effect for each situation the next point is played in)
+ * Timestamps come from env.now (system clock by default)
+ */
+export function applyScore(state: MatchState, event: ScoreEvent, env: EngineEnv = SYSTEM_ENV): ScoreResult {
+  const result = scorePoint(state, event.team, env);
+  
+  for (const situation of getPointSituations(result.newState)) {
+    result.effects.push({ type: 'point_situation', situation });
+  }
+  
+  return result;
+}
+
+/**
+ * Score one point (applyScore without the point situations)
  */
-export function applyScore(state: MatchState, event: ScoreEvent): ScoreResult {
+function scorePoint(state: MatchState, team: Team, env: EngineEnv): ScoreResult {
   // Deep clone to ensure immutability
   const s: MatchState = JSON.parse(JSON.stringify(state));
   const effects: Effect[] = [];
   
   // Don't score if match is finished
-  if (s.status === 'completed' || s.status === 'abandoned') {
+  if (isFinishedStatus(s.status)) {
     return { newState: s, effects: [] };
   }
   
   // Start match if in setup
   if (s.status === 'setup') {
     s.status = 'in_progress';
-    s.started_at = new Date().toISOString();
+    s.started_at = env.now().toISOString();
   }
   
-  const team = event.team;
   effects.push({ type: 'point_scored', team });
   
   // Route to appropriate scoring logic
-  if (s.is_tiebreak) {
-    return scoreTiebreakPoint(s, team, effects);
+  const rules = getRuleSet(s.game_mode);
+  let result: ScoreResult;
+  if (rules.format === 'points') {
+    result = scoreRallyPoint(s, rules, team, effects);
+  } else if (rules.format === 'side_out') {
+    result = scoreSideOutRally(s, rules, team, effects);
+  } else if (s.is_tiebreak) {
+    result = scoreTiebreakPoint(s, rules, team, effects);
   } else {
-    return scoreGamePoint(s, team, effects);
+    result = scoreGamePoint(s, rules, team, effects);
   }
+  
+  return stampCompletion(result, env);
 }
 
 // ============================================================
 // GAME POINT SCORING (Regular games)
 // ============================================================
 
-function scoreGamePoint(s: MatchState, team: Team, effects: Effect[]): ScoreResult {
-  // Get current points
-  const teamPoints = team === 'a' ? s.team_a_points : s.team_b_points;
-  const opponentPoints = team === 'a' ? s.team_b_points : s.team_a_points;
-  
-  // Check for deuce situation BEFORE incrementing
-  const wasDeuce = teamPoints >= 3 && opponentPoints >= 3 && teamPoints === opponentPoints;
-  const wasAdvantage = teamPoints >= 3 && opponentPoints >= 3 && teamPoints !== opponentPoints;
+function scoreGamePoint(s: MatchState, rules: SetsRuleSet, team: Team, effects: Effect[]): ScoreResult {
+  // Deciding point (golden/silver, or the timed match deciding point): this point wins the game
+  const decidingPoint = rules.isDecidingPoint(s) ||
+    (s.time_expired && s.time_limit_rule === 'deciding_point');
   
   // Increment point
   if (team === 'a') {
@@ -73,65 +141,157 @@ function scoreGamePoint(s: MatchState, team: Team, effects: Effect[]): ScoreResu
   }
   
   // Check for game win
-  const gameWinner = checkGameWinner(s, wasDeuce, wasAdvantage, team, effects);
+  const gameWinner = decidingPoint ? team : rules.gameWinner(s);
   
   if (gameWinner) {
-    return handleGameWon(s, gameWinner, effects);
+    return handleGameWon(s, rules, gameWinner, effects);
   }
   
-  // Check for new deuce
-  if (s.team_a_points >= 3 && s.team_b_points >= 3 && s.team_a_points === s.team_b_points) {
+  // Check for new deuce / advantage
+  const labels = rules.pointLabels(s);
+  if (labels.is_deuce) {
     s.deuce_count++;
     effects.push({ type: 'deuce' });
   }
+  if (labels.advantage) {
+    effects.push({ type: 'advantage', team: labels.advantage });
+  }
+  
+  return { newState: s, effects };
+}
+
+// ============================================================
+// RALLY POINT SCORING (points format, e.g. Americano)
+// ============================================================
+
+function scoreRallyPoint(s: MatchState, rules: PointsRuleSet, team: Team, effects: Effect[]): ScoreResult {
+  if (team === 'a') {
+    s.team_a_points++;
+  } else {
+    s.team_b_points++;
+  }
+  
+  // All points played, or the deciding point after time is up
+  if (rules.isMatchOver(s) || s.time_expired) {
+    if (s.time_expired) s.ended_by_time = true;
+    return handleRallyFinished(s, effects);
+  }
+  
+  // Service passes to the other team every pointsPerServe points
+  if ((s.team_a_points + s.team_b_points) % rules.pointsPerServe(s) === 0) {
+    rotateServer(s, otherTeam(s.serving_team || 'a'));
+  }
+  
+  return { newState: s, effects };
+}
+
+// ============================================================
+// SIDE-OUT SCORING (e.g. pickleball)
+// ============================================================
+
+/**
+ * Only the serving team scores. A rally lost by the first server passes serve
+ * to the partner (second server); lost by the second server, serve passes to
+ * the other team (side out). The first serving team of each game starts on its
+ * second server (0-0-2).
+ */
+function scoreSideOutRally(s: MatchState, rules: SideOutRuleSet, team: Team, effects: Effect[]): ScoreResult {
+  const server = s.serving_team || 'a';
+  
+  if (team !== server) {
+    if (s.server_number === 1) {
+      s.server_number = 2;
+      switchTeamServer(s, server);
+    } else {
+      sideOut(s, team, effects);
+    }
+    return { newState: s, effects };
+  }
+  
+  if (team === 'a') {
+    s.team_a_points++;
+  } else {
+    s.team_b_points++;
+  }
   
-  // Check for advantage
-  if (s.team_a_points >= 3 && s.team_b_points >= 3 && Math.abs(s.team_a_points - s.team_b_points) === 1) {
-    const advTeam: Team = s.team_a_points > s.team_b_points ? 'a' : 'b';
-    effects.push({ type: 'advantage', team: advTeam });
+  const points = getTeamPoints(s, team);
+  const opponentPoints = getTeamPoints(s, otherTeam(team));
+  
+  // Win by 2 (after time is up the game is always played out)
+  if (points >= rules.pointsToWinGame && points - opponentPoints >= 2) {
+    return handleSideOutGameWon(s, rules, team, effects);
+  }
+  
+  // Deciding game: change ends when the first team reaches the halfway point
+  if (isDecidingSet(s) && points === Math.ceil(rules.pointsToWinGame / 2) && opponentPoints < points) {
+    changeEnds(s, effects);
   }
   
   return { newState: s, effects };
 }
 
 /**
- * Check if the game has been won
+ * Serve passes to the other team's first server: the player on the right,
+ * which is player 1 when the team's score is even (player 1 starts each game
+ * on the right and partners swap sides each time they score on serve)
  */
-function checkGameWinner(
-  s: MatchState, 
-  wasDeuce: boolean, 
-  wasAdvantage: boolean,
-  scoringTeam: Team,
-  effects: Effect[]
-): Team | null {
-  const pA = s.team_a_points;
-  const pB = s.team_b_points;
+function sideOut(s: MatchState, team: Team, effects: Effect[]): void {
+  s.serving_team = team;
+  s.server_number = 1;
+  
+  const slot: PlayerSlot = getTeamPoints(s, team) % 2 === 0 ? 1 : 2;
+  if (team === 'a') {
+    s.team_a_server = slot;
+  } else {
+    s.team_b_server = slot;
+  }
+  
+  effects.push({ type: 'side_out', team });
+}
+
+function handleSideOutGameWon(s: MatchState, rules: SideOutRuleSet, winner: Team, effects: Effect[]): ScoreResult {
+  effects.push({ type: 'game_won', team: winner });
+  
+  // Each game is recorded like a set
+  s.set_scores.push({ team_a: s.team_a_points, team_b: s.team_b_points });
+  
+  if (rules.isMatchOver(s, countSetsWon(s))) {
+    return handleMatchWon(s, winner, effects);
+  }
   
-  // Standard game win: first to 4, win by 2
-  // Points: 0=0, 1=15, 2=30, 3=40, 4+=game or advantage
+  // Start next game
+  s.current_set++;
+  s.team_a_points = 0;
+  s.team_b_points = 0;
   
-  // Golden Point: At deuce, next point wins
-  if (wasDeuce && s.game_mode === 'golden_point') {
-    return scoringTeam;
+  // Time is up: no new game is started
+  if (s.time_expired) {
+    return handleTimeUpFinish(s, effects);
   }
   
-  // Silver Point: After 2 deuces (deuce_count >= 2), next point wins
-  if (wasDeuce && s.game_mode === 'silver_point' && s.deuce_count >= 2) {
-    return scoringTeam;
+  // Teams change ends after every game
+  changeEnds(s, effects);
+  
+  // The team that lost the game serves first in the next one, starting 0-0-2
+  const nextServer = otherTeam(winner);
+  s.serving_team = nextServer;
+  s.server_number = 2;
+  if (nextServer === 'a') {
+    s.team_a_server = 1;
+  } else {
+    s.team_b_server = 1;
   }
   
-  // Standard win: 4+ points and ahead by 2
-  if (pA >= 4 && pA - pB >= 2) return 'a';
-  if (pB >= 4 && pB - pA >= 2) return 'b';
+  effects.push({ type: 'set_started', set_number: s.current_set });
   
-  return null;
+  return { newState: s, effects };
 }
 
 // ============================================================
 // TIEBREAK POINT SCORING
 // ============================================================
 
-function scoreTiebreakPoint(s: MatchState, team: Team, effects: Effect[]): ScoreResult {
+function scoreTiebreakPoint(s: MatchState, rules: SetsRuleSet, team: Team, effects: Effect[]): ScoreResult {
   // Initialize tiebreak scores if needed
   if (!s.tiebreak_scores) {
     s.tiebreak_scores = { team_a: 0, team_b: 0 };
@@ -146,35 +306,73 @@ function scoreTiebreakPoint(s: MatchState, team: Team, effects: Effect[]): Score
   
   const tbA = s.tiebreak_scores.team_a;
   const tbB = s.tiebreak_scores.team_b;
+  const matchTiebreak = isMatchTiebreak(s);
   
-  // Check tiebreak win: first to 7, win by 2
+  // Check tiebreak win: first to 7 (or match_tiebreak_points), win by 2
+  const target = matchTiebreak ? s.match_tiebreak_points : 7;
   let tiebreakWinner: Team | null = null;
-  if (tbA >= 7 && tbA - tbB >= 2) tiebreakWinner = 'a';
-  if (tbB >= 7 && tbB - tbA >= 2) tiebreakWinner = 'b';
+  if (tbA >= target && tbA - tbB >= 2) tiebreakWinner = 'a';
+  if (tbB >= target && tbB - tbA >= 2) tiebreakWinner = 'b';
+  
+  // Timed match deciding point: next point after time is up wins the tiebreak
+  // A match tiebreak is instead decided on its score after that point (level = draw)
+  if (s.time_expired && s.time_limit_rule === 'deciding_point') {
+    if (!matchTiebreak) {
+      tiebreakWinner = team;
+    } else if (tbA === tbB) {
+      return handleTimeUpFinish(s, effects);
+    } else {
+      tiebreakWinner = tbA > tbB ? 'a' : 'b';
+      s.ended_by_time = true;
+    }
+  }
+  
+  if (tiebreakWinner && matchTiebreak) {
+    // Match tiebreak replaces the deciding set
+    // Record the tiebreak points as the set score (e.g. 10-8)
+    s.is_tiebreak = false;
+    s.tiebreak_scores = undefined;
+    s.tiebreak_starting_server = undefined;
+    
+    effects.push({ type: 'game_won', team: tiebreakWinner });
+    return handleSetWon(s, rules, tiebreakWinner, effects, { team_a: tbA, team_b: tbB, match_tiebreak: true });
+  }
   
   if (tiebreakWinner) {
     // Tiebreak won - this wins the set
-    // The team that wins the tiebreak gets the set at 7-6 (or 6-7)
-    // Games are already at 6-6, so we increment the winner's games to 7
+    // The team that wins the tiebreak gets the set at e.g. 7-6 (or 6-7)
+    // Games are already at tiebreak_at-tiebreak_at, so the winner gets one more
     if (tiebreakWinner === 'a') {
-      s.team_a_games = 7;
+      s.team_a_games = s.tiebreak_at + 1;
     } else {
-      s.team_b_games = 7;
+      s.team_b_games = s.tiebreak_at + 1;
     }
     
+    // Team that received first in the tiebreak serves first in the next set
+    rotateServer(s, otherTeam(s.tiebreak_starting_server || s.serving_team || 'a'));
+    
     // Exit tiebreak mode
     s.is_tiebreak = false;
     s.tiebreak_scores = undefined;
     s.tiebreak_starting_server = undefined;
     
     effects.push({ type: 'game_won', team: tiebreakWinner });
-    return handleSetWon(s, tiebreakWinner, effects);
+    return handleSetWon(s, rules, tiebreakWinner, effects, {
+      team_a: s.team_a_games,
+      team_b: s.team_b_games,
+      tiebreak: { team_a: tbA, team_b: tbB },
+    });
   }
   
   // Update server for tiebreak (FIP rules)
   // Pattern: first point by starting server, then alternating every 2 points
   updateTiebreakServer(s);
   
+  // Change ends every 6 tiebreak points
+  if ((tbA + tbB) % 6 === 0) {
+    changeEnds(s, effects);
+  }
+  
   return { newState: s, effects };
 }
 
@@ -198,6 +396,8 @@ function updateTiebreakServer(s: MatchState): void {
     return;
   }
   
+  const previousServer = s.serving_team;
+  
   // After point 0, pattern is: 2, 2, 2, 2, ...
   // So we alternate every 2 points starting from point 1
   // Point 1-2: opposite server
@@ -230,13 +430,19 @@ function updateTiebreakServer(s: MatchState): void {
     }
     // Otherwise, keep same server (middle of a pair)
   }
+  
+  // Player rotation carries on through the tiebreak:
+  // when serve passes to the other team, the team that just served switches player
+  if (previousServer && s.serving_team !== previousServer) {
+    switchTeamServer(s, previousServer);
+  }
 }
 
 // ============================================================
 // GAME/SET/MATCH COMPLETION HANDLERS
 // ============================================================
 
-function handleGameWon(s: MatchState, winner: Team, effects: Effect[]): ScoreResult {
+function handleGameWon(s: MatchState, rules: SetsRuleSet, winner: Team, effects: Effect[]): ScoreResult {
   effects.push({ type: 'game_won', team: winner });
   
   // Increment games
@@ -246,15 +452,18 @@ function handleGameWon(s: MatchState, winner: Team, effects: Effect[]): ScoreRes
     s.team_b_games++;
   }
   
-  // Reset game points
-  s.team_a_points = 0;
-  s.team_b_points = 0;
-  s.deuce_count = 0;
+  // Reset game points (to the handicap head start)
+  startGame(s);
+  
+  // Rotate server: serve passes to the other team,
+  // and the team that just served switches player for its next service game
+  rotateServer(s, otherTeam(s.serving_team || 'a'));
   
   // Check for tiebreak FIRST (before set win check)
   // Tiebreak starts when games reach tiebreak_at-tiebreak_at (e.g., 6-6)
   // We check AFTER incrementing games, so both teams have reached tiebreak_at
-  if (s.team_a_games === s.tiebreak_at && s.team_b_games === s.tiebreak_at) {
+  // No tiebreak is started once time is up
+  if (!s.time_expired && s.team_a_games === s.tiebreak_at && s.team_b_games === s.tiebreak_at) {
     // Only start tiebreak if not already in one
     if (!s.is_tiebreak) {
       s.is_tiebreak = true;
@@ -263,75 +472,108 @@ function handleGameWon(s: MatchState, winner: Team, effects: Effect[]): ScoreRes
       s.tiebreak_starting_server = s.serving_team || 'a';
       effects.push({ type: 'tiebreak_started' });
     }
-    // Server stays the same for start of tiebreak
+    // Next server in the rotation serves the first tiebreak point
     return { newState: s, effects };
   }
   
   // Check for set win (after tiebreak check)
   // This handles 6-4, 7-5 etc where there's a 2 game lead
-  const setWinner = checkSetWinner(s);
+  const setWinner = rules.setWinner(s);
   if (setWinner) {
-    return handleSetWon(s, setWinner, effects);
+    return handleSetWon(s, rules, setWinner, effects);
+  }
+  
+  // Time is up: this was the last game
+  if (s.time_expired) {
+    return handleTimeUpFinish(s, effects);
   }
   
-  // Rotate server
-  s.serving_team = otherTeam(s.serving_team!);
+  // Change ends after odd games of the set (1, 3, 5...), not counting handicap games
+  if ((s.team_a_games + s.team_b_games - getHandicapGames(s)) % 2 === 1) {
+    changeEnds(s, effects);
+  }
   
   return { newState: s, effects };
 }
 
 /**
- * Check if the current set has been won
- * Win condition: 6+ games and ahead by 2
- * Note: 6-6 goes to tiebreak, not checked here
+ * Teams change ends (FIP): after odd games of a set, at the end of a set with
+ * an odd number of games (a tiebreak counts as one game), and every 6 tiebreak points
  */
-function checkSetWinner(s: MatchState): Team | null {
-  const gA = s.team_a_games;
-  const gB = s.team_b_games;
-  
-  // Standard set win: 6+ games, ahead by 2
-  if (gA >= 6 && gA - gB >= 2) return 'a';
-  if (gB >= 6 && gB - gA >= 2) return 'b';
-  
-  // 6-6 is handled by tiebreak, not here
-  // 7-6 after tiebreak is handled in scoreTiebreakPoint
-  
-  return null;
+function changeEnds(s: MatchState, effects: Effect[]): void {
+  s.sides_swapped = !s.sides_swapped;
+  effects.push({ type: 'change_ends' });
 }
 
-function handleSetWon(s: MatchState, winner: Team, effects: Effect[]): ScoreResult {
+/**
+ * Pass serve to the given team
+ * The team that was serving switches player for its next service game
+ */
+function rotateServer(s: MatchState, nextTeam: Team): void {
+  if (s.serving_team && s.serving_team !== nextTeam) {
+    switchTeamServer(s, s.serving_team);
+  }
+  s.serving_team = nextTeam;
+}
+
+function switchTeamServer(s: MatchState, team: Team): void {
+  if (team === 'a') {
+    s.team_a_server = s.team_a_server === 1 ? 2 : 1;
+  } else {
+    s.team_b_server = s.team_b_server === 1 ? 2 : 1;
+  }
+}
+
+function handleSetWon(
+  s: MatchState,
+  rules: SetsRuleSet,
+  winner: Team,
+  effects: Effect[],
+  setScore: SetScore = { team_a: s.team_a_games, team_b: s.team_b_games }
+): ScoreResult {
   effects.push({ type: 'set_won', team: winner });
   
   // Record completed set
-  s.set_scores.push({
-    team_a: s.team_a_games,
-    team_b: s.team_b_games
-  });
-  
-  // Count sets won
-  const setsWon = countSetsWon(s);
+  s.set_scores.push(setScore);
   
   // Check for match win
-  if (setsWon[winner] >= s.sets_to_win) {
+  if (rules.isMatchOver(s, countSetsWon(s))) {
     return handleMatchWon(s, winner, effects);
   }
   
   // Start new set
   s.current_set++;
-  s.team_a_games = 0;
-  s.team_b_games = 0;
-  s.team_a_points = 0;
-  s.team_b_points = 0;
+  s.team_a_games = getHeadStart(s, 'a').games;
+  s.team_b_games = getHeadStart(s, 'b').games;
+  startGame(s);
     s.is_tiebreak = false;
     s.tiebreak_scores = undefined;
     s.tiebreak_starting_server = undefined;
-    s.deuce_count = 0;
   
-  // Rotate server for new set
-  s.serving_team = otherTeam(s.serving_team!);
+  // Time is up: no new set is started
+  if (s.time_expired) {
+    return handleTimeUpFinish(s, effects);
+  }
+  
+  // Server for the new set was already rotated when the last game was won
+  // Teams may re-pick their first server with chooseServers() before the first point
+  
+  // Set with an odd number of games played: change ends now
+  // (otherwise ends change after the first game of the next set)
+  if (!setScore.match_tiebreak && (setScore.team_a + setScore.team_b - getHandicapGames(s)) % 2 === 1) {
+    changeEnds(s, effects);
+  }
   
   effects.push({ type: 'set_started', set_number: s.current_set });
   
+  // Deciding set played as a match tiebreak: start it straight away
+  if (s.deciding_set_format === 'match_tiebreak' && isDecidingSet(s)) {
+    s.is_tiebreak = true;
+    s.tiebreak_scores = { team_a: 0, team_b: 0 };
+    s.tiebreak_starting_server = s.serving_team || 'a';
+    effects.push({ type: 'match_tiebreak_started' });
+  }
+  
   return { newState: s, effects };
 }
 
@@ -340,7 +582,58 @@ function handleMatchWon(s: MatchState, winner: Team, effects: Effect[]): ScoreRe
   
   s.status = 'completed';
   s.winner = winner;
-  s.completed_at = new Date().toISOString();
+  
+  return { newState: s, effects };
+}
+
+/**
+ * End a timed match on the score as it stands
+ * Decided by sets won, then games in the current set (Americano: points;
+ * side-out: games won, then points in the current game); level = draw (no winner)
+ */
+function handleTimeUpFinish(s: MatchState, effects: Effect[]): ScoreResult {
+  s.ended_by_time = true;
+  
+  const format = getRuleSet(s.game_mode).format;
+  if (format === 'points') {
+    return handleRallyFinished(s, effects);
+  }
+  
+  const setsWon = countSetsWon(s);
+  
+  let winner: Team | null = null;
+  if (setsWon.a !== setsWon.b) {
+    winner = setsWon.a > setsWon.b ? 'a' : 'b';
+  } else if (s.team_a_games !== s.team_b_games) {
+    winner = s.team_a_games > s.team_b_games ? 'a' : 'b';
+  } else if (format === 'side_out' && s.team_a_points !== s.team_b_points) {
+    winner = s.team_a_points > s.team_b_points ? 'a' : 'b';
+  }
+  
+  if (winner) {
+    return handleMatchWon(s, winner, effects);
+  }
+  
+  return handleMatchDrawn(s, effects);
+}
+
+/**
+ * Points format match over (e.g. Americano): record the final points as the
+ * only set score and award the match to the team with more points (level = draw).
+ */
+function handleRallyFinished(s: MatchState, effects: Effect[]): ScoreResult {
+  s.set_scores.push({ team_a: s.team_a_points, team_b: s.team_b_points });
+  
+  if (s.team_a_points !== s.team_b_points) {
+    return handleMatchWon(s, s.team_a_points > s.team_b_points ? 'a' : 'b', effects);
+  }
+  
+  return handleMatchDrawn(s, effects);
+}
+
+function handleMatchDrawn(s: MatchState, effects: Effect[]): ScoreResult {
+  s.status = 'completed';
+  s.winner = null;
   
   return { newState: s, effects };
 }
@@ -360,6 +653,89 @@ function countSetsWon(s: MatchState): { a: number; b: number } {
   return { a, b };
 }
 
+/**
+ * Check if the current set is the deciding set (both teams one set from winning)
+ */
+function isDecidingSet(s: MatchState): boolean {
+  if (s.sets_to_win < 2) return false;
+  
+  const setsWon = countSetsWon(s);
+  return setsWon.a === s.sets_to_win - 1 && setsWon.b === s.sets_to_win - 1;
+}
+
+/**
+ * Check if the current tiebreak is a match tiebreak (replacing the deciding set)
+ */
+function isMatchTiebreak(s: MatchState): boolean {
+  return s.is_tiebreak && s.deciding_set_format === 'match_tiebreak' && isDecidingSet(s);
+}
+
+// ============================================================
+// POINT SITUATIONS
+// ============================================================
+
+// Most important first
+const POINT_SITUATION_ORDER: PointSituationType[] = [
+  'match_point',
+  'set_point',
+  'break_point',
+  'game_point',
+  'golden_point',
+  'silver_point',
+  'deciding_point',
+];
+
+// Deciding point named after its stat (one without a stat is just a deciding point)
+const DECIDING_POINT_TYPES: Record<string, PointSituationType> = {
+  golden_points_won: 'golden_point',
+  silver_points_won: 'silver_point',
+};
+
+/**
+ * What the next point can win, most important first
+ * Each team's next point is scored on a copy of the state, so handicaps, time
+ * limits and registered variants are covered: a team that would win the match
+ * has match point, otherwise the set set point; winning a regular game is game
+ * point for the server and break point for the receivers. A deciding point
+ * (golden / silver, or the time limit's) is listed once with no team.
+ * Sets format only: empty for other formats and for finished matches.
+ */
+export function getPointSituations(state: MatchState): PointSituation[] {
+  const rules = findRuleSet(state.game_mode);
+  if (!rules || rules.format !== 'sets') return [];
+  if (isFinishedStatus(state.status)) return [];
+  
+  const situations: PointSituation[] = [];
+  
+  for (const team of ['a', 'b'] as Team[]) {
+    const { effects } = scorePoint(state, team, SYSTEM_ENV);
+    const wins = (type: Effect['type']) =>
+      effects.some((e) => e.type === type && (e as { team?: Team }).team === team);
+    
+    if (wins('match_won')) {
+      situations.push({ type: 'match_point', team });
+    } else if (wins('set_won')) {
+      situations.push({ type: 'set_point', team });
+    }
+    if (!state.is_tiebreak && wins('game_won')) {
+      const receiving = state.serving_team !== null && state.serving_team !== team;
+      situations.push({ type: receiving ? 'break_point' : 'game_point', team });
+    }
+  }
+  
+  if (!state.is_tiebreak && rules.isDecidingPoint(state)) {
+    const stat = getDecidingPointStat(rules, state);
+    const type = (stat && DECIDING_POINT_TYPES[stat]) || 'deciding_point';
+    situations.push({ type, team: null });
+  } else if (state.time_expired && state.time_limit_rule === 'deciding_point') {
+    situations.push({ type: 'deciding_point', team: null });
+  }
+  
+  return situations.sort(
+    (x, y) => POINT_SITUATION_ORDER.indexOf(x.type) - POINT_SITUATION_ORDER.indexOf(y.type)
+  );
+}
+
 // ============================================================
 // DISPLAY FORMATTING
 // ============================================================
@@ -368,60 +744,38 @@ function countSetsWon(s: MatchState): { a: number; b: number } {
  * Convert match state to display-friendly format
  */
 export function formatDisplay(state: MatchState): DisplayModel {
-  const pointLabels = ['0', '15', '30', '40'];
+  const rules = getRuleSet(state.game_mode);
   
-  let pointsA: string;
-  let pointsB: string;
-  let advantage: Team | null = null;
-  let isDeuce = false;
-  
-  if (state.is_tiebreak) {
+  let labels = rules.pointLabels(state);
+  if (rules.format === 'sets' && state.is_tiebreak) {
     // Tiebreak: show numeric scores
-    if (state.tiebreak_scores) {
-      pointsA = state.tiebreak_scores.team_a.toString();
-      pointsB = state.tiebreak_scores.team_b.toString();
-    } else {
-      // Initialize if somehow missing
-      pointsA = '0';
-      pointsB = '0';
-    }
-  } else {
-    const pA = state.team_a_points;
-    const pB = state.team_b_points;
-    
-    // Check for deuce/advantage
-    if (pA >= 3 && pB >= 3) {
-      if (pA === pB) {
-        pointsA = '40';
-        pointsB = '40';
-        isDeuce = true;
-      } else if (pA > pB) {
-        pointsA = 'Ad';
-        pointsB = '40';
-        advantage = 'a';
-      } else {
-        pointsA = '40';
-        pointsB = 'Ad';
-        advantage = 'b';
-      }
-    } else {
-      pointsA = pointLabels[Math.min(pA, 3)];
-      pointsB = pointLabels[Math.min(pB, 3)];
-    }
+    const tb = state.tiebreak_scores || { team_a: 0, team_b: 0 };
+    labels = { a: tb.team_a.toString(), b: tb.team_b.toString(), is_deuce: false, advantage: null };
   }
   
   // Build team names
   const teamAName = buildTeamName(state.team_a_player_1, state.team_a_player_2, 'Team A');
   const teamBName = buildTeamName(state.team_b_player_1, state.team_b_player_2, 'Team B');
   
+  // Individual server
+  const servingPlayer = state.serving_team ? getTeamServer(state, state.serving_team) : null;
+  
   return {
-    points: { a: pointsA, b: pointsB },
+    points: { a: labels.a, b: labels.b },
     games: { a: state.team_a_games, b: state.team_b_games },
     sets_won: countSetsWon(state),
     serving_team: state.serving_team,
+    serving_player: servingPlayer,
+    server_number: rules.format === 'side_out' && state.serving_team ? state.server_number : null,
+    server_name: state.serving_team && servingPlayer
+      ? getPlayerName(state, state.serving_team, servingPlayer)
+      : null,
+    serve_side: getServeSide(state),
+    point_situations: getPointSituations(state),
     is_tiebreak: state.is_tiebreak,
-    is_deuce: isDeuce,
-    advantage,
+    is_match_tiebreak: isMatchTiebreak(state),
+    is_deuce: labels.is_deuce,
+    advantage: labels.advantage,
     status: state.status,
     winner: state.winner,
     team_a_name: teamAName,
@@ -440,50 +794,587 @@ function buildTeamName(player1: string | null | undefined, player2: string | nul
   return `${names[0]} / ${names[1]}`;
 }
 
+function getPlayerName(state: MatchState, team: Team, player: PlayerSlot): string | null {
+  if (team === 'a') {
+    return (player === 1 ? state.team_a_player_1 : state.team_a_player_2) || null;
+  }
+  return (player === 1 ? state.team_b_player_1 : state.team_b_player_2) || null;
+}
+
+// ============================================================
+// STATISTICS
+// ============================================================
+
+function createTeamStats(): TeamStats {
+  return {
+    points_won: 0,
+    service_points_won: 0,
+    return_points_won: 0,
+    breaks: 0,
+    golden_points_won: 0,
+    silver_points_won: 0,
+  };
+}
+
+/**
+ * Create an empty statistics object for a new match
+ */
+export function createMatchStats(): MatchStats {
+  return {
+    points_played: 0,
+    deuces: 0,
+    team_a: createTeamStats(),
+    team_b: createTeamStats(),
+    current_streak: { team: null, length: 0 },
+    longest_streak: { team: null, length: 0 },
+    win_probability: [],
+  };
+}
+
+/**
+ * Fold a scored point into the match statistics
+ * Pure function: takes stats + the state the point was played from + its result
+ * (+ how it ended, if annotated), returns new stats. Call alongside applyScore
+ * with the same stateBefore.
+ */
+export function updateStats(
+  stats: MatchStats | undefined,
+  stateBefore: MatchState,
+  result: ScoreResult,
+  annotation?: PointAnnotation
+): MatchStats {
+  const st: MatchStats = stats ? JSON.parse(JSON.stringify(stats)) : createMatchStats();
+  
+  const scored = result.effects.find((e) => e.type === 'point_scored');
+  if (!scored || scored.type !== 'point_scored') return st;
+  
+  const team = scored.team;
+  const teamStats = team === 'a' ? st.team_a : st.team_b;
+  
+  st.points_played++;
+  teamStats.points_won++;
+  
+  // Serve / return
+  if (stateBefore.serving_team === team) {
+    teamStats.service_points_won++;
+  } else if (stateBefore.serving_team) {
+    teamStats.return_points_won++;
+  }
+  
+  // Deciding points (golden / silver) are only played in regular games
+  const rules = getRuleSet(stateBefore.game_mode);
+  if (rules.format === 'sets' && !stateBefore.is_tiebreak) {
+    const decidingPointStat = getDecidingPointStat(rules, stateBefore);
+    if (decidingPointStat && rules.isDecidingPoint(stateBefore)) {
+      teamStats[decidingPointStat]++;
+    }
+    
+    // Break of serve: receiving team wins a regular game
+    const gameWon = result.effects.some((e) => e.type === 'game_won');
+    if (gameWon && stateBefore.serving_team && stateBefore.serving_team !== team) {
+      teamStats.breaks++;
+    }
+  }
+  
+  st.deuces += result.effects.filter((e) => e.type === 'deuce').length;
+  
+  // Streaks
+  if (st.current_streak.team === team) {
+    st.current_streak.length++;
+  } else {
+    st.current_streak = { team, length: 1 };
+  }
+  if (st.current_streak.length > st.longest_streak.length) {
+    st.longest_streak = { ...st.current_streak };
+  }
+  
+  // Match win probability after the point (for the momentum chart)
+  const probability = getWinProbability(result.newState, estimatePointWinRates(st));
+  if (probability) {
+    st.win_probability = [...(st.win_probability || []), Math.round(probability.match * 1000) / 1000];
+  }
+  
+  if (annotation) tallyAnnotation(st, annotation, 1);
+  
+  return st;
+}
+
+// ============================================================
+// POINT ANNOTATIONS
+// ============================================================
+
+export const POINT_ENDINGS: PointEnding[] = ['winner', 'forced_error', 'unforced_error'];
+
+export const SHOT_TYPES: ShotType[] = [
+  'serve',
+  'return',
+  'volley',
+  'bandeja',
+  'vibora',
+  'smash',
+  'lob',
+  'drop_shot',
+  'groundstroke',
+  'off_the_glass',
+];
+
+/**
+ * Check an annotation for a point won by `team`
+ * A winner must be played by the scoring team, an error by the other team
+ */
+export function isValidPointAnnotation(annotation: PointAnnotation, team: Team): boolean {
+  if (!annotation || typeof annotation !== 'object') return false;
+  
+  const { ending, shot, player } = annotation;
+  if (ending !== undefined && !POINT_ENDINGS.includes(ending)) return false;
+  if (shot !== undefined && !SHOT_TYPES.includes(shot)) return false;
+  if (player === undefined) return true;
+  
+  if (player.team !== 'a' && player.team !== 'b') return false;
+  if (player.slot !== 1 && player.slot !== 2) return false;
+  if (ending === 'winner') return player.team === team;
+  if (ending) return player.team !== team;
+  return true;
+}
+
+/**
+ * Re-annotate an already scored point: replaces `previous` (if any) with `annotation`
+ * in the statistics. Returns new stats.
+ */
+export function annotatePoint(
+  stats: MatchStats | undefined,
+  annotation: PointAnnotation,
+  previous?: PointAnnotation | null
+): MatchStats {
+  const st: MatchStats = stats ? JSON.parse(JSON.stringify(stats)) : createMatchStats();
+  if (previous) tallyAnnotation(st, previous, -1);
+  tallyAnnotation(st, annotation, 1);
+  return st;
+}
+
+function createPlayerPointStats(): PlayerPointStats {
+  return { winners: 0, forced_errors: 0, unforced_errors: 0, shots: {} };
+}
+
+/**
+ * Add (count 1) or remove (count -1) an annotation from the named player's tally
+ * Annotations without a player are kept on the score event only
+ */
+function tallyAnnotation(st: MatchStats, annotation: PointAnnotation, count: 1 | -1): void {
+  const { ending, shot, player } = annotation;
+  if (!player) return;
+  
+  const teamStats = player.team === 'a' ? st.team_a : st.team_b;
+  if (!teamStats.players) {
+    teamStats.players = { 1: createPlayerPointStats(), 2: createPlayerPointStats() };
+  }
+  const playerStats = teamStats.players[player.slot];
+  
+  if (ending === 'winner') playerStats.winners += count;
+  if (ending === 'forced_error') playerStats.forced_errors += count;
+  if (ending === 'unforced_error') playerStats.unforced_errors += count;
+  if (shot) playerStats.shots[shot] = (playerStats.shots[shot] || 0) + count;
+}
+
+// ============================================================
+// TIME LIMIT
+// ============================================================
+
+export const TIME_LIMIT_RULES: TimeLimitRule[] = ['finish_game', 'deciding_point', 'count_games'];
+
+/**
+ * Milliseconds left on a timed match (null if untimed or not started)
+ * The clock starts with the first point
+ */
+export function getTimeRemainingMs(
+  state: { time_limit_minutes?: number | null; started_at?: string | null },
+  now: Date = new Date()
+): number | null {
+  if (!state.time_limit_minutes || !state.started_at) return null;
+  
+  const endsAt = new Date(state.started_at).getTime() + state.time_limit_minutes * 60000;
+  return Math.max(0, endsAt - now.getTime());
+}
+
+/**
+ * Check if a timed match has run out of time and the end rule has not been applied yet
+ */
+export function isTimeUp(state: MatchState, now: Date = new Date()): boolean {
+  if (state.time_expired) return false;
+  if (state.status !== 'in_progress') return false;
+  return getTimeRemainingMs(state, now) === 0;
+}
+
+/**
+ * Apply the time limit end rule
+ * count_games ends the match now; finish_game ends it now if between games,
+ * otherwise when the current game is won; deciding_point makes the next point
+ * win the current game (a match tiebreak is counted after it), then ends the match.
+ * Americano matches end on points (immediately, or after one deciding point).
+ * Side-out games can only be won by the serving team, so deciding_point
+ * plays out the current game like finish_game.
+ */
+export function expireTime(state: MatchState, env: EngineEnv = SYSTEM_ENV): ScoreResult {
+  const s: MatchState = JSON.parse(JSON.stringify(state));
+  const effects: Effect[] = [];
+  
+  if (!s.time_limit_minutes || s.time_expired) {
+    return { newState: s, effects };
+  }
+  if (isFinishedStatus(s.status)) {
+    return { newState: s, effects };
+  }
+  
+  s.time_expired = true;
+  effects.push({ type: 'time_up' });
+  
+  const format = getRuleSet(s.game_mode).format;
+  // Points format has no games to finish: anything but a deciding point ends it now
+  const betweenGames = format === 'points' || isGameUnplayed(s);
+  const finishGame = s.time_limit_rule === 'finish_game' ||
+    (s.time_limit_rule === 'deciding_point' && format === 'side_out');
+  
+  if (s.time_limit_rule === 'count_games' || (finishGame && betweenGames)) {
+    return stampCompletion(handleTimeUpFinish(s, effects), env);
+  }
+  
+  return { newState: s, effects };
+}
+
+// ============================================================
+// EARLY END
+// ============================================================
+
+export const EARLY_END_STATUSES: EarlyEndStatus[] = ['retired', 'walkover', 'defaulted'];
+
+/**
+ * Check if a match can end early with the given outcome
+ * walkover = never started (setup only), retired = a team stopped mid-match,
+ * defaulted = a team was disqualified (before or during the match)
+ */
+export function canEndEarly(state: MatchState, outcome: EarlyEndStatus): boolean {
+  if (outcome === 'walkover') return state.status === 'setup';
+  if (outcome === 'retired') return state.status === 'in_progress';
+  return !isFinishedStatus(state.status);
+}
+
+/**
+ * End a match early with a designated winner
+ * The score so far is kept as it stands; reason is free text (e.g. "injury").
+ * Returns the state unchanged, with no effects, if the outcome isn't allowed.
+ */
+export function endMatchEarly(
+  state: MatchState,
+  outcome: EarlyEndStatus,
+  winner: Team,
+  reason: string | null = null,
+  env: EngineEnv = SYSTEM_ENV
+): ScoreResult {
+  const s: MatchState = JSON.parse(JSON.stringify(state));
+  if (!canEndEarly(s, outcome)) {
+    return { newState: s, effects: [] };
+  }
+  
+  s.status = outcome;
+  s.winner = winner;
+  s.end_reason = reason?.trim() || null;
+  s.completed_at = env.now().toISOString();
+  
+  return { newState: s, effects: [{ type: 'match_won', team: winner }] };
+}
+
+// ============================================================
+// SERVE SIDE
+// ============================================================
+
+/**
+ * Get the service box the next point is served from
+ * Serve starts from the right and alternates every point, so the side follows
+ * the parity of points played in the game (or in the tiebreak - FIP rotation
+ * hands each server two points, starting from the left).
+ * Returns null when no one is serving, or on a deciding point (golden, silver
+ * or later sudden death) where the receiving pair chooses the side.
+ */
+export function getServeSide(
+  state: Pick<
+    MatchState,
+    | 'status'
+    | 'serving_team'
+    | 'is_tiebreak'
+    | 'tiebreak_scores'
+    | 'team_a_points'
+    | 'team_b_points'
+    | 'game_mode'
+    | 'deuce_count'
+  > & { americano_serve_every?: number; sudden_death_after_deuces?: number | null }
+): ServeSide | null {
+  if (!state.serving_team) return null;
+  if (isFinishedStatus(state.status)) return null;
+  
+  // Points format: side alternates within each server's run of serves
+  const rules = getRuleSet(state.game_mode);
+  if (rules.format === 'points') {
+    const played = state.team_a_points + state.team_b_points;
+    return (played % rules.pointsPerServe(state)) % 2 === 0 ? 'right' : 'left';
+  }
+  
+  // Side-out: served from the right when the serving team's score is even
+  if (rules.format === 'side_out') {
+    const servingPoints = state.serving_team === 'a' ? state.team_a_points : state.team_b_points;
+    return servingPoints % 2 === 0 ? 'right' : 'left';
+  }
+  
+  if (state.is_tiebreak) {
+    const tb = state.tiebreak_scores || { team_a: 0, team_b: 0 };
+    return (tb.team_a + tb.team_b) % 2 === 0 ? 'right' : 'left';
+  }
+  
+  // Deciding point: receivers choose which side to receive on
+  if (rules.isDecidingPoint(state)) return null;
+  
+  return (state.team_a_points + state.team_b_points) % 2 === 0 ? 'right' : 'left';
+}
+
+// ============================================================
+// AMERICANO
+// ============================================================
+
+export const AMERICANO_POINTS_OPTIONS = [16, 24, 32];
+
+// ============================================================
+// SET LENGTH
+// ============================================================
+
+export const GAMES_PER_SET_OPTIONS: GamesPerSet[] = [4, 6, 8, 9];
+
+/**
+ * Default tiebreak trigger for a set length
+ * Short/standard/8-game sets play the tiebreak at games-all (4-4, 6-6, 8-8)
+ * A 9-game pro set plays it at 8-8
+ */
+export function getDefaultTiebreakAt(gamesPerSet: GamesPerSet): number {
+  return gamesPerSet === 9 ? 8 : gamesPerSet;
+}
+
+/**
+ * Check that a tiebreak trigger makes sense for a set length
+ * Allowed: one game either side of games_per_set (e.g. 5, 6 or 7 for a 6-game set)
+ */
+export function isValidTiebreakAt(gamesPerSet: GamesPerSet, tiebreakAt: number): boolean {
+  return Number.isInteger(tiebreakAt) &&
+         tiebreakAt >= gamesPerSet - 1 &&
+         tiebreakAt <= gamesPerSet + 1;
+}
+
+// ============================================================
+// SUDDEN DEATH
+// ============================================================
+
+// Deuces played with advantage before sudden death offered in setup (null = always advantage)
+// 0 = golden point, 1 = silver point, 2 = star point (FIP trial: the third deuce decides)
+export const SUDDEN_DEATH_OPTIONS: (number | null)[] = [null, 0, 1, 2];
+
+// Deciding point stats by sudden death setting
+const SUDDEN_DEATH_STATS: Record<number, 'golden_points_won' | 'silver_points_won'> = {
+  0: 'golden_points_won',
+  1: 'silver_points_won',
+};
+
+/**
+ * Default sudden_death_after_deuces for a game mode (golden point 0, silver point 1)
+ * null for modes that always play advantage and for other formats
+ */
+export function getDefaultSuddenDeath(mode: GameMode): number | null {
+  const rules = findRuleSet(mode);
+  if (!rules || rules.format !== 'sets') return null;
+  return rules.suddenDeathAfterDeuces ?? null;
+}
+
+/**
+ * TeamStats counter for a deciding point in this state
+ * Golden / silver follow the sudden death setting; later ones (e.g. star point)
+ * aren't counted, and a variant's own deciding points use its decidingPointStat
+ */
+function getDecidingPointStat(rules: SetsRuleSet, s: GameScore): SetsRuleSet['decidingPointStat'] {
+  const after = s.sudden_death_after_deuces;
+  if (after === null || after === undefined) return rules.decidingPointStat;
+  return SUDDEN_DEATH_STATS[after];
+}
+
+// ============================================================
+// BUTTON GESTURES
+// ============================================================
+
+export const BUTTON_GESTURES: ButtonGesture[] = ['click', 'double_click', 'triple_click', 'hold'];
+
+export const GESTURE_ACTIONS: GestureAction[] = ['score', 'undo', 'start_or_end', 'start', 'switch_server', 'none'];
+
+// Used for gestures a court hasn't remapped (and always for the control panel)
+export const DEFAULT_GESTURE_MAP: Record<ButtonGesture, GestureAction> = {
+  click: 'score',
+  double_click: 'undo',
+  triple_click: 'none',
+  hold: 'start_or_end',
+};
+
+/**
+ * Check a gesture map before it is stored: known gestures mapped to known actions
+ */
+export function isValidGestureMap(map: unknown): map is GestureMap {
+  if (typeof map !== 'object' || map === null || Array.isArray(map)) return false;
+  return Object.entries(map).every(
+    ([gesture, action]) =>
+      BUTTON_GESTURES.includes(gesture as ButtonGesture) && GESTURE_ACTIONS.includes(action as GestureAction)
+  );
+}
+
+/**
+ * Full gesture map for a court: its own entries over the defaults
+ * (a missing or invalid stored map falls back to the defaults)
+ */
+export function resolveGestureMap(map: unknown): Record<ButtonGesture, GestureAction> {
+  return isValidGestureMap(map) ? { ...DEFAULT_GESTURE_MAP, ...map } : { ...DEFAULT_GESTURE_MAP };
+}
+
+// ============================================================
+// HANDICAP
+// ============================================================
+
+// Point head starts offered in setup (1 = 15-0, 2 = 30-0)
+export const HANDICAP_POINTS_OPTIONS = [0, 1, 2];
+
+/**
+ * Check that a handicap fits a match format
+ * Sets format only, and the head start can't win anything outright:
+ * at most 30-0 in a game, two games short of the set, one set short of the match
+ */
+export function isValidHandicap(
+  handicap: Handicap,
+  format: Pick<MatchState, 'game_mode' | 'games_per_set' | 'sets_to_win'>
+): boolean {
+  if (findRuleSet(format.game_mode)?.format !== 'sets') return false;
+  if (handicap.team !== 'a' && handicap.team !== 'b') return false;
+  
+  const { points, games, sets } = handicap;
+  if (![points, games, sets].every((n) => Number.isInteger(n) && n >= 0)) return false;
+  
+  return points <= HANDICAP_POINTS_OPTIONS[HANDICAP_POINTS_OPTIONS.length - 1] &&
+         games <= format.games_per_set - 2 &&
+         sets < format.sets_to_win &&
+         points + games + sets > 0;
+}
+
+/**
+ * Points and games a team starts each game and set with
+ */
+function getHeadStart(s: Pick<MatchState, 'handicap'>, team: Team): { points: number; games: number } {
+  if (!s.handicap || s.handicap.team !== team) return { points: 0, games: 0 };
+  return { points: s.handicap.points, games: s.handicap.games };
+}
+
+/**
+ * Games in the current set that were given, not played
+ */
+function getHandicapGames(s: MatchState): number {
+  return s.handicap ? s.handicap.games : 0;
+}
+
+/**
+ * Reset the game score for a new game
+ * Tiebreaks are scored separately (tiebreak_scores) and always start 0-0
+ */
+function startGame(s: MatchState): void {
+  s.team_a_points = getHeadStart(s, 'a').points;
+  s.team_b_points = getHeadStart(s, 'b').points;
+  s.deuce_count = 0;
+}
+
+/**
+ * Check if no point has been played yet in the current game or tiebreak
+ */
+function isGameUnplayed(s: MatchState): boolean {
+  const tiebreakPoints = s.tiebreak_scores
+    ? s.tiebreak_scores.team_a + s.tiebreak_scores.team_b
+    : 0;
+  
+  return s.team_a_points === getHeadStart(s, 'a').points &&
+         s.team_b_points === getHeadStart(s, 'b').points &&
+         tiebreakPoints === 0;
+}
+
+/**
+ * Sets awarded by a handicap, recorded as won to love (e.g. 6-0)
+ */
+function createHandicapSets(handicap: Handicap | null, gamesPerSet: GamesPerSet): SetScore[] {
+  if (!handicap) return [];
+  
+  const set: SetScore = handicap.team === 'a'
+    ? { team_a: gamesPerSet, team_b: 0, handicap: true }
+    : { team_a: 0, team_b: gamesPerSet, handicap: true };
+  return Array.from({ length: handicap.sets }, () => ({ ...set }));
+}
+
 // ============================================================
 // MATCH INITIALIZATION
 // ============================================================
 
+// Bump when the stored MatchState shape changes, and add a migration in validation.ts
+export const MATCH_SCHEMA_VERSION = 6;
+
 /**
  * Create initial match state
+ * Without config.serving_team the first server is drawn with env.random
  */
-export function createMatchState(config: {
-  id: string;
-  court_id: string;
-  game_mode?: GameMode;
-  sets_to_win?: 1 | 2;
-  tiebreak_at?: 6 | 7;
-  serving_team?: Team;
-  team_a_player_1?: string;
-  team_a_player_2?: string;
-  team_b_player_1?: string;
-  team_b_player_2?: string;
-}): MatchState {
+export function createMatchState(config: MatchConfig, env: EngineEnv = SYSTEM_ENV): MatchState {
+  const gamesPerSet = config.games_per_set || 6;
+  const gameMode = config.game_mode || 'golden_point';
+  const handicap = config.handicap || null;
+  const headStartA = getHeadStart({ handicap }, 'a');
+  const headStartB = getHeadStart({ handicap }, 'b');
+  const handicapSets = createHandicapSets(handicap, gamesPerSet);
+  
   return {
     id: config.id,
     court_id: config.court_id,
     version: 1,
+    schema_version: MATCH_SCHEMA_VERSION,
     
     // Configuration
-    game_mode: config.game_mode || 'golden_point',
+    game_mode: gameMode,
     sets_to_win: config.sets_to_win || 1,
-    tiebreak_at: config.tiebreak_at || 6,
+    games_per_set: gamesPerSet,
+    tiebreak_at: config.tiebreak_at || getDefaultTiebreakAt(gamesPerSet),
+    deciding_set_format: config.deciding_set_format || 'full_set',
+    match_tiebreak_points: config.match_tiebreak_points || 10,
+    time_limit_minutes: config.time_limit_minutes || null,
+    time_limit_rule: config.time_limit_rule || 'finish_game',
+    americano_points: config.americano_points || 24,
+    americano_serve_every: config.americano_serve_every || 4,
+    handicap,
+    sudden_death_after_deuces: config.sudden_death_after_deuces !== undefined
+      ? config.sudden_death_after_deuces
+      : getDefaultSuddenDeath(gameMode),
     
     // Status
     status: 'setup',
-    current_set: 1,
+    current_set: handicapSets.length + 1,
     is_tiebreak: false,
     
-    // Scores
-    team_a_points: 0,
-    team_b_points: 0,
-    team_a_games: 0,
-    team_b_games: 0,
-    set_scores: [],
+    // Scores (from the handicap head start)
+    team_a_points: headStartA.points,
+    team_b_points: headStartB.points,
+    team_a_games: headStartA.games,
+    team_b_games: headStartB.games,
+    set_scores: handicapSets,
     deuce_count: 0,
     
     // Serving
-    serving_team: config.serving_team || (Math.random() > 0.5 ? 'a' : 'b'),
+    serving_team: config.serving_team || (env.random() > 0.5 ? 'a' : 'b'),
+    team_a_server: config.team_a_server || 1,
+    team_b_server: config.team_b_server || 1,
+    // Side-out scoring: the first serving team starts on its second server (0-0-2)
+    server_number: getRuleSet(gameMode).format === 'side_out' ? 2 : 1,
+    sides_swapped: false,
     
     // Players
     team_a_player_1: config.team_a_player_1 || null,
@@ -493,13 +1384,56 @@ export function createMatchState(config: {
     
     // Result
     winner: null,
+    time_expired: false,
+    ended_by_time: false,
+    end_reason: null,
     
     // Timestamps
     started_at: null,
     completed_at: null,
+    
+    // Statistics
+    stats: createMatchStats(),
   };
 }
 
+// ============================================================
+// SERVER SELECTION
+// ============================================================
+
+/**
+ * Check if teams can still choose their first server for the current set
+ * Only allowed before the first point of the set has been played
+ * (the set may start from a handicap head start)
+ * (never for side-out scoring, where the server follows court position)
+ */
+export function canChooseServers(state: MatchState): boolean {
+  if (isFinishedStatus(state.status)) return false;
+  if (getRuleSet(state.game_mode).format === 'side_out') return false;
+  
+  return state.team_a_games === getHeadStart(state, 'a').games &&
+         state.team_b_games === getHeadStart(state, 'b').games &&
+         isGameUnplayed(state);
+}
+
+/**
+ * Choose which player serves first for each team at the start of a set
+ * Returns the state unchanged if the set is already under way
+ */
+export function chooseServers(
+  state: MatchState,
+  servers: { team_a_server?: PlayerSlot; team_b_server?: PlayerSlot }
+): MatchState {
+  const s: MatchState = JSON.parse(JSON.stringify(state));
+  
+  if (!canChooseServers(s)) return s;
+  
+  if (servers.team_a_server) s.team_a_server = servers.team_a_server;
+  if (servers.team_b_server) s.team_b_server = servers.team_b_server;
+  
+  return s;
+}
+
 // ============================================================
 // UNDO SUPPORT
 // ============================================================
@@ -511,4 +1445,93 @@ export function canUndo(currentState: MatchState, previousState: MatchState): bo
   // Can undo if match is in progress and states differ
   return currentState.status === 'in_progress' && 
          currentState.version > previousState.version;
-}
\ No newline at end of file
+}
+
+// ============================================================
+// REPLAY
+// ============================================================
+
+/**
+ * Rebuild match state from its config and ordered event log
+ * Deterministic given a config with serving_team set: each event is applied
+ * exactly as the edge functions apply it (version bump, stats update).
+ * Timestamps come from the events' `at` when provided, otherwise from env.now.
+ */
+export function replayMatch(
+  config: MatchConfig,
+  events: MatchEvent[],
+  env: EngineEnv = SYSTEM_ENV
+): MatchState {
+  let state = createMatchState(config, env);
+  
+  for (const event of events) {
+    if (event.type === 'set_servers') {
+      state = chooseServers(state, event);
+      state.version++;
+      continue;
+    }
+    
+    if (event.type === 'time_up') {
+      const expired = expireTime(state, env).newState;
+      if (event.at && !state.completed_at && expired.completed_at) expired.completed_at = event.at;
+      state = { ...expired, version: state.version + 1 };
+      continue;
+    }
+    
+    const result = applyScore(state, { type: 'point', team: event.team }, env);
+    const next = result.newState;
+    
+    if (event.at) {
+      if (!state.started_at && next.started_at) next.started_at = event.at;
+      if (!state.completed_at && next.completed_at) next.completed_at = event.at;
+    }
+    
+    next.stats = updateStats(state.stats, state, result, event.annotation);
+    next.version++;
+    state = next;
+  }
+  
+  return state;
+}
+
+// Fields that define the score; timestamps and names are not compared
+const REPLAY_FIELDS: (keyof MatchState)[] = [
+  'version',
+  'status',
+  'current_set',
+  'is_tiebreak',
+  'team_a_points',
+  'team_b_points',
+  'team_a_games',
+  'team_b_games',
+  'set_scores',
+  'tiebreak_scores',
+  'tiebreak_starting_server',
+  'deuce_count',
+  'serving_team',
+  'team_a_server',
+  'team_b_server',
+  'server_number',
+  'sides_swapped',
+  'winner',
+  'time_expired',
+  'ended_by_time',
+];
+
+/**
+ * Compare a stored state against the replayed one
+ * Returns the score fields that differ (empty when in sync)
+ */
+export function diffMatchState(expected: MatchState, actual: MatchState): StateDrift[] {
+  const drift: StateDrift[] = [];
+  
+  for (const field of REPLAY_FIELDS) {
+    const e = expected[field] ?? null;
+    const a = actual[field] ?? null;
+    if (JSON.stringify(e) !== JSON.stringify(a)) {
+      drift.push({ field, expected: e, actual: a });
+    }
+  }
+  
+  return drift;
+}
@@ -4,3 +4,7 @@
 
 export * from './types';
 export * from './engine';
+export * from './rules';
+export * from './validation';
+export * from './probability';
+export * from './notation';
@@ -0,0 +1,251 @@
+// ============================================================
+// PALAPOINT V4 - SCORING NOTATION
+// Portable text forms of a match, for import and export:
+// - point sequence: one letter per point won (A / B), '/' between sets
+// - result string: completed sets, e.g. "6-4 3-6 [10-8]" or "7-6(5) 6-2"
+// Imports are scored through the engine (createMatchState + applyScore via
+// replayMatch), so they produce the same MatchState as live scoring.
+// Time limits are not part of either notation.
+// ============================================================
+
+import {
+  MatchState,
+  MatchConfig,
+  MatchEvent,
+  SetScore,
+  Team,
+  EngineEnv,
+  NotationResult,
+  otherTeam,
+  getTeamPoints,
+} from './types';
+import { applyScore, createMatchState, replayMatch, SYSTEM_ENV } from './engine';
+import { getRuleSet } from './rules';
+
+// Rallies allowed for one game or point when building a match from a result (stops runaway loops)
+const MAX_RALLIES_PER_UNIT = 200;
+
+// ============================================================
+// POINT SEQUENCE
+// ============================================================
+
+/**
+ * Point sequence for the points of a match: games separated by spaces, sets by ' / '
+ * e.g. "AAAA BABBB ... / AABA ..."
+ */
+export function formatPointSequence(config: MatchConfig, points: Team[], env: EngineEnv = SYSTEM_ENV): string {
+  let state = createMatchState(config, env);
+  let text = '';
+
+  for (const team of points) {
+    const result = applyScore(state, { type: 'point', team }, env);
+    text += team.toUpperCase();
+
+    if (result.newState.set_scores.length > state.set_scores.length) {
+      text += ' / ';
+    } else if (result.effects.some((e) => e.type === 'game_won')) {
+      text += ' ';
+    }
+    state = result.newState;
+  }
+
+  return text.replace(/[ /]+$/, '');
+}
+
+/**
+ * Score a point sequence from the start of a match
+ * Letters are case-insensitive and whitespace is ignored; a '/' is optional but,
+ * when present, must come straight after the point that finished a set
+ */
+export function parsePointSequence(config: MatchConfig, text: string, env: EngineEnv = SYSTEM_ENV): NotationResult {
+  const events: MatchEvent[] = [];
+  let state = createMatchState(config, env);
+  let setEnded = false;
+
+  for (const char of text.replace(/\s+/g, '')) {
+    if (char === '/') {
+      if (!setEnded) return { state: null, error: `'/' after point ${events.length} does not end a set` };
+      setEnded = false;
+      continue;
+    }
+
+    const team = char.toLowerCase();
+    if (team !== 'a' && team !== 'b') return { state: null, error: `Unexpected '${char}' in point sequence` };
+    if (state.status === 'completed') return { state: null, error: `Point ${events.length + 1} is after the end of the match` };
+
+    const next = applyScore(state, { type: 'point', team }, env).newState;
+    setEnded = next.set_scores.length > state.set_scores.length;
+    state = next;
+    events.push({ type: 'point', team });
+  }
+
+  return { state: replayMatch(config, events, env), error: null };
+}
+
+// ============================================================
+// RESULT STRING
+// ============================================================
+
+/**
+ * Result string for the completed sets (games in pickleball, final points in Americano)
+ * Sets given by a handicap are left out; a 7-6 set shows the tiebreak loser's points
+ */
+export function formatResult(setScores: SetScore[]): string {
+  return setScores
+    .filter((set) => !set.handicap)
+    .map((set) => {
+      if (set.match_tiebreak) return `[${set.team_a}-${set.team_b}]`;
+      if (set.tiebreak) return `${set.team_a}-${set.team_b}(${Math.min(set.tiebreak.team_a, set.tiebreak.team_b)})`;
+      return `${set.team_a}-${set.team_b}`;
+    })
+    .join(' ');
+}
+
+interface ResultToken {
+  a: number;
+  b: number;
+  tiebreakLoser: number | null;  // "(5)" on a 7-6 set
+  matchTiebreak: boolean;        // "[10-8]"
+}
+
+const RESULT_TOKEN = /^(\[)?(\d+)-(\d+)(?:\((\d+)\))?(\])?$/;
+
+/**
+ * Build a match that ends with the given result string
+ * Each game and tiebreak is played out point by point, so the set scores are
+ * exact but the points inside them are made up.
+ * A 7-6 set without "(n)" is taken as a 7-0 tiebreak.
+ */
+export function parseResult(config: MatchConfig, text: string, env: EngineEnv = SYSTEM_ENV): NotationResult {
+  const tokens: ResultToken[] = [];
+  for (const part of text.trim().split(/\s+/).filter(Boolean)) {
+    const match = RESULT_TOKEN.exec(part);
+    if (!match || !!match[1] !== !!match[5] || (match[1] && match[4])) {
+      return { state: null, error: `Unexpected '${part}' in result` };
+    }
+    tokens.push({
+      a: Number(match[2]),
+      b: Number(match[3]),
+      tiebreakLoser: match[4] !== undefined ? Number(match[4]) : null,
+      matchTiebreak: !!match[1],
+    });
+  }
+  if (tokens.length === 0) return { state: null, error: 'Empty result' };
+
+  const rallies: Team[] = [];
+  let state = createMatchState(config, env);
+
+  for (const token of tokens) {
+    if (state.status === 'completed') return { state: null, error: 'Result has more sets than the match' };
+    state = playSet(state, token, rallies, env);
+  }
+
+  const replayed = replayMatch(config, rallies.map((team): MatchEvent => ({ type: 'point', team })), env);
+  const played = replayed.set_scores.filter((set) => !set.handicap);
+  if (played.length !== tokens.length || !tokens.every((token, i) => matchesToken(played[i], token))) {
+    return { state: null, error: `Result '${text.trim()}' does not fit the match format` };
+  }
+
+  return { state: replayed, error: null };
+}
+
+function matchesToken(set: SetScore, token: ResultToken): boolean {
+  if (set.team_a !== token.a || set.team_b !== token.b) return false;
+  if (!!set.match_tiebreak !== token.matchTiebreak) return false;
+  if (token.tiebreakLoser === null) return true;
+  return !!set.tiebreak && Math.min(set.tiebreak.team_a, set.tiebreak.team_b) === token.tiebreakLoser;
+}
+
+/**
+ * Play one result token from the current state, adding its rallies
+ */
+function playSet(state: MatchState, token: ResultToken, rallies: Team[], env: EngineEnv): MatchState {
+  const rules = getRuleSet(state.game_mode);
+  const target = { a: token.a, b: token.b };
+  const loser: Team = token.a >= token.b ? 'b' : 'a';
+
+  // Points format and match tiebreaks: the token is the points
+  if (rules.format !== 'sets' || token.matchTiebreak) {
+    const from = { a: getTeamScore(state, 'a'), b: getTeamScore(state, 'b') };
+    return playTo(state, from, target, loser, rallies, env);
+  }
+
+  // Games (head start games are already on the board)
+  let s = playTo(state, { a: state.team_a_games, b: state.team_b_games }, target, loser, rallies, env);
+
+  // Tiebreak decides the set: to 7, or 2 clear of the loser's points
+  if (s.is_tiebreak && s.set_scores.length === state.set_scores.length) {
+    const tiebreakLoser = token.tiebreakLoser ?? 0;
+    const tiebreakTarget = { a: tiebreakLoser, b: tiebreakLoser };
+    tiebreakTarget[otherTeam(loser)] = Math.max(7, tiebreakLoser + 2);
+    s = playTo(s, { a: 0, b: 0 }, tiebreakTarget, loser, rallies, env);
+  }
+
+  return s;
+}
+
+/**
+ * Play games or points from one score to another, always giving the next one to the
+ * team that is behind (the loser when level), so nobody wins the set early, also
+ * with head start games or a long tiebreak. Stops when the set ends or a tiebreak starts.
+ */
+function playTo(
+  state: MatchState,
+  from: Record<Team, number>,
+  to: Record<Team, number>,
+  loser: Team,
+  rallies: Team[],
+  env: EngineEnv
+): MatchState {
+  const winner = otherTeam(loser);
+  const setsBefore = state.set_scores.length;
+  const wasTiebreak = state.is_tiebreak;
+  const score = { ...from };
+  let s = state;
+
+  while (score.a < to.a || score.b < to.b) {
+    if (s.set_scores.length > setsBefore || s.status === 'completed' || s.is_tiebreak !== wasTiebreak) break;
+
+    const loserNext = score[loser] < to[loser] && (score[loser] <= score[winner] || score[winner] >= to[winner]);
+    const team = loserNext ? loser : winner;
+    s = playUnit(s, team, rallies, env);
+    score[team]++;
+  }
+  return s;
+}
+
+/**
+ * Rallies for `team` until it wins a game (sets format), a tiebreak point or a point
+ * (serve may change hands first in side-out scoring)
+ */
+function playUnit(state: MatchState, team: Team, rallies: Team[], env: EngineEnv): MatchState {
+  const rules = getRuleSet(state.game_mode);
+  let s = state;
+
+  for (let i = 0; i < MAX_RALLIES_PER_UNIT && s.status !== 'completed'; i++) {
+    const result = applyScore(s, { type: 'point', team }, env);
+    rallies.push(team);
+    const before = s;
+    s = result.newState;
+
+    if (rules.format === 'sets' && !before.is_tiebreak) {
+      if (result.effects.some((e) => e.type === 'game_won')) break;
+    } else if (rules.format === 'side_out') {
+      if (s.set_scores.length > before.set_scores.length || getTeamPoints(s, team) > getTeamPoints(before, team)) break;
+    } else {
+      break;
+    }
+  }
+
+  return s;
+}
+
+/**
+ * Points a team has in the current tiebreak, game or points-format match
+ */
+function getTeamScore(state: MatchState, team: Team): number {
+  if (state.is_tiebreak && state.tiebreak_scores) {
+    return team === 'a' ? state.tiebreak_scores.team_a : state.tiebreak_scores.team_b;
+  }
+  return state.is_tiebreak ? 0 : getTeamPoints(state, team);
+}
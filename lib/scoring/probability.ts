@@ -0,0 +1,383 @@
+// ============================================================
+// PALAPOINT V4 - WIN PROBABILITY
+// Markov chain model of the rest of a match from its current score.
+// Every point is independent and won by the serving team at a fixed
+// rate per team; time limits are not modelled (the match is assumed
+// to be played out).
+// ============================================================
+
+import {
+  MatchState,
+  MatchStats,
+  GameScore,
+  SetsRuleSet,
+  PointsRuleSet,
+  SideOutRuleSet,
+  PointWinRates,
+  WinProbability,
+  Team,
+  otherTeam,
+  isFinishedStatus,
+} from './types';
+import { findRuleSet } from './rules';
+
+// Points at 50% the estimate starts from, so a few points don't swing it to 0 or 1
+const PRIOR_POINTS = 8;
+
+// A game or tiebreak this long is scored as level, win by 2 (stops the recursion)
+const MAX_RALLY_POINTS = 60;
+
+// Chance of each (set winner, first server of the next set) pair, keyed e.g. 'ab'
+type SetOutcomes = Record<string, number>;
+
+// ============================================================
+// POINT-WIN RATES
+// ============================================================
+
+/**
+ * Each team's chance of winning a point on its own serve, from the points
+ * played so far (no stats = even)
+ */
+export function estimatePointWinRates(stats?: MatchStats | null): PointWinRates {
+  if (!stats) return { a: 0.5, b: 0.5 };
+
+  const rate = (won: number, lost: number) => (won + PRIOR_POINTS / 2) / (won + lost + PRIOR_POINTS);
+  return {
+    a: rate(stats.team_a.service_points_won, stats.team_b.return_points_won),
+    b: rate(stats.team_b.service_points_won, stats.team_a.return_points_won),
+  };
+}
+
+// ============================================================
+// WIN PROBABILITY
+// ============================================================
+
+/**
+ * Team A's chance of winning the current game, set and match
+ * A finished match (also one retired, walked over or defaulted) is certain;
+ * null for an abandoned match or an unregistered game mode
+ */
+export function getWinProbability(state: MatchState, rates: PointWinRates): WinProbability | null {
+  if (state.status === 'abandoned') return null;
+
+  const rules = findRuleSet(state.game_mode);
+  if (!rules) return null;
+
+  if (isFinishedStatus(state.status)) {
+    const won = state.winner === 'a' ? 1 : 0;
+    return { game: won, set: won, match: won, draw: state.winner ? 0 : 1 };
+  }
+
+  if (rules.format === 'points') return rallyWinProbability(state, rules, rates);
+  if (rules.format === 'side_out') return sideOutWinProbability(state, rules, rates);
+  return setsWinProbability(state, rules, rates);
+}
+
+/**
+ * Team A's chance of winning a point served by `server`
+ */
+function pointChance(rates: PointWinRates, server: Team): number {
+  return server === 'a' ? rates.a : 1 - rates.b;
+}
+
+/**
+ * Chance of winning from level when two clear points are needed
+ * (average of both teams' serves, used once a rally battle runs past MAX_RALLY_POINTS)
+ */
+function levelWinByTwo(rates: PointWinRates): number {
+  const p = (pointChance(rates, 'a') + pointChance(rates, 'b')) / 2;
+  return (p * p) / (p * p + (1 - p) * (1 - p));
+}
+
+// ============================================================
+// POINTS FORMAT (e.g. Americano)
+// ============================================================
+
+function rallyWinProbability(s: MatchState, rules: PointsRuleSet, rates: PointWinRates): WinProbability {
+  const every = rules.pointsPerServe(s);
+  const playedNow = s.team_a_points + s.team_b_points;
+  const firstServer = s.serving_team || 'a';
+  const memo = new Map<string, [number, number]>();
+
+  // Service passes to the other team every `every` points
+  const serverAfter = (played: number): Team =>
+    (Math.floor(played / every) - Math.floor(playedNow / every)) % 2 === 0 ? firstServer : otherTeam(firstServer);
+
+  // [Team A wins, draw] from a + b points
+  const play = (a: number, b: number): [number, number] => {
+    if (rules.isMatchOver({ ...s, team_a_points: a, team_b_points: b })) {
+      return a > b ? [1, 0] : a === b ? [0, 1] : [0, 0];
+    }
+
+    const key = `${a}-${b}`;
+    const cached = memo.get(key);
+    if (cached) return cached;
+
+    const p = pointChance(rates, serverAfter(a + b));
+    const [winA, drawA] = play(a + 1, b);
+    const [winB, drawB] = play(a, b + 1);
+    const result: [number, number] = [p * winA + (1 - p) * winB, p * drawA + (1 - p) * drawB];
+    memo.set(key, result);
+    return result;
+  };
+
+  const [match, draw] = play(s.team_a_points, s.team_b_points);
+  return { game: match, set: match, match, draw };
+}
+
+// ============================================================
+// SIDE-OUT FORMAT (e.g. pickleball)
+// ============================================================
+
+// Service turns in rotation order: each team's first then second server
+const SERVICE_TURNS: [Team, 1 | 2][] = [['a', 1], ['a', 2], ['b', 1], ['b', 2]];
+
+function serviceTurn(team: Team, serverNumber: 1 | 2): number {
+  return SERVICE_TURNS.findIndex(([t, n]) => t === team && n === serverNumber);
+}
+
+function sideOutWinProbability(s: MatchState, rules: SideOutRuleSet, rates: PointWinRates): WinProbability {
+  const target = rules.pointsToWinGame;
+  const gameMemo = new Map<string, number>();
+  const matchMemo = new Map<string, number>();
+
+  /**
+   * Team A's chance of winning the game at a-b with service turn `turn` to play
+   * Lost rallies only move serve round the four turns, so the value solves
+   * V = sum over the turns of (chance of reaching the turn) x (its server scores next)
+   */
+  const game = (a: number, b: number, turn: number): number => {
+    if (a + b > MAX_RALLY_POINTS) return levelWinByTwo(rates);
+
+    const key = `${a}-${b}-${turn}`;
+    const cached = gameMemo.get(key);
+    if (cached !== undefined) return cached;
+
+    let value = 0;
+    let reach = 1;
+    for (let i = 0; i < SERVICE_TURNS.length; i++) {
+      const t = (turn + i) % SERVICE_TURNS.length;
+      const server = SERVICE_TURNS[t][0];
+      const p = server === 'a' ? rates.a : rates.b;
+      const nextA = server === 'a' ? a + 1 : a;
+      const nextB = server === 'b' ? b + 1 : b;
+      const scorer = server === 'a' ? nextA : nextB;
+      const other = server === 'a' ? nextB : nextA;
+      const afterPoint = scorer >= target && scorer - other >= 2
+        ? (server === 'a' ? 1 : 0)
+        : game(nextA, nextB, t);
+
+      value += reach * p * afterPoint;
+      reach *= 1 - p;
+    }
+    value /= 1 - reach;
+
+    gameMemo.set(key, value);
+    return value;
+  };
+
+  // Team A's chance of winning the match with the given games won, `server` opening the next game (0-0-2)
+  const match = (gamesA: number, gamesB: number, server: Team): number => {
+    if (rules.isMatchOver(s, { a: gamesA, b: gamesB })) return gamesA > gamesB ? 1 : 0;
+
+    const key = `${gamesA}-${gamesB}-${server}`;
+    const cached = matchMemo.get(key);
+    if (cached !== undefined) return cached;
+
+    const p = game(0, 0, serviceTurn(server, 2));
+    // The loser of a game serves first in the next one
+    const value = p * match(gamesA + 1, gamesB, 'b') + (1 - p) * match(gamesA, gamesB + 1, 'a');
+    matchMemo.set(key, value);
+    return value;
+  };
+
+  const gamesWon = countSetsWon(s);
+  const current = game(s.team_a_points, s.team_b_points, serviceTurn(s.serving_team || 'a', s.server_number));
+  const matchChance = current * match(gamesWon.a + 1, gamesWon.b, 'b') +
+    (1 - current) * match(gamesWon.a, gamesWon.b + 1, 'a');
+
+  return { game: current, set: current, match: matchChance, draw: 0 };
+}
+
+// ============================================================
+// SETS FORMAT (padel)
+// ============================================================
+
+function setsWinProbability(s: MatchState, rules: SetsRuleSet, rates: PointWinRates): WinProbability {
+  const headStart = (team: Team) =>
+    s.handicap && s.handicap.team === team ? s.handicap : { points: 0, games: 0 };
+  const startScore: GameScore = {
+    team_a_points: headStart('a').points,
+    team_b_points: headStart('b').points,
+    deuce_count: 0,
+    sudden_death_after_deuces: s.sudden_death_after_deuces,
+  };
+
+  const gameMemo = new Map<string, number>();
+  const tiebreakMemo = new Map<string, number>();
+  const setMemo = new Map<string, SetOutcomes>();
+  const matchMemo = new Map<string, number>();
+
+  // Team A's chance of winning a game from `score` with `server` serving
+  const game = (score: GameScore, server: Team): number => {
+    const points = score.team_a_points + score.team_b_points;
+    const p = pointChance(rates, server);
+    if (rules.isDecidingPoint(score)) return p;
+    if (points > MAX_RALLY_POINTS) return levelWinByTwo(rates);
+
+    const key = `${score.team_a_points}-${score.team_b_points}-${score.deuce_count}-${server}`;
+    const cached = gameMemo.get(key);
+    if (cached !== undefined) return cached;
+
+    const after = (team: Team): number => {
+      const next: GameScore = {
+        team_a_points: score.team_a_points + (team === 'a' ? 1 : 0),
+        team_b_points: score.team_b_points + (team === 'b' ? 1 : 0),
+        deuce_count: score.deuce_count,
+        sudden_death_after_deuces: score.sudden_death_after_deuces,
+      };
+      const winner = rules.gameWinner(next);
+      if (winner) return winner === 'a' ? 1 : 0;
+      if (rules.pointLabels(next).is_deuce) next.deuce_count++;
+      return game(next, server);
+    };
+
+    const value = p * after('a') + (1 - p) * after('b');
+    gameMemo.set(key, value);
+    return value;
+  };
+
+  // Team A's chance of winning a tiebreak to `target` from a-b (FIP serve order from `start`)
+  const tiebreak = (a: number, b: number, target: number, start: Team): number => {
+    if (a >= target && a - b >= 2) return 1;
+    if (b >= target && b - a >= 2) return 0;
+    if (a + b > MAX_RALLY_POINTS) return levelWinByTwo(rates);
+
+    const key = `${a}-${b}-${target}-${start}`;
+    const cached = tiebreakMemo.get(key);
+    if (cached !== undefined) return cached;
+
+    const played = a + b;
+    const server = played === 0 || Math.floor((played - 1) / 2) % 2 === 1 ? start : otherTeam(start);
+    const p = pointChance(rates, server);
+    const value = p * tiebreak(a + 1, b, target, start) + (1 - p) * tiebreak(a, b + 1, target, start);
+    tiebreakMemo.set(key, value);
+    return value;
+  };
+
+  const addOutcome = (into: SetOutcomes, winner: Team, nextServer: Team, p: number) => {
+    into[winner + nextServer] = (into[winner + nextServer] || 0) + p;
+  };
+
+  /**
+   * Set outcomes once the game at gamesA-gamesB, served by `server`, is decided
+   * (Team A wins it with chance pGame)
+   */
+  const afterGame = (gamesA: number, gamesB: number, server: Team, pGame: number): SetOutcomes => {
+    const outcomes: SetOutcomes = {};
+    const next = otherTeam(server);
+
+    for (const [team, p] of [['a', pGame], ['b', 1 - pGame]] as [Team, number][]) {
+      const a = gamesA + (team === 'a' ? 1 : 0);
+      const b = gamesB + (team === 'b' ? 1 : 0);
+
+      if (a === s.tiebreak_at && b === s.tiebreak_at) {
+        // Team that received first in the tiebreak serves first in the next set
+        const pTiebreak = tiebreak(0, 0, 7, next);
+        addOutcome(outcomes, 'a', server, p * pTiebreak);
+        addOutcome(outcomes, 'b', server, p * (1 - pTiebreak));
+        continue;
+      }
+
+      const winner = rules.setWinner({ ...s, team_a_games: a, team_b_games: b });
+      if (winner) {
+        addOutcome(outcomes, winner, next, p);
+        continue;
+      }
+
+      const rest = set(a, b, next);
+      for (const key of Object.keys(rest)) {
+        addOutcome(outcomes, key[0] as Team, key[1] as Team, p * rest[key]);
+      }
+    }
+    return outcomes;
+  };
+
+  // Set outcomes from the start of a game at gamesA-gamesB
+  const set = (gamesA: number, gamesB: number, server: Team): SetOutcomes => {
+    const key = `${gamesA}-${gamesB}-${server}`;
+    const cached = setMemo.get(key);
+    if (cached) return cached;
+
+    const outcomes = afterGame(gamesA, gamesB, server, game(startScore, server));
+    setMemo.set(key, outcomes);
+    return outcomes;
+  };
+
+  const isDecidingSet = (setsA: number, setsB: number) =>
+    s.sets_to_win > 1 && setsA === s.sets_to_win - 1 && setsB === s.sets_to_win - 1;
+
+  // Team A's chance of winning the match from the start of a set
+  const match = (setsA: number, setsB: number, server: Team): number => {
+    if (rules.isMatchOver(s, { a: setsA, b: setsB })) return setsA > setsB ? 1 : 0;
+
+    const key = `${setsA}-${setsB}-${server}`;
+    const cached = matchMemo.get(key);
+    if (cached !== undefined) return cached;
+
+    let value: number;
+    if (s.deciding_set_format === 'match_tiebreak' && isDecidingSet(setsA, setsB)) {
+      value = tiebreak(0, 0, s.match_tiebreak_points, server);
+    } else {
+      value = fromSetOutcomes(set(headStart('a').games, headStart('b').games, server), setsA, setsB);
+    }
+    matchMemo.set(key, value);
+    return value;
+  };
+
+  const fromSetOutcomes = (outcomes: SetOutcomes, setsA: number, setsB: number): number =>
+    Object.keys(outcomes).reduce((sum, key) => {
+      const winner = key[0] as Team;
+      const next = key[1] as Team;
+      return sum + outcomes[key] * match(setsA + (winner === 'a' ? 1 : 0), setsB + (winner === 'b' ? 1 : 0), next);
+    }, 0);
+
+  // Current game, set and match
+  const setsWon = countSetsWon(s);
+  const server = s.serving_team || 'a';
+  const setChance = (outcomes: SetOutcomes) => (outcomes.aa || 0) + (outcomes.ab || 0);
+
+  if (s.is_tiebreak) {
+    const start = s.tiebreak_starting_server || server;
+    const tb = s.tiebreak_scores || { team_a: 0, team_b: 0 };
+
+    if (s.deciding_set_format === 'match_tiebreak' && isDecidingSet(setsWon.a, setsWon.b)) {
+      const chance = tiebreak(tb.team_a, tb.team_b, s.match_tiebreak_points, start);
+      return { game: chance, set: chance, match: chance, draw: 0 };
+    }
+
+    const chance = tiebreak(tb.team_a, tb.team_b, 7, start);
+    const outcomes: SetOutcomes = {};
+    addOutcome(outcomes, 'a', otherTeam(start), chance);
+    addOutcome(outcomes, 'b', otherTeam(start), 1 - chance);
+    return { game: chance, set: chance, match: fromSetOutcomes(outcomes, setsWon.a, setsWon.b), draw: 0 };
+  }
+
+  const gameChance = game(s, server);
+  const outcomes = afterGame(s.team_a_games, s.team_b_games, server, gameChance);
+  return {
+    game: gameChance,
+    set: setChance(outcomes),
+    match: fromSetOutcomes(outcomes, setsWon.a, setsWon.b),
+    draw: 0,
+  };
+}
+
+function countSetsWon(s: MatchState): { a: number; b: number } {
+  const won = { a: 0, b: 0 };
+  for (const set of s.set_scores) {
+    if (set.team_a > set.team_b) won.a++;
+    else if (set.team_b > set.team_a) won.b++;
+  }
+  return won;
+}
@@ -0,0 +1,368 @@
+// ============================================================
+// PALAPOINT V4 - MATCH SIMULATOR
+// Seeded random matches for fuzzing the scoring engine
+// ============================================================
+
+import {
+  MatchState,
+  MatchConfig,
+  EngineEnv,
+  Handicap,
+  GameMode,
+  Team,
+  otherTeam,
+} from './types';
+import {
+  applyScore,
+  createMatchState,
+  expireTime,
+  isTimeUp,
+  GAMES_PER_SET_OPTIONS,
+  TIME_LIMIT_RULES,
+  AMERICANO_POINTS_OPTIONS,
+  HANDICAP_POINTS_OPTIONS,
+  getDefaultTiebreakAt,
+  isValidTiebreakAt,
+  isValidHandicap,
+} from './engine';
+import { getRuleSet } from './rules';
+import { validateMatchState } from './validation';
+
+const GAME_MODES: GameMode[] = ['traditional', 'golden_point', 'silver_point', 'americano', 'pickleball'];
+
+// Hard stop for a runaway match (a bug, not a long deuce battle)
+const MAX_POINTS_PER_MATCH = 2000;
+
+export interface SimulationResult {
+  seed: number;
+  config: MatchConfig;
+  state: MatchState;  // Final state
+  points: number;     // Points played
+  violations: string[];
+}
+
+export interface FuzzSummary {
+  matches: number;
+  points: number;
+  failures: SimulationResult[];
+}
+
+// ============================================================
+// SEEDED RANDOM + CLOCK
+// ============================================================
+
+/**
+ * Deterministic random number generator (mulberry32)
+ * Same seed = same sequence, uniform in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Clock that only moves when told to
+ */
+export function createManualClock(start: Date): { now: () => Date; advance: (ms: number) => void } {
+  let time = start.getTime();
+  return {
+    now: () => new Date(time),
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+function pick<T>(random: () => number, options: readonly T[]): T {
+  return options[Math.floor(random() * options.length)];
+}
+
+// ============================================================
+// RANDOM CONFIG
+// ============================================================
+
+/**
+ * Draw a match format: any game mode, set count, set length,
+ * tiebreak trigger, deciding set format and (sometimes) a time limit and handicap
+ */
+export function randomMatchConfig(random: () => number, id: string): MatchConfig {
+  const gameMode = pick(random, GAME_MODES);
+  const setsToWin = random() < 0.5 ? 1 : 2;
+  const gamesPerSet = pick(random, GAMES_PER_SET_OPTIONS);
+  const defaultTiebreakAt = getDefaultTiebreakAt(gamesPerSet);
+  const timed = random() < 0.25;
+
+  return {
+    id,
+    court_id: 'sim-court',
+    game_mode: gameMode,
+    sets_to_win: setsToWin,
+    games_per_set: gamesPerSet,
+    tiebreak_at: pick(
+      random,
+      [defaultTiebreakAt - 1, defaultTiebreakAt, defaultTiebreakAt + 1].filter((n) => isValidTiebreakAt(gamesPerSet, n))
+    ),
+    deciding_set_format: random() < 0.5 ? 'full_set' : 'match_tiebreak',
+    match_tiebreak_points: pick(random, [7, 10, 15]),
+    time_limit_minutes: timed ? pick(random, [20, 45, 60]) : null,
+    time_limit_rule: pick(random, TIME_LIMIT_RULES),
+    americano_points: pick(random, AMERICANO_POINTS_OPTIONS),
+    americano_serve_every: pick(random, [1, 2, 4]),
+    handicap: random() < 0.2
+      ? randomHandicap(random, { game_mode: gameMode, games_per_set: gamesPerSet, sets_to_win: setsToWin })
+      : null,
+    serving_team: random() < 0.5 ? 'a' : 'b',
+    team_a_server: random() < 0.5 ? 1 : 2,
+    team_b_server: random() < 0.5 ? 1 : 2,
+  };
+}
+
+/**
+ * Draw a head start for either team (null if it doesn't fit the format)
+ */
+function randomHandicap(
+  random: () => number,
+  format: Pick<MatchState, 'game_mode' | 'games_per_set' | 'sets_to_win'>
+): Handicap | null {
+  const handicap: Handicap = {
+    team: random() < 0.5 ? 'a' : 'b',
+    points: pick(random, HANDICAP_POINTS_OPTIONS),
+    games: Math.floor(random() * (format.games_per_set - 1)),
+    sets: Math.floor(random() * format.sets_to_win),
+  };
+  return isValidHandicap(handicap, format) ? handicap : null;
+}
+
+// ============================================================
+// SIMULATION
+// ============================================================
+
+/**
+ * Play one random match point by point through applyScore,
+ * checking invariants after every point
+ */
+export function simulateMatch(seed: number, config?: MatchConfig): SimulationResult {
+  const random = createSeededRandom(seed);
+  const clock = createManualClock(new Date('2026-01-01T10:00:00.000Z'));
+  const env: EngineEnv = { now: clock.now, random };
+
+  const matchConfig = config || randomMatchConfig(random, `sim-${seed}`);
+  // How much stronger team A is in this match
+  const teamAWinChance = 0.3 + random() * 0.4;
+
+  let state = createMatchState(matchConfig, env);
+  const violations: string[] = [];
+  let points = 0;
+
+  while (state.status !== 'completed' && points < MAX_POINTS_PER_MATCH) {
+    clock.advance(15000 + Math.floor(random() * 45000));
+
+    if (isTimeUp(state, clock.now())) {
+      const prev = state;
+      state = expireTime(state, env).newState;
+      violations.push(...checkInvariants(state, prev).map((v) => `after time up: ${v}`));
+      continue;
+    }
+
+    const team: Team = random() < teamAWinChance ? 'a' : 'b';
+    const prev = state;
+    state = applyScore(state, { type: 'point', team }, env).newState;
+    points++;
+
+    violations.push(...checkInvariants(state, prev).map((v) => `point ${points}: ${v}`));
+    if (violations.length > 0) break;
+  }
+
+  if (state.status !== 'completed') {
+    violations.push(`match not finished after ${points} points`);
+  } else {
+    // A finished match takes no more points
+    const after = applyScore(state, { type: 'point', team: 'a' }, env);
+    if (JSON.stringify(after.newState) !== JSON.stringify(state) || after.effects.length > 0) {
+      violations.push('point scored after match completed');
+    }
+  }
+
+  return { seed, config: matchConfig, state, points, violations };
+}
+
+/**
+ * Simulate `count` matches with consecutive seeds
+ */
+export function fuzzMatches(seed: number, count: number): FuzzSummary {
+  const failures: SimulationResult[] = [];
+  let points = 0;
+
+  for (let i = 0; i < count; i++) {
+    const result = simulateMatch(seed + i);
+    points += result.points;
+    if (result.violations.length > 0) failures.push(result);
+  }
+
+  return { matches: count, points, failures };
+}
+
+// ============================================================
+// INVARIANTS
+// ============================================================
+
+/**
+ * Check a state reached from `prev` against the scoring invariants
+ * (including everything validateMatchState checks)
+ * Returns a description of each broken invariant (empty when valid)
+ */
+export function checkInvariants(state: MatchState, prev?: MatchState): string[] {
+  const violations: string[] = validateMatchState(state).map((issue) => `${issue.field}: ${issue.message}`);
+
+  // Scores never negative
+  const counters: [string, number][] = [
+    ['team_a_points', state.team_a_points],
+    ['team_b_points', state.team_b_points],
+    ['team_a_games', state.team_a_games],
+    ['team_b_games', state.team_b_games],
+    ['deuce_count', state.deuce_count],
+  ];
+  if (state.tiebreak_scores) {
+    counters.push(['tiebreak team_a', state.tiebreak_scores.team_a]);
+    counters.push(['tiebreak team_b', state.tiebreak_scores.team_b]);
+  }
+  for (const [name, value] of counters) {
+    if (!Number.isInteger(value) || value < 0) violations.push(`${name} is ${value}`);
+  }
+
+  if (prev && prev.status === 'completed' && JSON.stringify(prev) !== JSON.stringify(state)) {
+    violations.push('state changed after completion');
+  }
+
+  if (state.status === 'in_progress' && !state.serving_team) {
+    violations.push('no serving team during play');
+  }
+
+  if (state.game_mode === 'americano') {
+    violations.push(...checkAmericano(state));
+  } else {
+    violations.push(...checkSets(state));
+    violations.push(...checkTiebreak(state));
+  }
+
+  return violations;
+}
+
+function checkAmericano(state: MatchState): string[] {
+  const violations: string[] = [];
+  const played = state.team_a_points + state.team_b_points;
+
+  if (played > state.americano_points) {
+    violations.push(`${played} points played of ${state.americano_points}`);
+  }
+
+  if (state.status === 'completed') {
+    const leader: Team | null = state.team_a_points === state.team_b_points
+      ? null
+      : state.team_a_points > state.team_b_points ? 'a' : 'b';
+    if (state.winner !== leader) violations.push(`winner ${state.winner} but points leader ${leader}`);
+    if (state.set_scores.length !== 1) violations.push(`${state.set_scores.length} set scores recorded`);
+  } else if (state.winner !== null) {
+    violations.push('winner set before completion');
+  }
+
+  return violations;
+}
+
+function checkSets(state: MatchState): string[] {
+  const violations: string[] = [];
+  const setsWon = { a: 0, b: 0 };
+  const rules = getRuleSet(state.game_mode);
+
+  state.set_scores.forEach((set, i) => {
+    const isLast = i === state.set_scores.length - 1;
+    // A time-limit deciding point can end the final set's tiebreak early
+    const timeCut = isLast && state.ended_by_time;
+    const w = Math.max(set.team_a, set.team_b);
+    const l = Math.min(set.team_a, set.team_b);
+
+    if (set.team_a === set.team_b) {
+      violations.push(`set ${i + 1} level at ${set.team_a}-${set.team_b}`);
+      return;
+    }
+    setsWon[set.team_a > set.team_b ? 'a' : 'b']++;
+
+    // Side-out scoring records games: to pointsToWinGame, win by 2
+    if (rules.format === 'side_out') {
+      const target = rules.pointsToWinGame;
+      if (!timeCut && (w < target || w - l < 2 || (w > target && w - l !== 2))) {
+        violations.push(`invalid game ${set.team_a}-${set.team_b}`);
+      }
+      return;
+    }
+
+    if (set.match_tiebreak) {
+      if (!timeCut && (w < state.match_tiebreak_points || w - l < 2 || (w > state.match_tiebreak_points && w - l !== 2))) {
+        violations.push(`invalid match tiebreak ${set.team_a}-${set.team_b}`);
+      }
+      return;
+    }
+
+    const tiebreakSet = w === state.tiebreak_at + 1 && l === state.tiebreak_at;
+    const regularSet = w >= state.games_per_set && w - l >= 2 && (w === state.games_per_set || w - l === 2);
+    if (!tiebreakSet && !regularSet) {
+      violations.push(`invalid set ${set.team_a}-${set.team_b}`);
+    }
+  });
+
+  const maxSets = state.sets_to_win * 2 - 1;
+  if (state.set_scores.length > maxSets) {
+    violations.push(`${state.set_scores.length} sets played, best of ${maxSets}`);
+  }
+
+  if (state.status === 'completed' && !state.ended_by_time) {
+    if (!state.winner) {
+      violations.push('completed without a winner');
+    } else {
+      if (setsWon[state.winner] !== state.sets_to_win) {
+        violations.push(`winner ${state.winner} has ${setsWon[state.winner]} sets`);
+      }
+      if (setsWon[otherTeam(state.winner)] >= state.sets_to_win) {
+        violations.push('both teams won the match');
+      }
+    }
+  } else if (state.status === 'completed' && state.winner) {
+    if (setsWon[state.winner] < setsWon[otherTeam(state.winner)]) {
+      violations.push(`time-limit winner ${state.winner} is behind on sets`);
+    }
+  } else if (state.status !== 'completed') {
+    if (state.winner !== null) violations.push('winner set before completion');
+    if (setsWon.a >= state.sets_to_win || setsWon.b >= state.sets_to_win) {
+      violations.push('match still running after a team won enough sets');
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * During a tiebreak the server follows the FIP pattern 1, 2, 2, 2...
+ * from tiebreak_starting_server
+ */
+function checkTiebreak(state: MatchState): string[] {
+  if (!state.is_tiebreak || state.status !== 'in_progress') return [];
+
+  if (!state.tiebreak_scores || !state.tiebreak_starting_server) {
+    return ['tiebreak without scores or starting server'];
+  }
+
+  const played = state.tiebreak_scores.team_a + state.tiebreak_scores.team_b;
+  const start = state.tiebreak_starting_server;
+  const expected = played === 0 || Math.floor((played - 1) / 2) % 2 === 1 ? start : otherTeam(start);
+
+  if (state.serving_team !== expected) {
+    return [`tiebreak point ${played + 1} served by ${state.serving_team}, expected ${expected}`];
+  }
+  return [];
+}
@@ -0,0 +1,366 @@
+// ============================================================
+// PALAPOINT V4 - MATCH STATE VALIDATION + MIGRATIONS
+// Upgrade stored states to the current schema and check them
+// before they reach applyScore
+// ============================================================
+
+import {
+  MatchState,
+  MatchStateIssue,
+  MatchStatus,
+  EarlyEndStatus,
+  GamesPerSet,
+  otherTeam,
+  isFinishedStatus,
+} from './types';
+import {
+  MATCH_SCHEMA_VERSION,
+  GAMES_PER_SET_OPTIONS,
+  TIME_LIMIT_RULES,
+  AMERICANO_POINTS_OPTIONS,
+  getDefaultTiebreakAt,
+  isValidTiebreakAt,
+  isValidHandicap,
+  EARLY_END_STATUSES,
+  getDefaultSuddenDeath,
+} from './engine';
+import { findRuleSet } from './rules';
+
+// A stored state or database row as read, before migration
+type RawMatchState = Record<string, any>;
+
+const MATCH_STATUSES: MatchStatus[] = ['setup', 'in_progress', 'completed', 'abandoned', ...EARLY_END_STATUSES];
+
+// ============================================================
+// MIGRATIONS
+// ============================================================
+
+/**
+ * Schema 1 -> 2
+ * Rows and snapshots written before schema_version existed may be missing
+ * anything added after the first release: first servers, set length, deciding
+ * set, time limit, Americano settings and ends.
+ */
+function migrateV1ToV2(raw: RawMatchState): RawMatchState {
+  const gamesPerSet: GamesPerSet = raw.games_per_set || 6;
+
+  return {
+    ...raw,
+    games_per_set: gamesPerSet,
+    tiebreak_at: raw.tiebreak_at ?? getDefaultTiebreakAt(gamesPerSet),
+    deciding_set_format: raw.deciding_set_format || 'full_set',
+    match_tiebreak_points: raw.match_tiebreak_points || 10,
+    time_limit_minutes: raw.time_limit_minutes || null,
+    time_limit_rule: raw.time_limit_rule || 'finish_game',
+    americano_points: raw.americano_points || 24,
+    americano_serve_every: raw.americano_serve_every || 4,
+    is_tiebreak: raw.is_tiebreak || false,
+    set_scores: raw.set_scores || [],
+    deuce_count: raw.deuce_count || 0,
+    team_a_server: raw.team_a_server || 1,
+    team_b_server: raw.team_b_server || 1,
+    sides_swapped: raw.sides_swapped ?? legacySidesSwapped(raw),
+    winner: raw.winner || null,
+    time_expired: raw.time_expired || false,
+    ended_by_time: raw.ended_by_time || false,
+  };
+}
+
+/**
+ * Ends for a state written before the engine tracked them, from the score:
+ * a change after each odd game of every set, plus every 6 points of the
+ * current tiebreak (changes inside earlier sets' tiebreaks aren't recorded)
+ */
+function legacySidesSwapped(raw: RawMatchState): boolean {
+  if (raw.game_mode === 'americano') return false;
+
+  const gamesPlayed: number[] = (raw.set_scores || []).map(
+    (set: { team_a: number; team_b: number; match_tiebreak?: boolean }) =>
+      set.match_tiebreak ? 0 : set.team_a + set.team_b
+  );
+  gamesPlayed.push((raw.team_a_games || 0) + (raw.team_b_games || 0));
+
+  let changes = gamesPlayed.reduce((sum, games) => sum + Math.ceil(games / 2), 0);
+  if (raw.is_tiebreak && raw.tiebreak_scores) {
+    changes += Math.floor((raw.tiebreak_scores.team_a + raw.tiebreak_scores.team_b) / 6);
+  }
+  return changes % 2 === 1;
+}
+
+/**
+ * Schema 2 -> 3
+ * Side-out scoring added server_number; every earlier match is on server 1
+ */
+function migrateV2ToV3(raw: RawMatchState): RawMatchState {
+  return { ...raw, server_number: raw.server_number || 1 };
+}
+
+/**
+ * Schema 3 -> 4
+ * Handicap added; every earlier match is level
+ */
+function migrateV3ToV4(raw: RawMatchState): RawMatchState {
+  return { ...raw, handicap: raw.handicap || null };
+}
+
+/**
+ * Schema 4 -> 5
+ * Early endings (retired, walkover, defaulted) added end_reason; no earlier match has one
+ */
+function migrateV4ToV5(raw: RawMatchState): RawMatchState {
+  return { ...raw, end_reason: raw.end_reason || null };
+}
+
+/**
+ * Schema 5 -> 6
+ * Golden and silver point became sudden_death_after_deuces; earlier matches
+ * play their game mode's (advantage for other modes)
+ */
+function migrateV5ToV6(raw: RawMatchState): RawMatchState {
+  return {
+    ...raw,
+    sudden_death_after_deuces: raw.sudden_death_after_deuces ?? getDefaultSuddenDeath(raw.game_mode),
+  };
+}
+
+// Migration from each schema version to the next
+const MIGRATIONS: Record<number, (raw: RawMatchState) => RawMatchState> = {
+  1: migrateV1ToV2,
+  2: migrateV2ToV3,
+  3: migrateV3ToV4,
+  4: migrateV4ToV5,
+  5: migrateV5ToV6,
+};
+
+/**
+ * Upgrade a stored state (database row or score_events snapshot) to the
+ * current schema. States without schema_version are schema 1.
+ * A state from a newer schema is passed through unchanged for
+ * validateMatchState to reject.
+ */
+export function migrateMatchState(raw: RawMatchState): MatchState {
+  let s: RawMatchState = { ...raw };
+  let version: number = Number.isInteger(s.schema_version) ? s.schema_version : 1;
+
+  while (version < MATCH_SCHEMA_VERSION && MIGRATIONS[version]) {
+    s = MIGRATIONS[version](s);
+    version++;
+  }
+
+  return {
+    id: s.id,
+    court_id: s.court_id,
+    version: s.version,
+    schema_version: version,
+    game_mode: s.game_mode,
+    sets_to_win: s.sets_to_win,
+    games_per_set: s.games_per_set,
+    tiebreak_at: s.tiebreak_at,
+    deciding_set_format: s.deciding_set_format,
+    match_tiebreak_points: s.match_tiebreak_points,
+    time_limit_minutes: s.time_limit_minutes,
+    time_limit_rule: s.time_limit_rule,
+    americano_points: s.americano_points,
+    americano_serve_every: s.americano_serve_every,
+    handicap: s.handicap ?? null,
+    sudden_death_after_deuces: s.sudden_death_after_deuces ?? null,
+    status: s.status,
+    current_set: s.current_set,
+    is_tiebreak: s.is_tiebreak,
+    team_a_points: s.team_a_points,
+    team_b_points: s.team_b_points,
+    team_a_games: s.team_a_games,
+    team_b_games: s.team_b_games,
+    set_scores: s.set_scores,
+    tiebreak_scores: s.tiebreak_scores || undefined,
+    tiebreak_starting_server: s.tiebreak_starting_server || undefined,
+    deuce_count: s.deuce_count,
+    serving_team: s.serving_team || null,
+    team_a_server: s.team_a_server,
+    team_b_server: s.team_b_server,
+    server_number: s.server_number,
+    sides_swapped: s.sides_swapped,
+    team_a_player_1: s.team_a_player_1 || null,
+    team_a_player_2: s.team_a_player_2 || null,
+    team_b_player_1: s.team_b_player_1 || null,
+    team_b_player_2: s.team_b_player_2 || null,
+    winner: s.winner,
+    time_expired: s.time_expired,
+    ended_by_time: s.ended_by_time,
+    end_reason: s.end_reason ?? null,
+    started_at: s.started_at || null,
+    completed_at: s.completed_at || null,
+    stats: s.stats || undefined,
+  };
+}
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+function isCount(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+/**
+ * Check a (migrated) state for structural and scoring-rules problems
+ * Returns every issue found (empty when the state is safe to score)
+ */
+export function validateMatchState(state: MatchState): MatchStateIssue[] {
+  const issues: MatchStateIssue[] = [];
+  const issue = (field: keyof MatchState, message: string) => issues.push({ field, message });
+
+  // --- Structure ---
+  if (typeof state.id !== 'string' || !state.id) issue('id', 'missing id');
+  if (typeof state.court_id !== 'string' || !state.court_id) issue('court_id', 'missing court_id');
+  if (!Number.isInteger(state.version) || state.version < 1) issue('version', `invalid version ${state.version}`);
+  if (state.schema_version !== MATCH_SCHEMA_VERSION) {
+    issue('schema_version', `schema ${state.schema_version} is not supported (current ${MATCH_SCHEMA_VERSION})`);
+  }
+
+  const rules = findRuleSet(state.game_mode);
+  if (!rules) issue('game_mode', `unknown game mode ${state.game_mode}`);
+  if (!MATCH_STATUSES.includes(state.status)) issue('status', `unknown status ${state.status}`);
+  if (state.sets_to_win !== 1 && state.sets_to_win !== 2) issue('sets_to_win', `invalid sets_to_win ${state.sets_to_win}`);
+  if (!GAMES_PER_SET_OPTIONS.includes(state.games_per_set)) {
+    issue('games_per_set', `invalid games_per_set ${state.games_per_set}`);
+  } else if (!isValidTiebreakAt(state.games_per_set, state.tiebreak_at)) {
+    issue('tiebreak_at', `invalid tiebreak_at ${state.tiebreak_at} for ${state.games_per_set}-game sets`);
+  }
+  if (state.deciding_set_format !== 'full_set' && state.deciding_set_format !== 'match_tiebreak') {
+    issue('deciding_set_format', `unknown deciding set format ${state.deciding_set_format}`);
+  }
+  if (!Number.isInteger(state.match_tiebreak_points) || state.match_tiebreak_points < 7) {
+    issue('match_tiebreak_points', `invalid match_tiebreak_points ${state.match_tiebreak_points}`);
+  }
+  if (state.time_limit_minutes !== null && (!Number.isInteger(state.time_limit_minutes) || state.time_limit_minutes <= 0)) {
+    issue('time_limit_minutes', `invalid time_limit_minutes ${state.time_limit_minutes}`);
+  }
+  if (!TIME_LIMIT_RULES.includes(state.time_limit_rule)) issue('time_limit_rule', `unknown time limit rule ${state.time_limit_rule}`);
+  if (!AMERICANO_POINTS_OPTIONS.includes(state.americano_points)) {
+    issue('americano_points', `invalid americano_points ${state.americano_points}`);
+  }
+  if (!Number.isInteger(state.americano_serve_every) || state.americano_serve_every < 1) {
+    issue('americano_serve_every', `invalid americano_serve_every ${state.americano_serve_every}`);
+  }
+  if (state.handicap !== null && (typeof state.handicap !== 'object' || !isValidHandicap(state.handicap, state))) {
+    issue('handicap', `invalid handicap for ${state.game_mode} ${state.games_per_set}-game sets`);
+  }
+  if (state.sudden_death_after_deuces !== null && !isCount(state.sudden_death_after_deuces)) {
+    issue('sudden_death_after_deuces', `invalid sudden_death_after_deuces ${state.sudden_death_after_deuces}`);
+  }
+
+  const counters: (keyof MatchState)[] = [
+    'team_a_points', 'team_b_points', 'team_a_games', 'team_b_games', 'deuce_count',
+  ];
+  for (const field of counters) {
+    if (!isCount(state[field])) issue(field, `${field} is ${state[field]}`);
+  }
+  if (!Number.isInteger(state.current_set) || state.current_set < 1) {
+    issue('current_set', `invalid current_set ${state.current_set}`);
+  }
+
+  if (!Array.isArray(state.set_scores)) {
+    issue('set_scores', 'set_scores is not a list');
+    return issues;
+  }
+  if (state.set_scores.some((set) => !set || !isCount(set.team_a) || !isCount(set.team_b))) {
+    issue('set_scores', 'set score with invalid games');
+  }
+
+  if (state.serving_team !== null && state.serving_team !== 'a' && state.serving_team !== 'b') {
+    issue('serving_team', `invalid serving_team ${state.serving_team}`);
+  }
+  if (state.team_a_server !== 1 && state.team_a_server !== 2) issue('team_a_server', `invalid server ${state.team_a_server}`);
+  if (state.team_b_server !== 1 && state.team_b_server !== 2) issue('team_b_server', `invalid server ${state.team_b_server}`);
+  if (state.server_number !== 1 && state.server_number !== 2) issue('server_number', `invalid server_number ${state.server_number}`);
+  if (state.winner !== null && state.winner !== 'a' && state.winner !== 'b') issue('winner', `invalid winner ${state.winner}`);
+  if (state.end_reason !== null && typeof state.end_reason !== 'string') issue('end_reason', 'end_reason is not text');
+
+  const flags: (keyof MatchState)[] = ['is_tiebreak', 'sides_swapped', 'time_expired', 'ended_by_time'];
+  for (const field of flags) {
+    if (typeof state[field] !== 'boolean') issue(field, `${field} is not a boolean`);
+  }
+
+  // Stop before the rules checks if the shape is wrong
+  if (issues.length > 0) return issues;
+
+  // --- Rules ---
+  const finished = isFinishedStatus(state.status);
+  const endedEarly = EARLY_END_STATUSES.includes(state.status as EarlyEndStatus);
+
+  if (state.winner && state.status !== 'completed' && !endedEarly) issue('winner', `winner set while ${state.status}`);
+  if (endedEarly && !state.winner) issue('winner', `${state.status} without a winner`);
+  if (state.end_reason && !endedEarly) issue('end_reason', `end reason set while ${state.status}`);
+  if (state.status === 'in_progress' && !state.serving_team) issue('serving_team', 'no serving team during play');
+  if (state.ended_by_time && !state.time_expired) issue('ended_by_time', 'ended by time before time expired');
+  if (state.time_expired && !state.time_limit_minutes) issue('time_expired', 'time expired on an untimed match');
+
+  if (rules && rules.format !== 'sets') {
+    if (state.team_a_games !== 0 || state.team_b_games !== 0) issue('team_a_games', `${rules.label} matches have no games in a set`);
+    if (state.is_tiebreak) issue('is_tiebreak', `${rules.label} matches have no tiebreaks`);
+    if (state.sudden_death_after_deuces !== null) issue('sudden_death_after_deuces', `${rules.label} matches have no deuces`);
+  }
+  if (rules && rules.format === 'points') {
+    const played = state.team_a_points + state.team_b_points;
+    if (played > state.americano_points) {
+      issue('team_a_points', `${played} points played of ${state.americano_points}`);
+    }
+    return issues;
+  }
+
+  // Tiebreak bookkeeping
+  if (state.is_tiebreak) {
+    if (!state.tiebreak_scores || !isCount(state.tiebreak_scores.team_a) || !isCount(state.tiebreak_scores.team_b)) {
+      issue('tiebreak_scores', 'tiebreak without valid tiebreak scores');
+    }
+    if (state.tiebreak_starting_server !== 'a' && state.tiebreak_starting_server !== 'b') {
+      issue('tiebreak_starting_server', 'tiebreak without a starting server');
+    }
+  } else if (state.tiebreak_scores) {
+    issue('tiebreak_scores', 'tiebreak scores outside a tiebreak');
+  }
+
+  // Games in the current set can't pass a finished set
+  const maxGames = Math.max(state.games_per_set, state.tiebreak_at + 1);
+  if (state.team_a_games > maxGames || state.team_b_games > maxGames) {
+    issue('team_a_games', `${state.team_a_games}-${state.team_b_games} is past the end of a set`);
+  }
+
+  // Sets
+  const setsWon = { a: 0, b: 0 };
+  for (const set of state.set_scores) {
+    if (set.team_a > set.team_b) setsWon.a++;
+    else if (set.team_b > set.team_a) setsWon.b++;
+  }
+  if (state.set_scores.length > state.sets_to_win * 2 - 1) {
+    issue('set_scores', `${state.set_scores.length} sets recorded for best of ${state.sets_to_win * 2 - 1}`);
+  }
+  if (!finished) {
+    if (setsWon.a >= state.sets_to_win || setsWon.b >= state.sets_to_win) {
+      issue('set_scores', 'a team has already won the match');
+    }
+    if (state.current_set !== state.set_scores.length + 1) {
+      issue('current_set', `current_set ${state.current_set} after ${state.set_scores.length} sets`);
+    }
+  }
+  if (state.status === 'completed' && state.winner && !state.ended_by_time) {
+    if (setsWon[state.winner] !== state.sets_to_win || setsWon[otherTeam(state.winner)] >= state.sets_to_win) {
+      issue('winner', `winner ${state.winner} does not match sets ${setsWon.a}-${setsWon.b}`);
+    }
+  }
+  if (state.status === 'completed' && !state.winner && !state.ended_by_time) {
+    issue('winner', 'completed without a winner');
+  }
+
+  return issues;
+}
+
+/**
+ * Migrate then validate a stored state
+ * Use on anything read from the database before handing it to the engine
+ */
+export function parseMatchState(raw: RawMatchState): { state: MatchState; issues: MatchStateIssue[] } {
+  const state = migrateMatchState(raw);
+  return { state, issues: validateMatchState(state) };
+}
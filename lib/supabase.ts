@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js'
+import type { GestureMap } from '@/lib/scoring/types'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
@@ -15,6 +16,8 @@ export interface Court {
   name: string
   court_number: number
   slug: string | null
+  press_debounce_ms?: number | null  // null: the score function's default
+  gesture_map?: GestureMap | null  // null: default gestures
   venue?: {
     id: string
     name: string
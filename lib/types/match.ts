@@ -5,17 +5,105 @@
 
 export type Team = 'a' | 'b'
 
-export type GameMode = 'traditional' | 'golden_point' | 'silver_point'
+export type GameMode = 'traditional' | 'golden_point' | 'silver_point' | 'americano' | 'pickleball'
 
-export type MatchStatus = 'setup' | 'in_progress' | 'completed' | 'abandoned'
+export type GamesPerSet = 4 | 6 | 8 | 9
+
+export type PlayerSlot = 1 | 2
+
+export type EarlyEndStatus = 'retired' | 'walkover' | 'defaulted'
+
+export type MatchStatus = 'setup' | 'in_progress' | 'completed' | 'abandoned' | EarlyEndStatus
+
+export type DecidingSetFormat = 'full_set' | 'match_tiebreak'
+
+export type TimeLimitRule = 'finish_game' | 'deciding_point' | 'count_games'
+
+export interface SetScore {
+  team_a: number
+  team_b: number
+  match_tiebreak?: boolean
+  tiebreak?: { team_a: number; team_b: number }
+  handicap?: boolean
+}
+
+export interface Handicap {
+  team: Team
+  points: number
+  games: number
+  sets: number
+}
+
+export type PointEnding = 'winner' | 'forced_error' | 'unforced_error'
+
+export type ShotType =
+  | 'serve'
+  | 'return'
+  | 'volley'
+  | 'bandeja'
+  | 'vibora'
+  | 'smash'
+  | 'lob'
+  | 'drop_shot'
+  | 'groundstroke'
+  | 'off_the_glass'
+
+export interface PlayerRef {
+  team: Team
+  slot: PlayerSlot
+}
+
+// How a point ended; player played the last shot
+export interface PointAnnotation {
+  ending?: PointEnding
+  shot?: ShotType
+  player?: PlayerRef
+}
+
+export interface PlayerPointStats {
+  winners: number
+  forced_errors: number
+  unforced_errors: number
+  shots: Partial<Record<ShotType, number>>
+}
+
+export interface TeamStats {
+  points_won: number
+  service_points_won: number
+  return_points_won: number
+  breaks: number
+  golden_points_won: number
+  silver_points_won: number
+  players?: Record<PlayerSlot, PlayerPointStats>
+}
+
+export interface MatchStats {
+  points_played: number
+  deuces: number
+  team_a: TeamStats
+  team_b: TeamStats
+  current_streak: { team: Team | null; length: number }
+  longest_streak: { team: Team | null; length: number }
+  win_probability?: number[]  // Team A's chance of winning the match after each point
+}
 
 export interface MatchState {
   id: string
   court_id: string
   version: number
+  schema_version?: number
   game_mode: GameMode
   sets_to_win: number
+  games_per_set?: GamesPerSet
   tiebreak_at: number
+  deciding_set_format?: DecidingSetFormat
+  match_tiebreak_points?: number
+  time_limit_minutes?: number | null
+  time_limit_rule?: TimeLimitRule
+  americano_points?: number
+  americano_serve_every?: number
+  handicap?: Handicap | null
+  sudden_death_after_deuces?: number | null
   status: MatchStatus
   current_set: number
   is_tiebreak: boolean
@@ -23,17 +111,25 @@ export interface MatchState {
   team_b_points: number
   team_a_games: number
   team_b_games: number
-  set_scores: Array<{ team_a: number; team_b: number }>
+  set_scores: SetScore[]
   tiebreak_scores?: { team_a: number; team_b: number }
   tiebreak_starting_server?: Team
   deuce_count: number
   serving_team: Team | null
+  team_a_server?: PlayerSlot
+  team_b_server?: PlayerSlot
+  server_number?: 1 | 2
+  sides_swapped?: boolean
   team_a_player_1?: string | null
   team_a_player_2?: string | null
   team_b_player_1?: string | null
   team_b_player_2?: string | null
   winner: Team | null
+  time_expired?: boolean
+  ended_by_time?: boolean
+  end_reason?: string | null
   started_at?: string | null
   completed_at?: string | null
   side_swap_enabled?: boolean
+  stats?: MatchStats | null
 }
@@ -0,0 +1,33 @@
+import type { ButtonHealth } from '@/lib/api/button'
+
+// Battery at or below this is flagged
+export const LOW_BATTERY_PERCENT = 20
+
+// Buttons report every few minutes; silence for longer than this means it is off or out of range
+export const BUTTON_OFFLINE_MINUTES = 15
+
+export type ButtonWarning = 'offline' | 'low_battery'
+
+/**
+ * What is wrong with a button, if anything (offline outranks low battery)
+ * Any press or heartbeat counts as checking in
+ */
+export function getButtonWarning(device: ButtonHealth, now: number = Date.now()): ButtonWarning | null {
+  const checkIns = [device.last_heartbeat_at, device.last_seen_at]
+    .filter((t): t is string => !!t)
+    .map((t) => new Date(t).getTime())
+  const lastCheckIn = checkIns.length > 0 ? Math.max(...checkIns) : null
+
+  if (lastCheckIn === null || now - lastCheckIn > BUTTON_OFFLINE_MINUTES * 60000) return 'offline'
+  if (device.battery_percent !== null && device.battery_percent <= LOW_BATTERY_PERCENT) return 'low_battery'
+  return null
+}
+
+/**
+ * e.g. "Team A button battery low (12%)" or "Team B button not responding"
+ */
+export function formatButtonWarning(device: ButtonHealth, warning: ButtonWarning): string {
+  const name = `Team ${device.team.toUpperCase()} button`
+  if (warning === 'offline') return `${name} not responding`
+  return `${name} battery low (${device.battery_percent}%)`
+}
@@ -0,0 +1,17 @@
+import type { ButtonGesture, GestureAction } from '@/lib/scoring/types'
+
+export const GESTURE_LABELS: Record<ButtonGesture, string> = {
+  click: 'Press',
+  double_click: 'Double press',
+  triple_click: 'Triple press',
+  hold: 'Hold',
+}
+
+export const GESTURE_ACTION_LABELS: Record<GestureAction, string> = {
+  score: 'Score point',
+  undo: 'Undo',
+  start_or_end: 'Start / end match',
+  start: 'Start only',
+  switch_server: 'Switch server',
+  none: 'Nothing',
+}
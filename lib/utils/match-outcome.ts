@@ -0,0 +1,22 @@
+import type { EarlyEndStatus, MatchStatus } from '@/lib/types/match'
+
+export { FINISHED_STATUSES, isFinishedStatus } from '@/lib/scoring/types'
+
+export const EARLY_END_LABELS: Record<EarlyEndStatus, string> = {
+  retired: 'Retired',
+  walkover: 'Walkover',
+  defaulted: 'Defaulted',
+}
+
+export function isEarlyEnd(status: MatchStatus): status is EarlyEndStatus {
+  return status in EARLY_END_LABELS
+}
+
+/**
+ * How a match ended early, e.g. "Retired (injury)" (null for any other status)
+ */
+export function formatEarlyEnd(match: { status: MatchStatus; end_reason?: string | null }): string | null {
+  if (!isEarlyEnd(match.status)) return null
+  const label = EARLY_END_LABELS[match.status]
+  return match.end_reason ? `${label} (${match.end_reason})` : label
+}
@@ -0,0 +1,94 @@
+import type {
+  MatchStats,
+  PlayerPointStats,
+  PlayerSlot,
+  PointEnding,
+  ShotType,
+  Team,
+} from '@/lib/types/match'
+
+export const ENDING_LABELS: Record<PointEnding, string> = {
+  winner: 'Winner',
+  forced_error: 'Forced error',
+  unforced_error: 'Unforced error',
+}
+
+export const SHOT_LABELS: Record<ShotType, string> = {
+  serve: 'Serve',
+  return: 'Return',
+  volley: 'Volley',
+  bandeja: 'Bandeja',
+  vibora: 'Víbora',
+  smash: 'Smash',
+  lob: 'Lob',
+  drop_shot: 'Drop shot',
+  groundstroke: 'Groundstroke',
+  off_the_glass: 'Off the glass',
+}
+
+/**
+ * Team that played the last shot: the scoring team for a winner, the other team for an error
+ */
+export function getLastShotTeam(scoringTeam: Team, ending: PointEnding): Team {
+  if (ending === 'winner') return scoringTeam
+  return scoringTeam === 'a' ? 'b' : 'a'
+}
+
+export interface PlayerAnnotationSummary extends PlayerPointStats {
+  name: string
+}
+
+interface AnnotatedGame {
+  team_a_player_1: string | null
+  team_a_player_2: string | null
+  team_b_player_1: string | null
+  team_b_player_2: string | null
+  stats?: MatchStats | null
+}
+
+const PLAYER_COLUMNS: [Team, PlayerSlot, keyof AnnotatedGame][] = [
+  ['a', 1, 'team_a_player_1'],
+  ['a', 2, 'team_a_player_2'],
+  ['b', 1, 'team_b_player_1'],
+  ['b', 2, 'team_b_player_2'],
+]
+
+/**
+ * Annotated point totals per player across games (matched by name, most winners first)
+ * Unnamed players and players with no annotated points are left out
+ */
+export function summarizePlayerAnnotations(games: AnnotatedGame[]): PlayerAnnotationSummary[] {
+  const byName = new Map<string, PlayerAnnotationSummary>()
+
+  for (const game of games) {
+    for (const [team, slot, column] of PLAYER_COLUMNS) {
+      const name = game[column] as string | null
+      const stats = (team === 'a' ? game.stats?.team_a : game.stats?.team_b)?.players?.[slot]
+      if (!name || !stats) continue
+
+      const total = byName.get(name) ?? { name, winners: 0, forced_errors: 0, unforced_errors: 0, shots: {} }
+      total.winners += stats.winners
+      total.forced_errors += stats.forced_errors
+      total.unforced_errors += stats.unforced_errors
+      for (const [shot, count] of Object.entries(stats.shots) as [ShotType, number][]) {
+        total.shots[shot] = (total.shots[shot] ?? 0) + count
+      }
+      byName.set(name, total)
+    }
+  }
+
+  return Array.from(byName.values())
+    .filter((p) => p.winners + p.forced_errors + p.unforced_errors > 0 || getTopShot(p) !== null)
+    .sort((a, b) => b.winners - a.winners)
+}
+
+/**
+ * Shot that ended the most of a player's annotated points (null if none recorded)
+ */
+export function getTopShot(stats: PlayerPointStats): ShotType | null {
+  let top: ShotType | null = null
+  for (const [shot, count] of Object.entries(stats.shots) as [ShotType, number][]) {
+    if (count > 0 && (top === null || count > (stats.shots[top] ?? 0))) top = shot
+  }
+  return top
+}
@@ -2,6 +2,10 @@
  * Shared score display formatting for match state.
  */
 
+import type { ScoringFormat } from '@/lib/scoring/types'
+import type { GameMode, Handicap } from '@/lib/types/match'
+import { getDefaultSuddenDeath } from '@/lib/scoring/engine'
+
 export function formatPointDisplay(
   points: number,
   opponentPoints: number,
@@ -40,6 +44,42 @@ export function buildTeamName(
   return `${names[0]} / ${names[1]}`
 }
 
+/**
+ * Name of the player serving for a team, or null if the slot has no name.
+ */
+export function getServerName(
+  player1: string | null | undefined,
+  player2: string | null | undefined,
+  serverSlot: 1 | 2 | null | undefined
+): string | null {
+  if (!serverSlot) return null
+  return (serverSlot === 1 ? player1 : player2) || null
+}
+
+/**
+ * Short description of a handicap head start, e.g. "Team A +15, +2 games"
+ */
+export function formatHandicap(handicap: Handicap): string {
+  const parts: string[] = []
+  if (handicap.points) parts.push(`+${formatPointDisplay(handicap.points, 0, false)}`)
+  if (handicap.games) parts.push(`+${handicap.games} game${handicap.games > 1 ? 's' : ''}`)
+  if (handicap.sets) parts.push(`+${handicap.sets} set${handicap.sets > 1 ? 's' : ''}`)
+  return `Team ${handicap.team.toUpperCase()} ${parts.join(', ')}`
+}
+
+const DEUCE_ORDINALS = ['1st', '2nd', '3rd']
+
+/**
+ * Deuce rule when it differs from the game mode's, e.g. "Sudden death at 3rd deuce"
+ * (null when the mode's own rule is played)
+ */
+export function formatSuddenDeath(gameMode: GameMode, suddenDeathAfterDeuces: number | null | undefined): string | null {
+  if (suddenDeathAfterDeuces === undefined || suddenDeathAfterDeuces === getDefaultSuddenDeath(gameMode)) return null
+  if (suddenDeathAfterDeuces === null) return 'Advantage'
+  const ordinal = DEUCE_ORDINALS[suddenDeathAfterDeuces] ?? `${suddenDeathAfterDeuces + 1}th`
+  return `Sudden death at ${ordinal} deuce`
+}
+
 /**
  * Format game duration as MM:SS from started_at.
  * If endAt is provided (e.g. completed_at), uses that as end time.
@@ -60,6 +100,8 @@ export function formatGameDuration(
 /**
  * Get horizontal score parts for spectator display: [set1, set2?, ...] [games] [points]
  * e.g. [6, 3, 15] for 6 games set1, 3 games set2, 15 points
+ * Americano matches have no sets or games, so only the raw points are shown: [13]
+ * Pickleball games are recorded as sets, so no games column: [11, 4] for 11 in game 1, 4 points
  */
 export function getHorizontalScoreParts(
   setScores: Array<{ team_a: number; team_b: number }> | undefined,
@@ -68,12 +110,19 @@ export function getHorizontalScoreParts(
   points: number,
   opponentPoints: number,
   isTiebreak: boolean,
-  tiebreakScore?: number
+  tiebreakScore?: number,
+  format: ScoringFormat = 'sets'
 ): (string | number)[] {
+  if (format === 'points') return [points]
+
   const parts: (string | number)[] = []
   if (setScores?.length) {
     setScores.forEach((s) => parts.push(team === 'a' ? s.team_a : s.team_b))
   }
+  if (format === 'side_out') {
+    parts.push(points)
+    return parts
+  }
   parts.push(games)
   parts.push(
     formatPointDisplay(points, opponentPoints, isTiebreak, tiebreakScore)
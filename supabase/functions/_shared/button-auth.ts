@@ -0,0 +1,117 @@
+// ============================================================
+// PALAPOINT V4 - BUTTON REQUEST SIGNING
+// Each paired button has its own secret (button_devices.secret).
+// A button signs every request (score presses and telemetry):
+//   x-palapoint-timestamp: unix seconds
+//   x-palapoint-signature: hex HMAC-SHA256(secret, `${timestamp}.${body}`)
+// and sends an event_id that is never reused (button_nonces).
+// ============================================================
+
+export const SIGNATURE_HEADER = 'x-palapoint-signature';
+export const TIMESTAMP_HEADER = 'x-palapoint-timestamp';
+
+// How far a request's timestamp may be from the server clock
+export const SIGNATURE_WINDOW_SECONDS = 60;
+
+const encoder = new TextEncoder();
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * New random device secret (32 bytes, hex)
+ */
+export function generateDeviceSecret(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * Signature for a request body sent at `timestamp`
+ */
+export async function signRequest(secret: string, timestamp: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return toHex(new Uint8Array(signature));
+}
+
+/**
+ * Whether `signature` was made with the device's secret (constant-time comparison)
+ */
+export async function verifySignature(
+  secret: string,
+  timestamp: string,
+  body: string,
+  signature: string
+): Promise<boolean> {
+  const expected = await signRequest(secret, timestamp, body);
+  if (expected.length !== signature.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Whether a request timestamp (unix seconds) is inside the signature window
+ */
+export function isFreshTimestamp(timestamp: string, now: number = Date.now()): boolean {
+  if (!/^\d+$/.test(timestamp)) return false;
+  return Math.abs(now / 1000 - Number(timestamp)) <= SIGNATURE_WINDOW_SECONDS;
+}
+
+export type SignatureError = 'unsigned_request' | 'stale_request' | 'invalid_signature';
+
+export type NonceError = 'replayed_request' | 'database_error';
+
+/**
+ * Check a button's signed request against its secret (null when it has none yet)
+ * Returns the error code to reject it with, or null when it is genuine
+ */
+export async function checkSignedRequest(
+  req: Request,
+  rawBody: string,
+  secret: string | null
+): Promise<SignatureError | null> {
+  const signature = req.headers.get(SIGNATURE_HEADER);
+  const timestamp = req.headers.get(TIMESTAMP_HEADER);
+
+  if (!secret || !signature || !timestamp) return 'unsigned_request';
+  if (!isFreshTimestamp(timestamp)) return 'stale_request';
+  if (!(await verifySignature(secret, timestamp, rawBody, signature))) return 'invalid_signature';
+  return null;
+}
+
+/**
+ * Record a signed request's event_id so the same request cannot be sent again
+ * Returns 'replayed_request' when the device has already used it
+ */
+export async function recordNonce(supabase: any, deviceId: string, eventId: string): Promise<NonceError | null> {
+  // Nonces older than the window can go: their requests would be stale anyway
+  await supabase
+    .from('button_nonces')
+    .delete()
+    .eq('device_id', deviceId)
+    .lt('created_at', new Date(Date.now() - 2 * SIGNATURE_WINDOW_SECONDS * 1000).toISOString());
+
+  const { error } = await supabase
+    .from('button_nonces')
+    .insert({ device_id: deviceId, event_id: eventId });
+
+  if (error) {
+    // Unique (device_id, event_id): the same signed request sent again
+    if (error.code === '23505') return 'replayed_request';
+    console.error('Error recording button nonce:', error);
+    return 'database_error';
+  }
+
+  return null;
+}
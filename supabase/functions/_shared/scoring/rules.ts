@@ -0,0 +1,206 @@
+// ============================================================
+// PALAPOINT V4 - RULE SETS
+// How each game mode progresses points, completes games/sets/matches,
+// rotates serve and labels the score. The engine looks the rule set up
+// by MatchState.game_mode; venues can register their own variants.
+// ============================================================
+
+import {
+  GameMode,
+  GameScore,
+  PointLabels,
+  RuleSet,
+  SetsRuleSet,
+  PointsRuleSet,
+  SideOutRuleSet,
+  MatchState,
+  ScoringFormat,
+  Team,
+} from './types.ts';
+
+// ============================================================
+// PADEL (points, games and sets)
+// ============================================================
+
+const POINT_LABELS = ['0', '15', '30', '40'];
+
+/**
+ * 0 / 15 / 30 / 40, then deuce and advantage once both teams reach 40
+ */
+function padelPointLabels(s: GameScore): PointLabels {
+  const pA = s.team_a_points;
+  const pB = s.team_b_points;
+
+  if (pA >= 3 && pB >= 3) {
+    if (pA === pB) return { a: '40', b: '40', is_deuce: true, advantage: null };
+    if (pA > pB) return { a: 'Ad', b: '40', is_deuce: false, advantage: 'a' };
+    return { a: '40', b: 'Ad', is_deuce: false, advantage: 'b' };
+  }
+
+  return {
+    a: POINT_LABELS[Math.min(pA, 3)],
+    b: POINT_LABELS[Math.min(pB, 3)],
+    is_deuce: false,
+    advantage: null,
+  };
+}
+
+/**
+ * Standard game win: first to 4 points, ahead by 2
+ */
+function padelGameWinner(s: GameScore): Team | null {
+  const pA = s.team_a_points;
+  const pB = s.team_b_points;
+
+  if (pA >= 4 && pA - pB >= 2) return 'a';
+  if (pB >= 4 && pB - pA >= 2) return 'b';
+  return null;
+}
+
+function isDeuce(s: GameScore): boolean {
+  return s.team_a_points >= 3 && s.team_a_points === s.team_b_points;
+}
+
+/**
+ * Sudden death: once sudden_death_after_deuces deuces have been played with
+ * advantage, the next deuce is a deciding point (0 = golden point, 1 = silver point)
+ */
+function isSuddenDeathPoint(s: GameScore): boolean {
+  const after = s.sudden_death_after_deuces;
+  return after !== null && after !== undefined && isDeuce(s) && s.deuce_count > after;
+}
+
+/**
+ * Standard set win: games_per_set+ games, ahead by 2
+ * Note: tiebreak_at-tiebreak_at goes to tiebreak, not checked here
+ */
+function padelSetWinner(s: MatchState): Team | null {
+  const gA = s.team_a_games;
+  const gB = s.team_b_games;
+
+  if (gA >= s.games_per_set && gA - gB >= 2) return 'a';
+  if (gB >= s.games_per_set && gB - gA >= 2) return 'b';
+  return null;
+}
+
+function padelMatchOver(s: MatchState, setsWon: { a: number; b: number }): boolean {
+  return setsWon.a >= s.sets_to_win || setsWon.b >= s.sets_to_win;
+}
+
+const TRADITIONAL: SetsRuleSet = {
+  mode: 'traditional',
+  label: 'Standard',
+  format: 'sets',
+  pointLabels: padelPointLabels,
+  isDecidingPoint: isSuddenDeathPoint,
+  gameWinner: padelGameWinner,
+  setWinner: padelSetWinner,
+  isMatchOver: padelMatchOver,
+};
+
+// Golden Point: at deuce, next point wins
+const GOLDEN_POINT: SetsRuleSet = {
+  ...TRADITIONAL,
+  mode: 'golden_point',
+  label: 'Golden Point',
+  suddenDeathAfterDeuces: 0,
+};
+
+// Silver Point: one advantage, then the second deuce's next point wins
+const SILVER_POINT: SetsRuleSet = {
+  ...TRADITIONAL,
+  mode: 'silver_point',
+  label: 'Silver Point',
+  suddenDeathAfterDeuces: 1,
+};
+
+/**
+ * Running point totals (Americano, pickleball)
+ */
+function numericPointLabels(s: GameScore): PointLabels {
+  return {
+    a: s.team_a_points.toString(),
+    b: s.team_b_points.toString(),
+    is_deuce: false,
+    advantage: null,
+  };
+}
+
+// ============================================================
+// AMERICANO (fixed number of rally points)
+// ============================================================
+
+const AMERICANO: PointsRuleSet = {
+  mode: 'americano',
+  label: 'Americano',
+  format: 'points',
+  pointLabels: numericPointLabels,
+  isMatchOver: (s) => s.team_a_points + s.team_b_points >= s.americano_points,
+  pointsPerServe: (s) => s.americano_serve_every || 4,
+};
+
+// ============================================================
+// PICKLEBALL (side-out scoring)
+// ============================================================
+
+const PICKLEBALL: SideOutRuleSet = {
+  mode: 'pickleball',
+  label: 'Pickleball',
+  format: 'side_out',
+  pointLabels: numericPointLabels,
+  pointsToWinGame: 11,
+  isMatchOver: (s, gamesWon) => gamesWon.a >= s.sets_to_win || gamesWon.b >= s.sets_to_win,
+};
+
+// ============================================================
+// REGISTRY
+// ============================================================
+
+const RULE_SETS = new Map<GameMode, RuleSet>();
+
+/**
+ * Make a game mode available to the engine (replaces any rule set with the same mode)
+ * Register on every side that scores: the app and the edge functions
+ */
+export function registerRuleSet(rules: RuleSet): void {
+  RULE_SETS.set(rules.mode, rules);
+}
+
+/**
+ * Rule set for a game mode (null if none is registered)
+ */
+export function findRuleSet(mode: GameMode): RuleSet | null {
+  return RULE_SETS.get(mode) || null;
+}
+
+/**
+ * Rule set for a game mode
+ * Throws for an unregistered mode (stored states are checked by validateMatchState first)
+ */
+export function getRuleSet(mode: GameMode): RuleSet {
+  const rules = RULE_SETS.get(mode);
+  if (!rules) {
+    throw new Error(`Unknown game mode: ${mode}`);
+  }
+  return rules;
+}
+
+/**
+ * Scoring format for a game mode, for displays (unregistered modes show as sets)
+ */
+export function getScoringFormat(mode: GameMode): ScoringFormat {
+  return RULE_SETS.get(mode)?.format ?? 'sets';
+}
+
+/**
+ * All registered rule sets, built-ins first
+ */
+export function listRuleSets(): RuleSet[] {
+  return Array.from(RULE_SETS.values());
+}
+
+registerRuleSet(TRADITIONAL);
+registerRuleSet(GOLDEN_POINT);
+registerRuleSet(SILVER_POINT);
+registerRuleSet(AMERICANO);
+registerRuleSet(PICKLEBALL);
@@ -5,11 +5,56 @@
 // Team identifier (lowercase to match database)
 export type Team = 'a' | 'b';
 
-// Game modes
-export type GameMode = 'traditional' | 'golden_point' | 'silver_point';
+// Player within a team (1 = player_1, 2 = player_2)
+export type PlayerSlot = 1 | 2;
+
+// Service box the server serves from (viewed from behind the baseline)
+// right = deuce court, left = ad court
+export type ServeSide = 'right' | 'left';
+
+// Game modes (each one is a registered RuleSet, see rules.ts)
+// americano = fixed number of rally points, no games or sets
+// pickleball = side-out scoring, games to 11 (each game recorded as a set score)
+export type BuiltInGameMode = 'traditional' | 'golden_point' | 'silver_point' | 'americano' | 'pickleball';
+export type GameMode = BuiltInGameMode | (string & {});  // Venues may register their own
+
+// Games needed to win a set (4 = short set, 6 = standard, 8/9 = pro set)
+export type GamesPerSet = 4 | 6 | 8 | 9;
 
 // Match status
-export type MatchStatus = 'setup' | 'in_progress' | 'completed' | 'abandoned';
+// retired / walkover / defaulted = ended early with a designated winner (see endMatchEarly)
+export type EarlyEndStatus = 'retired' | 'walkover' | 'defaulted';
+export type MatchStatus = 'setup' | 'in_progress' | 'completed' | 'abandoned' | EarlyEndStatus;
+
+// Deciding set format (only applies when sets_to_win > 1)
+// full_set = play a normal set, match_tiebreak = single tiebreak to match_tiebreak_points
+export type DecidingSetFormat = 'full_set' | 'match_tiebreak';
+
+// What happens when a timed match runs out of time
+// finish_game = play out the current game (or tiebreak), then count
+// deciding_point = the next point wins the current game, then count
+// count_games = stop immediately and count
+export type TimeLimitRule = 'finish_game' | 'deciding_point' | 'count_games';
+
+// Completed set result
+// For a match tiebreak the scores are the tiebreak points (e.g. 10-8)
+export interface SetScore {
+  team_a: number;
+  team_b: number;
+  match_tiebreak?: boolean;
+  tiebreak?: { team_a: number; team_b: number };  // Points of the tiebreak that decided a 7-6 set
+  handicap?: boolean;  // Awarded by the handicap before the first point (e.g. 6-0)
+}
+
+// Head start for one team in a mixed-level match (sets format only)
+// points are added at the start of every game (1 = 15-0, 2 = 30-0),
+// games at the start of every set; sets are awarded before the first point
+export interface Handicap {
+  team: Team;
+  points: number;
+  games: number;
+  sets: number;
+}
 
 // ============================================================
 // MATCH STATE (mirrors live_matches table)
@@ -19,11 +64,21 @@ export interface MatchState {
   id: string;
   court_id: string;
   version: number;
+  schema_version: number;  // Shape of the stored state (see migrateMatchState)
   
   // Configuration
   game_mode: GameMode;
   sets_to_win: 1 | 2;  // 1 = single set, 2 = best of 3
-  tiebreak_at: 6 | 7;
+  games_per_set: GamesPerSet;
+  tiebreak_at: number;  // Tiebreak played at tiebreak_at-tiebreak_at (e.g. 6-6)
+  deciding_set_format: DecidingSetFormat;
+  match_tiebreak_points: number;  // Points to win a match tiebreak (e.g. 10)
+  time_limit_minutes: number | null;  // Booking slot length (null = untimed), counted from started_at
+  time_limit_rule: TimeLimitRule;
+  americano_points: number;       // Americano: total rally points in the match (e.g. 24)
+  americano_serve_every: number;  // Americano: service changes every N points
+  handicap: Handicap | null;      // Head start for one team (null = level match)
+  sudden_death_after_deuces: number | null;  // Deuces played with advantage before the next deuce is a deciding point (null = always advantage)
   
   // Status
   status: MatchStatus;
@@ -31,6 +86,8 @@ export interface MatchState {
   is_tiebreak: boolean;
   
   // Current game points (0, 1, 2, 3 = 0, 15, 30, 40; 4+ for advantage)
+  // Each game starts from the handicap head start, if any
+  // Americano: running rally point totals
   team_a_points: number;
   team_b_points: number;
   
@@ -39,7 +96,7 @@ export interface MatchState {
   team_b_games: number;
   
   // Completed sets
-  set_scores: Array<{ team_a: number; team_b: number }>;
+  set_scores: SetScore[];
   
   // Tiebreak state (tracked within current set)
   tiebreak_scores?: { team_a: number; team_b: number };
@@ -50,6 +107,12 @@ export interface MatchState {
   
   // Serving
   serving_team: Team | null;
+  team_a_server: PlayerSlot;  // Team A player serving Team A's next service game
+  team_b_server: PlayerSlot;  // Team B player serving Team B's next service game
+  server_number: 1 | 2;       // Side-out scoring: first or second server of the service turn (otherwise 1)
+  
+  // Ends (false = Team A on its starting side), changed by the engine via change_ends
+  sides_swapped: boolean;
   
   // Player names (optional)
   team_a_player_1?: string | null;
@@ -59,15 +122,105 @@ export interface MatchState {
   
   // Result
   winner: Team | null;
+  time_expired: boolean;   // Time limit reached, end rule in effect
+  ended_by_time: boolean;  // Result decided by the time limit (winner null = draw)
+  end_reason: string | null;  // Why a match was retired, walked over or defaulted (e.g. "injury")
   
   // Timestamps
   started_at?: string | null;
   completed_at?: string | null;
+  
+  // Statistics (maintained by updateStats, absent on matches created before stats existed)
+  stats?: MatchStats;
 
   // Session link (optional)
   session_id?: string | null;
 }
 
+// ============================================================
+// STATISTICS
+// ============================================================
+
+export interface TeamStats {
+  points_won: number;
+  service_points_won: number;  // Points won while serving
+  return_points_won: number;   // Points won while receiving
+  breaks: number;              // Games won on the opponent's serve (tiebreaks excluded)
+  golden_points_won: number;
+  silver_points_won: number;
+  players?: Record<PlayerSlot, PlayerPointStats>;  // From annotated points (absent until one names a player)
+}
+
+// How a player's annotated points ended
+export interface PlayerPointStats {
+  winners: number;
+  forced_errors: number;
+  unforced_errors: number;
+  shots: Partial<Record<ShotType, number>>;  // Last shot of each annotated point they ended
+}
+
+export interface PointStreak {
+  team: Team | null;
+  length: number;
+}
+
+export interface MatchStats {
+  points_played: number;
+  deuces: number;  // Times the score reached deuce
+  team_a: TeamStats;
+  team_b: TeamStats;
+  current_streak: PointStreak;
+  longest_streak: PointStreak;
+  win_probability?: number[];  // Team A's chance of winning the match after each point (absent on older stats)
+}
+
+// ============================================================
+// WIN PROBABILITY
+// ============================================================
+
+// Chance of each team winning a point on its own serve
+export interface PointWinRates {
+  a: number;
+  b: number;
+}
+
+// Team A's chances (Team B's = 1 - value - draw)
+export interface WinProbability {
+  game: number;   // Current game (tiebreak, or the whole match in points format)
+  set: number;    // Current set (the current game in side-out format)
+  match: number;
+  draw: number;   // Match ending level (points format only)
+}
+
+// ============================================================
+// MATCH CONFIGURATION
+// ============================================================
+
+// Settings a match is created with (see createMatchState)
+export interface MatchConfig {
+  id: string;
+  court_id: string;
+  game_mode?: GameMode;
+  sets_to_win?: 1 | 2;
+  games_per_set?: GamesPerSet;
+  tiebreak_at?: number;
+  deciding_set_format?: DecidingSetFormat;
+  match_tiebreak_points?: number;
+  time_limit_minutes?: number | null;
+  time_limit_rule?: TimeLimitRule;
+  americano_points?: number;
+  americano_serve_every?: number;
+  handicap?: Handicap | null;
+  sudden_death_after_deuces?: number | null;  // Defaults to the game mode's (golden point 0, silver point 1)
+  serving_team?: Team;
+  team_a_server?: PlayerSlot;
+  team_b_server?: PlayerSlot;
+  team_a_player_1?: string;
+  team_a_player_2?: string;
+  team_b_player_1?: string;
+  team_b_player_2?: string;
+}
+
 // ============================================================
 // SCORING INPUT/OUTPUT
 // ============================================================
@@ -75,6 +228,34 @@ export interface MatchState {
 export interface ScoreEvent {
   type: 'point';
   team: Team;
+  annotation?: PointAnnotation;
+}
+
+export type PointEnding = 'winner' | 'forced_error' | 'unforced_error';
+
+export type ShotType =
+  | 'serve'
+  | 'return'
+  | 'volley'
+  | 'bandeja'
+  | 'vibora'
+  | 'smash'
+  | 'lob'
+  | 'drop_shot'
+  | 'groundstroke'
+  | 'off_the_glass';
+
+export interface PlayerRef {
+  team: Team;
+  slot: PlayerSlot;
+}
+
+// How a point ended (all optional; entered after the point on the control panel)
+// player: who played the last shot - the scoring team for a winner, the other team for an error
+export interface PointAnnotation {
+  ending?: PointEnding;
+  shot?: ShotType;
+  player?: PlayerRef;
 }
 
 export type Effect = 
@@ -83,15 +264,159 @@ export type Effect =
   | { type: 'set_won'; team: Team }
   | { type: 'match_won'; team: Team }
   | { type: 'tiebreak_started' }
+  | { type: 'match_tiebreak_started' }
   | { type: 'deuce' }
   | { type: 'advantage'; team: Team }
-  | { type: 'set_started'; set_number: number };
+  | { type: 'set_started'; set_number: number }
+  | { type: 'change_ends' }
+  | { type: 'side_out'; team: Team }  // Side-out scoring: serve passes to team
+  | { type: 'point_situation'; situation: PointSituation }  // What the next point can win
+  | { type: 'time_up' };
+
+// What the next point can win for the team that wins it (see getPointSituations)
+// break_point = the receiving team can win the game; match_point implies set point
+// golden_point / silver_point / deciding_point = the next point decides the game
+// for either team (team is null)
+export type PointSituationType =
+  | 'match_point'
+  | 'set_point'
+  | 'break_point'
+  | 'game_point'
+  | 'golden_point'
+  | 'silver_point'
+  | 'deciding_point';
+
+export interface PointSituation {
+  type: PointSituationType;
+  team: Team | null;
+}
 
 export interface ScoreResult {
   newState: MatchState;
   effects: Effect[];
 }
 
+// Sources of time and randomness used by the engine
+// Defaults to the system clock and Math.random; inject fixed ones for deterministic runs
+export interface EngineEnv {
+  now: () => Date;
+  random: () => number;  // Uniform in [0, 1)
+}
+
+// Presses a court button can make
+export type ButtonGesture = 'click' | 'double_click' | 'triple_click' | 'hold';
+
+// What a gesture does for the pressing team
+// start_or_end: start Quick Play, or end the match; start: never ends a match
+// switch_server: the other player serves first (before a set's first point only)
+export type GestureAction = 'score' | 'undo' | 'start_or_end' | 'start' | 'switch_server' | 'none';
+
+// Per-court remapping (courts.gesture_map); gestures left out keep their default
+export type GestureMap = Partial<Record<ButtonGesture, GestureAction>>;
+
+// ============================================================
+// RULE SETS
+// ============================================================
+
+// How a rule set structures a match (see the RuleSet variants below)
+export type ScoringFormat = 'sets' | 'points' | 'side_out';
+
+// Score fields a rule set reads to label and judge the current game
+// (sudden_death_after_deuces missing = always advantage)
+export type GameScore = Pick<MatchState, 'team_a_points' | 'team_b_points' | 'deuce_count'> &
+  Partial<Pick<MatchState, 'sudden_death_after_deuces'>>;
+
+// How the current game's points are shown (see formatDisplay)
+export interface PointLabels {
+  a: string;
+  b: string;
+  is_deuce: boolean;
+  advantage: Team | null;
+}
+
+interface RuleSetBase {
+  mode: GameMode;  // Stored in MatchState.game_mode
+  label: string;   // e.g. "Golden Point"
+  
+  // Labels for the current game (tiebreaks are always shown as numbers)
+  pointLabels(s: GameScore): PointLabels;
+}
+
+// Points, games and sets (padel traditional / golden point / silver point)
+// Tiebreaks, deciding sets and changes of ends are handled by the engine
+export interface SetsRuleSet extends RuleSetBase {
+  format: 'sets';
+  
+  // Point progression
+  // True when the next point wins the game outright (receivers choose the side)
+  isDecidingPoint(s: GameScore): boolean;
+  // Team that has won the game once a point has been added (null = game goes on)
+  gameWinner(s: GameScore): Team | null;
+  // Counter in TeamStats credited when a deciding point is won
+  // (built-in modes credit golden / silver points from sudden_death_after_deuces)
+  decidingPointStat?: 'golden_points_won' | 'silver_points_won';
+  // Default sudden_death_after_deuces for matches in this mode (none = always advantage)
+  suddenDeathAfterDeuces?: number;
+  
+  // Completion
+  setWinner(s: MatchState): Team | null;  // Tiebreak sets (e.g. 7-6) are handled by the engine
+  isMatchOver(s: MatchState, setsWon: { a: number; b: number }): boolean;
+}
+
+// Fixed number of rally points (americano_points), no games or sets
+export interface PointsRuleSet extends RuleSetBase {
+  format: 'points';
+  
+  isMatchOver(s: MatchState): boolean;
+  // Serve rotation: service passes to the other team every N points
+  pointsPerServe(s: { americano_serve_every?: number }): number;
+}
+
+// Side-out scoring (pickleball): only the serving team scores; each side has a first
+// and second server before serve passes over. Games are recorded in set_scores,
+// so sets_to_win is the number of games needed to win the match.
+export interface SideOutRuleSet extends RuleSetBase {
+  format: 'side_out';
+  
+  pointsToWinGame: number;  // Win by 2
+  isMatchOver(s: MatchState, gamesWon: { a: number; b: number }): boolean;
+}
+
+export type RuleSet = SetsRuleSet | PointsRuleSet | SideOutRuleSet;
+
+// ============================================================
+// EVENT LOG (for replay)
+// ============================================================
+
+// One entry of the match event log, in the order it was applied
+// at: when the event happened (ISO string), used to restore timestamps on replay
+export type MatchEvent =
+  | { type: 'point'; team: Team; annotation?: PointAnnotation; at?: string }
+  | { type: 'set_servers'; team_a_server?: PlayerSlot; team_b_server?: PlayerSlot; at?: string }
+  | { type: 'time_up'; at?: string };
+
+// A structural or rules problem found by validateMatchState
+export interface MatchStateIssue {
+  field: keyof MatchState;
+  message: string;
+}
+
+// A field where a stored state disagrees with the replayed state
+export interface StateDrift {
+  field: keyof MatchState;
+  expected: unknown;  // Value from replay
+  actual: unknown;    // Value stored
+}
+
+// ============================================================
+// NOTATION (import/export)
+// ============================================================
+
+// A match built from text, or why the text could not be scored
+export type NotationResult =
+  | { state: MatchState; error: null }
+  | { state: null; error: string };
+
 // ============================================================
 // DISPLAY MODEL (for UI rendering)
 // ============================================================
@@ -108,9 +433,15 @@ export interface DisplayModel {
   
   // Server
   serving_team: Team | null;
+  serving_player: PlayerSlot | null;
+  server_number: 1 | 2 | null;  // Side-out scoring only (e.g. 4-2-1 = server 1)
+  server_name: string | null;  // Serving player's name (null if not entered)
+  serve_side: ServeSide | null;  // null before serve is decided or on a receiver's-choice deciding point
   
   // Flags
+  point_situations: PointSituation[];  // Most important first (empty outside sets format)
   is_tiebreak: boolean;
+  is_match_tiebreak: boolean;
   is_deuce: boolean;
   advantage: Team | null;
   
@@ -123,13 +454,20 @@ export interface DisplayModel {
   team_b_name: string;
   
   // Set history
-  set_scores: Array<{ team_a: number; team_b: number }>;
+  set_scores: SetScore[];
 }
 
 // ============================================================
 // HELPER TYPES
 // ============================================================
 
+// Statuses after which no more points are scored
+export const FINISHED_STATUSES: MatchStatus[] = ['completed', 'abandoned', 'retired', 'walkover', 'defaulted'];
+
+export function isFinishedStatus(status: MatchStatus): boolean {
+  return FINISHED_STATUSES.includes(status);
+}
+
 export function otherTeam(team: Team): Team {
   return team === 'a' ? 'b' : 'a';
 }
@@ -141,3 +479,7 @@ export function getTeamPoints(state: MatchState, team: Team): number {
 export function getTeamGames(state: MatchState, team: Team): number {
   return team === 'a' ? state.team_a_games : state.team_b_games;
 }
+
+export function getTeamServer(state: MatchState, team: Team): PlayerSlot {
+  return team === 'a' ? state.team_a_server : state.team_b_server;
+}
@@ -0,0 +1,88 @@
+// ============================================================
+// PALAPOINT V4 - STAFF / PLAYER CREDENTIALS
+// Requests that don't come from a signed button must prove they come from
+// the court's control panel (control PIN, control_tokens) or from the
+// players who started the court's active session (session_tokens).
+// session_tokens: session_id, token, created_at
+// The token is only returned to whoever creates (or takes over) the session;
+// it is never stored on sessions or live_matches and has no anon access.
+// ============================================================
+
+export interface CourtCredential {
+  pin?: string;
+  session_token?: string;
+}
+
+/**
+ * New random session token (32 bytes, hex)
+ */
+export function generateSessionToken(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(32)), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Whether `pin` is an unexpired control PIN for the court
+ */
+export async function isValidControlPin(supabase: any, courtId: string, pin: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('control_tokens')
+    .select('expires_at')
+    .eq('court_id', courtId)
+    .eq('pin', pin)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error validating control PIN:', error);
+    return false;
+  }
+  if (!data) return false;
+
+  return !data.expires_at || new Date(data.expires_at) >= new Date();
+}
+
+/**
+ * Whether `token` belongs to the court's active session
+ */
+export async function isValidSessionToken(supabase: any, courtId: string, token: string): Promise<boolean> {
+  const { data: sessionToken, error: tokenError } = await supabase
+    .from('session_tokens')
+    .select('session_id')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (tokenError) {
+    console.error('Error validating session token:', tokenError);
+    return false;
+  }
+  if (!sessionToken) return false;
+
+  const { data: session, error } = await supabase
+    .from('sessions')
+    .select('id')
+    .eq('id', sessionToken.session_id)
+    .eq('court_id', courtId)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error validating session:', error);
+    return false;
+  }
+
+  return !!session;
+}
+
+/**
+ * Whether the request carries a control PIN or the active session's token for the court
+ */
+export async function hasCourtCredential(
+  supabase: any,
+  courtId: string,
+  credential: CourtCredential
+): Promise<boolean> {
+  if (credential.pin && (await isValidControlPin(supabase, courtId, credential.pin))) return true;
+  if (credential.session_token && (await isValidSessionToken(supabase, courtId, credential.session_token))) {
+    return true;
+  }
+  return false;
+}
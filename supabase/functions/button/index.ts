@@ -0,0 +1,567 @@
+// ============================================================
+// PALAPOINT V4 - BUTTON DEVICE EDGE FUNCTION
+// Pairs court buttons with a court and team side, takes their telemetry,
+// and stores what each gesture does on a court (courts.gesture_map)
+// button_devices: device_id, court_id, team, label, secret, paired_at, last_seen_at,
+// last_heartbeat_at, battery_percent, signal_rssi, firmware_version
+// button_pairings: court_id, team, label, expires_at, device_id (set once a
+// button has been pressed), paired_at
+// The next press from an unregistered device while a pairing is open is
+// assigned by the score function
+// button_nonces: device_id, event_id (unique together), created_at
+// None of these tables are readable with the anon key: staff actions need the
+// court's control PIN, and the court screen only gets button health (no ids)
+// ============================================================
+
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  generateDeviceSecret,
+  checkSignedRequest,
+  recordNonce,
+} from '../_shared/button-auth.ts';
+import { isValidControlPin } from '../_shared/staff-auth.ts';
+import { isValidGestureMap } from '../_shared/scoring/engine.ts';
+import type { GestureMap } from '../_shared/scoring/types.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': `authorization, x-client-info, apikey, content-type, ${SIGNATURE_HEADER}, ${TIMESTAMP_HEADER}`,
+};
+
+// How long staff have to press the new button
+const PAIRING_WINDOW_SECONDS = 60;
+
+// Everything but the secret, which only leaves the server on rotation
+const DEVICE_COLUMNS =
+  'device_id, court_id, team, label, paired_at, last_seen_at, last_heartbeat_at, battery_percent, signal_rssi, firmware_version';
+
+// Actions that need the court's control PIN
+const STAFF_ACTIONS = ['pair', 'cancel_pair', 'unpair', 'rotate_key', 'set_gesture_map', 'list', 'pairing_status'];
+
+// Request types
+interface PairRequest {
+  action: 'pair';
+  court_id: string;
+  pin: string;
+  team: 'a' | 'b';
+  label?: string;
+}
+
+interface CancelPairRequest {
+  action: 'cancel_pair';
+  court_id: string;
+  pin: string;
+}
+
+interface UnpairRequest {
+  action: 'unpair';
+  court_id: string;
+  pin: string;
+  device_id: string;
+}
+
+interface RotateKeyRequest {
+  action: 'rotate_key';
+  court_id: string;
+  pin: string;
+  device_id: string;
+}
+
+interface SetGestureMapRequest {
+  action: 'set_gesture_map';
+  court_id: string;
+  pin: string;
+  gesture_map: GestureMap;  // empty: back to the defaults
+}
+
+interface ListRequest {
+  action: 'list';
+  court_id: string;
+  pin: string;
+}
+
+interface PairingStatusRequest {
+  action: 'pairing_status';
+  court_id: string;
+  pin: string;
+  pairing_id: string;
+}
+
+// Court screen: battery and check-ins per side, no device ids
+interface HealthRequest {
+  action: 'health';
+  court_id: string;
+}
+
+// Sent by the button itself (signed) on a timer
+interface TelemetryRequest {
+  action: 'telemetry';
+  device_id: string;
+  event_id: string;  // replay nonce, as on score presses
+  battery_percent?: number;
+  signal_rssi?: number;  // dBm
+  firmware_version?: string;
+}
+
+type ButtonRequest =
+  | PairRequest
+  | CancelPairRequest
+  | UnpairRequest
+  | RotateKeyRequest
+  | SetGestureMapRequest
+  | ListRequest
+  | PairingStatusRequest
+  | HealthRequest
+  | TelemetryRequest;
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    // Raw text is kept: button signatures cover the exact body sent
+    const rawBody = await req.text();
+    const body: ButtonRequest = JSON.parse(rawBody);
+    const { action } = body;
+
+    if (!action) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'missing_action' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Staff actions name the court; buttons are known by their device_id
+    if (action !== 'telemetry' && !(body as PairRequest).court_id) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'missing_court_id' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Create Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseKey) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'server_configuration_error' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    if (STAFF_ACTIONS.includes(action)) {
+      const { court_id, pin } = body as PairRequest;
+      if (!pin || !(await isValidControlPin(supabase, court_id, pin))) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'unauthorized' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    switch (action) {
+      // ============================================================
+      // PAIR - Open a pairing window for one side of a court
+      // ============================================================
+      case 'pair': {
+        const { court_id, team, label } = body as PairRequest;
+
+        if (team !== 'a' && team !== 'b') {
+          return new Response(
+            JSON.stringify({ success: false, error: 'invalid_team' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // One open pairing per court: a new one replaces it
+        await supabase
+          .from('button_pairings')
+          .delete()
+          .eq('court_id', court_id)
+          .is('device_id', null);
+
+        const expiresAt = new Date(Date.now() + PAIRING_WINDOW_SECONDS * 1000);
+        const { data: pairing, error } = await supabase
+          .from('button_pairings')
+          .insert({
+            court_id,
+            team,
+            label: label?.trim() || null,
+            expires_at: expiresAt.toISOString(),
+          })
+          .select()
+          .single();
+
+        if (error) {
+          console.error('Error opening pairing:', error);
+          return new Response(
+            JSON.stringify({ success: false, error: 'database_error' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        return new Response(
+          JSON.stringify({ success: true, action: 'pair', pairing }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // ============================================================
+      // CANCEL_PAIR - Close the court's open pairing
+      // ============================================================
+      case 'cancel_pair': {
+        const { court_id } = body as CancelPairRequest;
+
+        const { error } = await supabase
+          .from('button_pairings')
+          .delete()
+          .eq('court_id', court_id)
+          .is('device_id', null);
+
+        if (error) {
+          console.error('Error cancelling pairing:', error);
+          return new Response(
+            JSON.stringify({ success: false, error: 'database_error' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        return new Response(
+          JSON.stringify({ success: true, action: 'cancel_pair' }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // ============================================================
+      // UNPAIR - Remove a button from the court (so it can be paired elsewhere)
+      // ============================================================
+      case 'unpair': {
+        const { court_id, device_id } = body as UnpairRequest;
+
+        if (!device_id) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'missing_device_id' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: removed, error } = await supabase
+          .from('button_devices')
+          .delete()
+          .eq('court_id', court_id)
+          .eq('device_id', device_id)
+          .select();
+
+        if (error) {
+          console.error('Error removing button:', error);
+          return new Response(
+            JSON.stringify({ success: false, error: 'database_error' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        if (!removed || removed.length === 0) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'unknown_device' }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        return new Response(
+          JSON.stringify({ success: true, action: 'unpair', device_id }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // ============================================================
+      // ROTATE_KEY - Replace a button's secret (the old one stops working)
+      // The new secret is returned once, to be loaded onto the button
+      // ============================================================
+      case 'rotate_key': {
+        const { court_id, device_id } = body as RotateKeyRequest;
+
+        if (!device_id) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'missing_device_id' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const secret = generateDeviceSecret();
+        const { data: updated, error } = await supabase
+          .from('button_devices')
+          .update({ secret })
+          .eq('court_id', court_id)
+          .eq('device_id', device_id)
+          .select('device_id');
+
+        if (error) {
+          console.error('Error rotating button key:', error);
+          return new Response(
+            JSON.stringify({ success: false, error: 'database_error' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        if (!updated || updated.length === 0) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'unknown_device' }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        return new Response(
+          JSON.stringify({ success: true, action: 'rotate_key', device_id, secret }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // ============================================================
+      // SET_GESTURE_MAP - Choose what each button gesture does on the court
+      // ============================================================
+      case 'set_gesture_map': {
+        const { court_id, gesture_map } = body as SetGestureMapRequest;
+
+        if (!isValidGestureMap(gesture_map)) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'invalid_gesture_map' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: court, error } = await supabase
+          .from('courts')
+          .update({ gesture_map: Object.keys(gesture_map).length > 0 ? gesture_map : null })
+          .eq('id', court_id)
+          .select('id, gesture_map')
+          .maybeSingle();
+
+        if (error) {
+          console.error('Error saving gesture map:', error);
+          return new Response(
+            JSON.stringify({ success: false, error: 'database_error' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        if (!court) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'court_not_found' }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        return new Response(
+          JSON.stringify({ success: true, action: 'set_gesture_map', gesture_map: court.gesture_map }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // ============================================================
+      // LIST - The court's buttons with their telemetry, Team A first
+      // ============================================================
+      case 'list': {
+        const { court_id } = body as ListRequest;
+
+        const { data: devices, error } = await supabase
+          .from('button_devices')
+          .select(DEVICE_COLUMNS)
+          .eq('court_id', court_id)
+          .order('team');
+
+        if (error) {
+          console.error('Error fetching button devices:', error);
+          return new Response(
+            JSON.stringify({ success: false, error: 'database_error' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        return new Response(
+          JSON.stringify({ success: true, action: 'list', devices: devices ?? [] }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // ============================================================
+      // PAIRING_STATUS - Whether a pairing has been taken by a button yet
+      // ============================================================
+      case 'pairing_status': {
+        const { court_id, pairing_id } = body as PairingStatusRequest;
+
+        if (!pairing_id) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'missing_pairing_id' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: pairing, error } = await supabase
+          .from('button_pairings')
+          .select('*')
+          .eq('id', pairing_id)
+          .eq('court_id', court_id)
+          .maybeSingle();
+
+        if (error) {
+          console.error('Error fetching button pairing:', error);
+          return new Response(
+            JSON.stringify({ success: false, error: 'database_error' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // pairing is null once it has been cancelled or replaced
+        return new Response(
+          JSON.stringify({ success: true, action: 'pairing_status', pairing }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // ============================================================
+      // HEALTH - Battery and last check-in per side, for the court screen
+      // ============================================================
+      case 'health': {
+        const { court_id } = body as HealthRequest;
+
+        const { data: buttons, error } = await supabase
+          .from('button_devices')
+          .select('team, battery_percent, last_heartbeat_at, last_seen_at')
+          .eq('court_id', court_id)
+          .order('team');
+
+        if (error) {
+          console.error('Error fetching button health:', error);
+          return new Response(
+            JSON.stringify({ success: false, error: 'database_error' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        return new Response(
+          JSON.stringify({ success: true, action: 'health', buttons: buttons ?? [] }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // ============================================================
+      // TELEMETRY - Heartbeat from a button: battery, signal and firmware
+      // ============================================================
+      case 'telemetry': {
+        const { device_id, event_id, battery_percent, signal_rssi, firmware_version } = body as TelemetryRequest;
+
+        if (!device_id) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'missing_device_id' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        if (
+          (battery_percent !== undefined &&
+            (typeof battery_percent !== 'number' || battery_percent < 0 || battery_percent > 100)) ||
+          (signal_rssi !== undefined && typeof signal_rssi !== 'number') ||
+          (firmware_version !== undefined && typeof firmware_version !== 'string')
+        ) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'invalid_telemetry' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: device, error: deviceError } = await supabase
+          .from('button_devices')
+          .select('device_id, secret')
+          .eq('device_id', device_id)
+          .maybeSingle();
+
+        if (deviceError) {
+          console.error('Error querying button_devices:', deviceError);
+          return new Response(
+            JSON.stringify({ success: false, error: 'database_error' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        if (!device) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'unknown_device' }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const signatureError = await checkSignedRequest(req, rawBody, device.secret);
+        if (signatureError) {
+          return new Response(
+            JSON.stringify({ success: false, error: signatureError }),
+            { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        if (!event_id) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'missing_event_id' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // A captured heartbeat sent again would fake battery and check-in data
+        const nonceError = await recordNonce(supabase, device_id, event_id);
+        if (nonceError) {
+          return new Response(
+            JSON.stringify({ success: false, error: nonceError }),
+            {
+              status: nonceError === 'replayed_request' ? 409 : 500,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        // Fields left out of a heartbeat keep their last reported value
+        const now = new Date().toISOString();
+        const { error } = await supabase
+          .from('button_devices')
+          .update({
+            last_heartbeat_at: now,
+            last_seen_at: now,
+            ...(battery_percent !== undefined && { battery_percent: Math.round(battery_percent) }),
+            ...(signal_rssi !== undefined && { signal_rssi: Math.round(signal_rssi) }),
+            ...(firmware_version !== undefined && { firmware_version: firmware_version.slice(0, 32) }),
+          })
+          .eq('device_id', device_id);
+
+        if (error) {
+          console.error('Error storing button telemetry:', error);
+          return new Response(
+            JSON.stringify({ success: false, error: 'database_error' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        return new Response(
+          JSON.stringify({ success: true, action: 'telemetry' }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      default:
+        return new Response(
+          JSON.stringify({ success: false, error: 'invalid_action' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: 'internal_server_error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
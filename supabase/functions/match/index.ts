@@ -1,11 +1,46 @@
 // ============================================================
 // PALAPOINT V4 - MATCH LIFECYCLE EDGE FUNCTION
-// Handles match creation, ending, undo, and status checks
+// Handles match creation, ending, undo, status checks, server selection,
+// time limits and replay verification
+// Ending, undoing, choosing servers and applying the time limit need the
+// court's control PIN or the active session's token (see _shared/staff-auth.ts)
 // ============================================================
 
 import { createClient } from 'jsr:@supabase/supabase-js@2';
-import { createMatchState } from '../_shared/scoring/engine.ts';
-import type { MatchState } from '../_shared/scoring/types.ts';
+import {
+  createMatchState,
+  canChooseServers,
+  chooseServers,
+  replayMatch,
+  diffMatchState,
+  isTimeUp,
+  expireTime,
+  TIME_LIMIT_RULES,
+  AMERICANO_POINTS_OPTIONS,
+  GAMES_PER_SET_OPTIONS,
+  isValidTiebreakAt,
+  isValidHandicap,
+  SUDDEN_DEATH_OPTIONS,
+  endMatchEarly,
+  canEndEarly,
+  EARLY_END_STATUSES,
+} from '../_shared/scoring/engine.ts';
+import { findRuleSet } from '../_shared/scoring/rules.ts';
+import { parseMatchState, migrateMatchState } from '../_shared/scoring/validation.ts';
+import { hasCourtCredential, type CourtCredential } from '../_shared/staff-auth.ts';
+import type {
+  MatchState,
+  MatchStateIssue,
+  MatchConfig,
+  MatchEvent,
+  DecidingSetFormat,
+  EarlyEndStatus,
+  GameMode,
+  GamesPerSet,
+  Handicap,
+  PlayerSlot,
+  TimeLimitRule,
+} from '../_shared/scoring/types.ts';
 
 // CORS headers for all responses
 const corsHeaders = {
@@ -17,24 +52,40 @@ interface CreateRequest {
   action: 'create';
   court_id: string;
   session_id?: string;  // optional session link
-  game_mode?: 'traditional' | 'golden_point' | 'silver_point';
+  game_mode?: GameMode;
   sets_to_win?: 1 | 2;
-  tiebreak_at?: 6 | 7;
+  games_per_set?: GamesPerSet;
+  tiebreak_at?: number;
+  deciding_set_format?: DecidingSetFormat;
+  match_tiebreak_points?: number;
+  time_limit_minutes?: number | null;
+  time_limit_rule?: TimeLimitRule;
+  americano_points?: number;
+  americano_serve_every?: number;
+  handicap?: Handicap | null;
+  sudden_death_after_deuces?: number | null;  // Omitted = the game mode's (null = always advantage)
   team_a_player_1?: string;
   team_a_player_2?: string;
   team_b_player_1?: string;
   team_b_player_2?: string;
   serving_team?: 'a' | 'b';
+  team_a_server?: PlayerSlot;
+  team_b_server?: PlayerSlot;
   side_swap_enabled?: boolean;
 }
 
-interface EndRequest {
+// Actions that change a match in play
+const CREDENTIAL_ACTIONS = ['end', 'undo', 'set_servers', 'time_up'];
+
+interface EndRequest extends CourtCredential {
   action: 'end';
   court_id: string;
-  reason?: 'completed' | 'abandoned';
+  reason?: 'completed' | 'abandoned' | EarlyEndStatus;
+  winner?: 'a' | 'b';   // Required for retired, walkover and defaulted
+  end_reason?: string;  // Why it ended early (e.g. "injury")
 }
 
-interface UndoRequest {
+interface UndoRequest extends CourtCredential {
   action: 'undo';
   court_id: string;
 }
@@ -44,7 +95,33 @@ interface StatusRequest {
   court_id: string;
 }
 
-type MatchRequest = CreateRequest | EndRequest | UndoRequest | StatusRequest;
+interface SetServersRequest extends CourtCredential {
+  action: 'set_servers';
+  court_id: string;
+  team_a_server?: PlayerSlot;
+  team_b_server?: PlayerSlot;
+}
+
+interface TimeUpRequest extends CourtCredential {
+  action: 'time_up';
+  court_id: string;
+}
+
+// match_id checks any match, finished ones included; court_id the court's active match
+interface VerifyRequest {
+  action: 'verify';
+  court_id?: string;
+  match_id?: string;
+}
+
+type MatchRequest =
+  | CreateRequest
+  | EndRequest
+  | UndoRequest
+  | StatusRequest
+  | SetServersRequest
+  | TimeUpRequest
+  | VerifyRequest;
 
 /**
  * Convert MatchState to database row format
@@ -54,9 +131,19 @@ function matchStateToDbRow(state: MatchState): Record<string, any> {
     id: state.id,
     court_id: state.court_id,
     version: state.version,
+    schema_version: state.schema_version,
     game_mode: state.game_mode,
     sets_to_win: state.sets_to_win,
+    games_per_set: state.games_per_set,
     tiebreak_at: state.tiebreak_at,
+    deciding_set_format: state.deciding_set_format,
+    match_tiebreak_points: state.match_tiebreak_points,
+    time_limit_minutes: state.time_limit_minutes,
+    time_limit_rule: state.time_limit_rule,
+    americano_points: state.americano_points,
+    americano_serve_every: state.americano_serve_every,
+    handicap: state.handicap || null,
+    sudden_death_after_deuces: state.sudden_death_after_deuces,
     status: state.status,
     current_set: state.current_set,
     is_tiebreak: state.is_tiebreak,
@@ -67,7 +154,14 @@ function matchStateToDbRow(state: MatchState): Record<string, any> {
     set_scores: state.set_scores,
     deuce_count: state.deuce_count,
     serving_team: state.serving_team,
+    team_a_server: state.team_a_server,
+    team_b_server: state.team_b_server,
+    server_number: state.server_number,
+    sides_swapped: state.sides_swapped,
     winner: state.winner,
+    time_expired: state.time_expired,
+    ended_by_time: state.ended_by_time,
+    end_reason: state.end_reason || null,
     team_a_player_1: state.team_a_player_1 || null,
     team_a_player_2: state.team_a_player_2 || null,
     team_b_player_1: state.team_b_player_1 || null,
@@ -78,44 +172,80 @@ function matchStateToDbRow(state: MatchState): Record<string, any> {
     tiebreak_starting_server: state.tiebreak_starting_server || null,
     side_swap_enabled: state.side_swap_enabled ?? true,
     session_id: state.session_id || null,
+    stats: state.stats || null,
   };
 }
 
 /**
  * Convert database row to MatchState
+ * Rows written by earlier versions are migrated to the current schema;
+ * issues lists anything that makes the state unsafe to score from
  */
-function dbRowToMatchState(row: any): MatchState {
+function dbRowToMatchState(row: any): { state: MatchState; issues: MatchStateIssue[] } {
+  const { state, issues } = parseMatchState(row);
   return {
-    id: row.id,
-    court_id: row.court_id,
-    version: row.version,
-    game_mode: row.game_mode,
-    sets_to_win: row.sets_to_win,
-    tiebreak_at: row.tiebreak_at,
-    status: row.status,
-    current_set: row.current_set,
-    is_tiebreak: row.is_tiebreak || false,
-    team_a_points: row.team_a_points,
-    team_b_points: row.team_b_points,
-    team_a_games: row.team_a_games,
-    team_b_games: row.team_b_games,
-    set_scores: row.set_scores || [],
-    tiebreak_scores: row.tiebreak_scores || undefined,
-    tiebreak_starting_server: row.tiebreak_starting_server || undefined,
-    deuce_count: row.deuce_count || 0,
-    serving_team: row.serving_team,
-    team_a_player_1: row.team_a_player_1 || null,
-    team_a_player_2: row.team_a_player_2 || null,
-    team_b_player_1: row.team_b_player_1 || null,
-    team_b_player_2: row.team_b_player_2 || null,
-    winner: row.winner || null,
-    started_at: row.started_at || null,
-    completed_at: row.completed_at || null,
-    side_swap_enabled: row.side_swap_enabled ?? true,
-    session_id: row.session_id || null,
+    state: {
+      ...state,
+      side_swap_enabled: row.side_swap_enabled ?? true,
+      session_id: row.session_id || null,
+    },
+    issues,
   };
 }
 
+/**
+ * Extract the creation config from a state
+ * The first event's state_before is the match as created
+ */
+function stateToMatchConfig(state: MatchState): MatchConfig {
+  return {
+    id: state.id,
+    court_id: state.court_id,
+    game_mode: state.game_mode,
+    sets_to_win: state.sets_to_win,
+    games_per_set: state.games_per_set || 6,
+    tiebreak_at: state.tiebreak_at,
+    deciding_set_format: state.deciding_set_format || 'full_set',
+    match_tiebreak_points: state.match_tiebreak_points || 10,
+    time_limit_minutes: state.time_limit_minutes || null,
+    time_limit_rule: state.time_limit_rule || 'finish_game',
+    americano_points: state.americano_points || 24,
+    americano_serve_every: state.americano_serve_every || 4,
+    handicap: state.handicap || null,
+    sudden_death_after_deuces: state.sudden_death_after_deuces,
+    serving_team: state.serving_team || undefined,
+    team_a_server: state.team_a_server || 1,
+    team_b_server: state.team_b_server || 1,
+    team_a_player_1: state.team_a_player_1 || undefined,
+    team_a_player_2: state.team_a_player_2 || undefined,
+    team_b_player_1: state.team_b_player_1 || undefined,
+    team_b_player_2: state.team_b_player_2 || undefined,
+  };
+}
+
+/**
+ * Convert a score_events row to a replayable event
+ */
+function scoreEventToMatchEvent(row: any): MatchEvent | null {
+  switch (row.event_type) {
+    case 'point_a':
+      return { type: 'point', team: 'a', annotation: row.payload?.annotation, at: row.created_at };
+    case 'point_b':
+      return { type: 'point', team: 'b', annotation: row.payload?.annotation, at: row.created_at };
+    case 'set_servers':
+      return {
+        type: 'set_servers',
+        team_a_server: row.payload?.team_a_server,
+        team_b_server: row.payload?.team_b_server,
+        at: row.created_at,
+      };
+    case 'time_up':
+      return { type: 'time_up', at: row.created_at };
+    default:
+      return null;
+  }
+}
+
 /**
  * Get active match for a court
  */
@@ -171,6 +301,20 @@ Deno.serve(async (req) => {
 
     const supabase = createClient(supabaseUrl, supabaseKey);
 
+    // Missing court_id is reported by the action itself
+    if (CREDENTIAL_ACTIONS.includes(action)) {
+      const { court_id, pin, session_token } = body as EndRequest;
+      if (court_id && !(await hasCourtCredential(supabase, court_id, { pin, session_token }))) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'unauthorized' }),
+          {
+            status: 401,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+    }
+
     // Route to appropriate action handler
     switch (action) {
       case 'create': {
@@ -203,6 +347,175 @@ Deno.serve(async (req) => {
           );
         }
 
+        // Validate game mode (any registered rule set)
+        if (createReq.game_mode !== undefined && !findRuleSet(createReq.game_mode)) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'invalid_game_mode' }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        // Validate set length and tiebreak trigger
+        const gamesPerSet = createReq.games_per_set ?? 6;
+        if (!GAMES_PER_SET_OPTIONS.includes(gamesPerSet)) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'invalid_games_per_set' }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        if (
+          createReq.tiebreak_at !== undefined &&
+          !isValidTiebreakAt(gamesPerSet, createReq.tiebreak_at)
+        ) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'invalid_tiebreak_at' }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        // Validate deciding set format
+        if (
+          createReq.deciding_set_format !== undefined &&
+          !['full_set', 'match_tiebreak'].includes(createReq.deciding_set_format)
+        ) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'invalid_deciding_set_format' }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        if (
+          createReq.match_tiebreak_points !== undefined &&
+          (!Number.isInteger(createReq.match_tiebreak_points) || createReq.match_tiebreak_points < 7)
+        ) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'invalid_match_tiebreak_points' }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        // Validate time limit
+        if (
+          createReq.time_limit_minutes != null &&
+          (!Number.isInteger(createReq.time_limit_minutes) ||
+            createReq.time_limit_minutes < 10 ||
+            createReq.time_limit_minutes > 240)
+        ) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'invalid_time_limit_minutes' }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        if (
+          createReq.time_limit_rule !== undefined &&
+          !TIME_LIMIT_RULES.includes(createReq.time_limit_rule)
+        ) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'invalid_time_limit_rule' }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        // Validate Americano settings
+        if (
+          createReq.americano_points !== undefined &&
+          !AMERICANO_POINTS_OPTIONS.includes(createReq.americano_points)
+        ) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'invalid_americano_points' }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        if (
+          createReq.americano_serve_every !== undefined &&
+          (!Number.isInteger(createReq.americano_serve_every) ||
+            createReq.americano_serve_every < 1 ||
+            createReq.americano_serve_every > 8)
+        ) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'invalid_americano_serve_every' }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        // Validate handicap (head start must fit the format)
+        if (
+          createReq.handicap != null &&
+          !isValidHandicap(createReq.handicap, {
+            game_mode: createReq.game_mode || 'golden_point',
+            games_per_set: gamesPerSet,
+            sets_to_win: createReq.sets_to_win || 1,
+          })
+        ) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'invalid_handicap' }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        // Validate sudden death (deuces only exist in points, games and sets)
+        if (
+          createReq.sudden_death_after_deuces !== undefined &&
+          (!SUDDEN_DEATH_OPTIONS.includes(createReq.sudden_death_after_deuces) ||
+            (createReq.sudden_death_after_deuces !== null &&
+              findRuleSet(createReq.game_mode || 'golden_point')?.format !== 'sets'))
+        ) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'invalid_sudden_death_after_deuces' }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        // Validate first servers
+        if (
+          (createReq.team_a_server !== undefined && ![1, 2].includes(createReq.team_a_server)) ||
+          (createReq.team_b_server !== undefined && ![1, 2].includes(createReq.team_b_server))
+        ) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'invalid_server' }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
         // Generate UUID for match
         const matchId = crypto.randomUUID();
 
@@ -212,8 +525,19 @@ Deno.serve(async (req) => {
           court_id: court_id,
           game_mode: createReq.game_mode,
           sets_to_win: createReq.sets_to_win,
+          games_per_set: gamesPerSet,
           tiebreak_at: createReq.tiebreak_at,
+          deciding_set_format: createReq.deciding_set_format,
+          match_tiebreak_points: createReq.match_tiebreak_points,
+          time_limit_minutes: createReq.time_limit_minutes,
+          time_limit_rule: createReq.time_limit_rule,
+          americano_points: createReq.americano_points,
+          americano_serve_every: createReq.americano_serve_every,
+          handicap: createReq.handicap,
+          sudden_death_after_deuces: createReq.sudden_death_after_deuces,
           serving_team: createReq.serving_team,
+          team_a_server: createReq.team_a_server,
+          team_b_server: createReq.team_b_server,
           team_a_player_1: createReq.team_a_player_1,
           team_a_player_2: createReq.team_a_player_2,
           team_b_player_1: createReq.team_b_player_1,
@@ -271,7 +595,8 @@ Deno.serve(async (req) => {
 
       case 'end': {
         const endReq = body as EndRequest;
-        const { court_id, reason = 'abandoned' } = endReq;
+        const { court_id, reason = 'abandoned', winner, end_reason } = endReq;
+        const earlyEnd = EARLY_END_STATUSES.includes(reason as EarlyEndStatus);
 
         if (!court_id) {
           return new Response(
@@ -295,13 +620,56 @@ Deno.serve(async (req) => {
           );
         }
 
+        // Retired, walkover and defaulted need a winner and the right stage of the match
+        let update: Record<string, any> = {
+          status: reason,
+          completed_at: new Date().toISOString(),
+        };
+
+        if (earlyEnd) {
+          if (winner !== 'a' && winner !== 'b') {
+            return new Response(
+              JSON.stringify({ success: false, error: 'missing_winner' }),
+              {
+                status: 400,
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+              }
+            );
+          }
+
+          const { state: currentState } = dbRowToMatchState(match);
+          if (!canEndEarly(currentState, reason as EarlyEndStatus)) {
+            return new Response(
+              JSON.stringify({ success: false, error: 'invalid_outcome' }),
+              {
+                status: 409,
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+              }
+            );
+          }
+
+          const { newState } = endMatchEarly(currentState, reason as EarlyEndStatus, winner, end_reason || null);
+          update = {
+            version: match.version + 1,
+            status: newState.status,
+            winner: newState.winner,
+            end_reason: newState.end_reason,
+            completed_at: newState.completed_at,
+          };
+        } else if (reason !== 'completed' && reason !== 'abandoned') {
+          return new Response(
+            JSON.stringify({ success: false, error: 'invalid_outcome' }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
         // Update match status
         const { data: updatedMatch, error: updateError } = await supabase
           .from('live_matches')
-          .update({
-            status: reason,
-            completed_at: new Date().toISOString(),
-          })
+          .update(update)
           .eq('id', match.id)
           .select()
           .single();
@@ -322,6 +690,9 @@ Deno.serve(async (req) => {
             success: true,
             action: 'end',
             match_id: match.id,
+            status: updatedMatch.status,
+            winner: updatedMatch.winner,
+            end_reason: updatedMatch.end_reason || null,
             final_score: {
               team_a_games: updatedMatch.team_a_games,
               team_b_games: updatedMatch.team_b_games,
@@ -366,6 +737,7 @@ Deno.serve(async (req) => {
           .from('score_events')
           .select('*')
           .eq('match_id', match.id)
+          .neq('event_type', 'debounced')
           .order('created_at', { ascending: false })
           .limit(1)
           .maybeSingle();
@@ -391,8 +763,17 @@ Deno.serve(async (req) => {
           );
         }
 
-        // Get state_before from the event
-        const stateBefore = recentEvent.state_before as MatchState;
+        // Get state_before from the event (snapshots may predate the current schema)
+        const { state: stateBefore, issues } = parseMatchState(recentEvent.state_before);
+        if (issues.length > 0) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'invalid_match_state', issues }),
+            {
+              status: 422,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
 
         // Convert state_before to database format
         // state_before already has the correct version (before the event was applied)
@@ -472,6 +853,326 @@ Deno.serve(async (req) => {
         );
       }
 
+      case 'set_servers': {
+        const serversReq = body as SetServersRequest;
+        const { court_id, team_a_server, team_b_server } = serversReq;
+
+        if (!court_id) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'missing_court_id' }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        if (
+          (team_a_server !== undefined && ![1, 2].includes(team_a_server)) ||
+          (team_b_server !== undefined && ![1, 2].includes(team_b_server))
+        ) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'invalid_server' }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        // Load active match
+        const match = await getActiveMatch(supabase, court_id);
+        if (!match) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'no_active_match' }),
+            {
+              status: 404,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        const { state: currentState, issues } = dbRowToMatchState(match);
+        if (issues.length > 0) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'invalid_match_state', issues }),
+            {
+              status: 422,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        // Servers can only be chosen before the first point of a set
+        if (!canChooseServers(currentState)) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'servers_locked' }),
+            {
+              status: 409,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        const newState = chooseServers(currentState, { team_a_server, team_b_server });
+
+        const { data: updatedMatch, error: updateError } = await supabase
+          .from('live_matches')
+          .update({
+            team_a_server: newState.team_a_server,
+            team_b_server: newState.team_b_server,
+            version: match.version + 1,
+          })
+          .eq('id', match.id)
+          .eq('version', match.version)
+          .select()
+          .single();
+
+        if (updateError) {
+          console.error('Error setting servers:', updateError);
+          return new Response(
+            JSON.stringify({ success: false, error: 'database_error' }),
+            {
+              status: 500,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        // Log the choice so it can be undone and replayed
+        const { error: eventError } = await supabase
+          .from('score_events')
+          .insert({
+            match_id: match.id,
+            event_type: 'set_servers',
+            source: 'control_panel',
+            payload: { team_a_server, team_b_server },
+            state_before: currentState,
+          });
+
+        if (eventError) {
+          console.error('Error inserting score_events:', eventError);
+          // Note: We don't fail the request if event logging fails,
+          // but we should log it for debugging
+        }
+
+        return new Response(
+          JSON.stringify({
+            success: true,
+            action: 'set_servers',
+            match: updatedMatch,
+          }),
+          {
+            status: 200,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      case 'time_up': {
+        const timeUpReq = body as TimeUpRequest;
+        const { court_id } = timeUpReq;
+
+        if (!court_id) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'missing_court_id' }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        // Load active match
+        const match = await getActiveMatch(supabase, court_id);
+        if (!match) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'no_active_match' }),
+            {
+              status: 404,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        const { state: currentState, issues } = dbRowToMatchState(match);
+        if (issues.length > 0) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'invalid_match_state', issues }),
+            {
+              status: 422,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        // The clock is checked server-side; early calls are rejected
+        if (!isTimeUp(currentState)) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'time_not_up' }),
+            {
+              status: 409,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        const result = expireTime(currentState);
+        const newState = result.newState;
+
+        // The whole state is saved: finishing the match can add the final set to set_scores
+        const { data: updatedMatch, error: updateError } = await supabase
+          .from('live_matches')
+          .update({
+            ...matchStateToDbRow(newState),
+            version: match.version + 1,
+          })
+          .eq('id', match.id)
+          .eq('version', match.version)
+          .select()
+          .single();
+
+        if (updateError) {
+          console.error('Error applying time limit:', updateError);
+          return new Response(
+            JSON.stringify({ success: false, error: 'database_error' }),
+            {
+              status: 500,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        // Log the expiry so it can be undone and replayed
+        const { error: eventError } = await supabase
+          .from('score_events')
+          .insert({
+            match_id: match.id,
+            event_type: 'time_up',
+            source: 'control_panel',
+            state_before: currentState,
+          });
+
+        if (eventError) {
+          console.error('Error inserting score_events:', eventError);
+          // Note: We don't fail the request if event logging fails,
+          // but we should log it for debugging
+        }
+
+        return new Response(
+          JSON.stringify({
+            success: true,
+            action: 'time_up',
+            match: updatedMatch,
+            effects: result.effects,
+          }),
+          {
+            status: 200,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      case 'verify': {
+        const verifyReq = body as VerifyRequest;
+        const { court_id, match_id } = verifyReq;
+
+        if (!court_id && !match_id) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'missing_match_id' }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        // Load the match: any status by id, else the court's active match
+        let match;
+        if (match_id) {
+          const { data, error: matchError } = await supabase
+            .from('live_matches')
+            .select('*')
+            .eq('id', match_id)
+            .maybeSingle();
+
+          if (matchError) {
+            console.error('Error loading match:', matchError);
+            return new Response(
+              JSON.stringify({ success: false, error: 'database_error' }),
+              {
+                status: 500,
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+              }
+            );
+          }
+          match = data;
+        } else {
+          match = await getActiveMatch(supabase, court_id!);
+        }
+
+        if (!match) {
+          return new Response(
+            JSON.stringify({ success: false, error: match_id ? 'match_not_found' : 'no_active_match' }),
+            {
+              status: 404,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        // Load the full event log in order
+        const { data: events, error: eventsError } = await supabase
+          .from('score_events')
+          .select('*')
+          .eq('match_id', match.id)
+          .neq('event_type', 'debounced')
+          .order('created_at', { ascending: true });
+
+        if (eventsError) {
+          console.error('Error querying score_events:', eventsError);
+          return new Response(
+            JSON.stringify({ success: false, error: 'database_error' }),
+            {
+              status: 500,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        const { state: storedState, issues } = dbRowToMatchState(match);
+        const log = events || [];
+
+        // The first event was played from the match as created;
+        // with no events the row itself is still the initial state
+        const initialState = log.length > 0
+          ? migrateMatchState(log[0].state_before)
+          : storedState;
+
+        const matchEvents = log
+          .map(scoreEventToMatchEvent)
+          .filter((e): e is MatchEvent => e !== null);
+
+        const replayedState = replayMatch(stateToMatchConfig(initialState), matchEvents);
+        const drift = diffMatchState(replayedState, storedState);
+
+        return new Response(
+          JSON.stringify({
+            success: true,
+            action: 'verify',
+            match_id: match.id,
+            events_replayed: matchEvents.length,
+            in_sync: drift.length === 0 && issues.length === 0,
+            drift,
+            issues,
+          }),
+          {
+            status: 200,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
       default:
         return new Response(
           JSON.stringify({ success: false, error: 'invalid_action' }),
@@ -4,21 +4,71 @@
 // ============================================================
 
 import { createClient } from 'jsr:@supabase/supabase-js@2';
-import { applyScore, createMatchState } from '../_shared/scoring/engine.ts';
-import type { MatchState, Team } from '../_shared/scoring/types.ts';
+import {
+  applyScore,
+  createMatchState,
+  updateStats,
+  isTimeUp,
+  expireTime,
+  isValidPointAnnotation,
+  annotatePoint,
+  endMatchEarly,
+  canEndEarly,
+  EARLY_END_STATUSES,
+  canChooseServers,
+  chooseServers,
+  BUTTON_GESTURES,
+  DEFAULT_GESTURE_MAP,
+  resolveGestureMap,
+} from '../_shared/scoring/engine.ts';
+import { parseMatchState } from '../_shared/scoring/validation.ts';
+import { isFinishedStatus } from '../_shared/scoring/types.ts';
+import type { Team, Effect, PointAnnotation, EarlyEndStatus, ButtonGesture } from '../_shared/scoring/types.ts';
+import {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  generateDeviceSecret,
+  checkSignedRequest,
+  recordNonce,
+} from '../_shared/button-auth.ts';
+import { hasCourtCredential } from '../_shared/staff-auth.ts';
 
 // CORS headers for all responses
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': `authorization, x-client-info, apikey, content-type, ${SIGNATURE_HEADER}, ${TIMESTAMP_HEADER}`,
 };
 
+// Repeat clicks from the same button for the same team within this window are
+// discarded as one slapped press (courts.press_debounce_ms overrides; 0 turns it off)
+// Control panel taps are never debounced: staff may enter quick points on purpose
+const DEFAULT_PRESS_DEBOUNCE_MS = 1000;
+
+const SCORE_SOURCES = ['button_a', 'button_b', 'control_panel'] as const;
+type ScoreSource = typeof SCORE_SOURCES[number];
+
 interface ScoreRequest {
-  court_id: string;
-  team: 'a' | 'b';
-  source: 'button_a' | 'button_b' | 'control_panel';
-  gesture?: 'click' | 'double_click' | 'hold';  // defaults to 'click'
-  event_id?: string;
+  // Buttons send only their device_id; court, team and source come from button_devices
+  // Requests from a paired button must be signed (see _shared/button-auth.ts)
+  device_id?: string;
+  court_id?: string;
+  team?: 'a' | 'b';
+  source?: ScoreSource;
+  // Everything else must come from the court's control panel (control PIN)
+  // or the token of the court's active session (given to the players who started it)
+  pin?: string;
+  session_token?: string;
+  // Defaults to 'click'; what a button gesture does comes from the court's gesture map
+  // ('annotate' is the control panel's own)
+  gesture?: ButtonGesture | 'annotate';
+  event_id?: string;  // required from buttons, where it is also the replay nonce
+  // How the point ended: stored with the point on a click,
+  // or attached to the last point (which must be `team`'s) with 'annotate'
+  annotation?: PointAnnotation;
+  // Ending a match with 'hold': retired, walkover or defaulted, won by `winner`
+  outcome?: EarlyEndStatus;
+  winner?: Team;
+  end_reason?: string;
 }
 
 Deno.serve(async (req) => {
@@ -29,13 +79,16 @@ Deno.serve(async (req) => {
 
   try {
     // Parse request body
-    const body: ScoreRequest = await req.json();
-    const { court_id, team, source, gesture = 'click', event_id } = body;
+    // Raw text is kept: button signatures cover the exact body sent
+    const rawBody = await req.text();
+    const body: ScoreRequest = JSON.parse(rawBody);
+    const { device_id, gesture = 'click', event_id, annotation, outcome, winner, end_reason, pin, session_token } = body;
+    let { court_id, team, source } = body;
 
-    // Validate required fields
-    if (!court_id || !team || !source) {
+    // Validate source value
+    if (source !== undefined && !SCORE_SOURCES.includes(source)) {
       return new Response(
-        JSON.stringify({ success: false, error: 'missing_required_fields' }),
+        JSON.stringify({ success: false, error: 'invalid_source' }),
         {
           status: 400,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -43,10 +96,10 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Validate team value
-    if (team !== 'a' && team !== 'b') {
+    // Buttons are identified by device, never by the court and team they claim
+    if (!device_id && (source === 'button_a' || source === 'button_b')) {
       return new Response(
-        JSON.stringify({ success: false, error: 'invalid_team' }),
+        JSON.stringify({ success: false, error: 'missing_device_id' }),
         {
           status: 400,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -55,7 +108,7 @@ Deno.serve(async (req) => {
     }
 
     // Validate gesture value
-    if (gesture && !['click', 'double_click', 'hold'].includes(gesture)) {
+    if (gesture !== 'annotate' && !BUTTON_GESTURES.includes(gesture)) {
       return new Response(
         JSON.stringify({ success: false, error: 'invalid_gesture' }),
         {
@@ -65,6 +118,26 @@ Deno.serve(async (req) => {
       );
     }
 
+    // Validate early ending (only with a gesture that ends matches, checked below)
+    if (outcome !== undefined && !EARLY_END_STATUSES.includes(outcome)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'invalid_outcome' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+    if (outcome && winner !== 'a' && winner !== 'b') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'missing_winner' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
     // Create Supabase client
     const supabaseUrl = Deno.env.get('SUPABASE_URL');
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
@@ -81,6 +154,278 @@ Deno.serve(async (req) => {
 
     const supabase = createClient(supabaseUrl, supabaseKey);
 
+    // Resolve a button to the court and side it is paired with
+    if (device_id) {
+      const { data: device, error: deviceError } = await supabase
+        .from('button_devices')
+        .select('*')
+        .eq('device_id', device_id)
+        .maybeSingle();
+
+      if (deviceError) {
+        console.error('Error querying button_devices:', deviceError);
+        return new Response(
+          JSON.stringify({ success: false, error: 'database_error' }),
+          {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      // Unknown button: its press completes an open pairing, and scores nothing
+      // The response carries the button's new secret, which it signs with from then on
+      if (!device) {
+        const now = new Date().toISOString();
+        const { data: pairings, error: pairingError } = await supabase
+          .from('button_pairings')
+          .select('*')
+          .is('device_id', null)
+          .gt('expires_at', now);
+
+        if (pairingError) {
+          console.error('Error querying button_pairings:', pairingError);
+          return new Response(
+            JSON.stringify({ success: false, error: 'database_error' }),
+            {
+              status: 500,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        if (!pairings || pairings.length === 0) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'unknown_device' }),
+            {
+              status: 404,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        // Two courts waiting at once: the press can't be told apart
+        if (pairings.length > 1) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'pairing_conflict' }),
+            {
+              status: 409,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        const pairing = pairings[0];
+
+        // The new button replaces whichever one had that side of the court
+        await supabase
+          .from('button_devices')
+          .delete()
+          .eq('court_id', pairing.court_id)
+          .eq('team', pairing.team);
+
+        const secret = generateDeviceSecret();
+        const { data: paired, error: pairError } = await supabase
+          .from('button_devices')
+          .insert({
+            device_id,
+            court_id: pairing.court_id,
+            team: pairing.team,
+            label: pairing.label,
+            secret,
+            paired_at: now,
+            last_seen_at: now,
+          })
+          .select('device_id, court_id, team, label, paired_at, last_seen_at')
+          .single();
+
+        if (pairError) {
+          console.error('Error pairing button:', pairError);
+          return new Response(
+            JSON.stringify({ success: false, error: 'database_error' }),
+            {
+              status: 500,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+
+        await supabase
+          .from('button_pairings')
+          .update({ device_id, paired_at: now })
+          .eq('id', pairing.id);
+
+        return new Response(
+          JSON.stringify({ success: true, action: 'paired', device: paired, secret }),
+          {
+            status: 200,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      // Paired buttons sign every request: fresh timestamp, valid signature, unused event_id
+      const signatureError = await checkSignedRequest(req, rawBody, device.secret);
+      if (signatureError) {
+        return new Response(
+          JSON.stringify({ success: false, error: signatureError }),
+          {
+            status: 401,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      if (!event_id) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'missing_event_id' }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      const nonceError = await recordNonce(supabase, device_id, event_id);
+      if (nonceError) {
+        if (nonceError === 'replayed_request') {
+          // A retry after a lost reply: the press was already scored, so answer as the first time
+          const { data: existingEvent } = await supabase
+            .from('score_events')
+            .select('match_id')
+            .eq('event_id', event_id)
+            .maybeSingle();
+
+          if (existingEvent) {
+            const { data: currentMatch } = await supabase
+              .from('live_matches')
+              .select('*')
+              .eq('id', existingEvent.match_id)
+              .maybeSingle();
+
+            return new Response(
+              JSON.stringify({
+                success: true,
+                match_id: existingEvent.match_id,
+                new_state: currentMatch,
+                effects: [],
+                idempotent: true,
+              }),
+              {
+                status: 200,
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+              }
+            );
+          }
+
+          return new Response(
+            JSON.stringify({ success: false, error: 'replayed_request' }),
+            {
+              status: 409,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+        return new Response(
+          JSON.stringify({ success: false, error: 'database_error' }),
+          {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      court_id = device.court_id;
+      team = device.team;
+      source = device.team === 'a' ? 'button_a' : 'button_b';
+
+      await supabase
+        .from('button_devices')
+        .update({ last_seen_at: new Date().toISOString() })
+        .eq('device_id', device_id);
+    }
+
+    // Validate required fields
+    if (!court_id || !team || !source) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'missing_required_fields' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Validate team value
+    if (team !== 'a' && team !== 'b') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'invalid_team' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Not a signed button: the control PIN or the active session's token is required
+    if (!device_id && !(await hasCourtCredential(supabase, court_id, { pin, session_token }))) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'unauthorized' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Validate annotation (required to annotate the last point)
+    if (
+      (gesture === 'annotate' && !annotation) ||
+      (annotation !== undefined && !isValidPointAnnotation(annotation, team))
+    ) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'invalid_annotation' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Court settings: gesture map and press debounce window
+    const { data: courtSettings } = await supabase
+      .from('courts')
+      .select('gesture_map, press_debounce_ms')
+      .eq('id', court_id)
+      .maybeSingle();
+
+    // Buttons follow the court's gesture map; the control panel's buttons always mean the defaults
+    const gestureMap = source === 'control_panel'
+      ? DEFAULT_GESTURE_MAP
+      : resolveGestureMap(courtSettings?.gesture_map);
+    const gestureAction = gesture === 'annotate' ? null : gestureMap[gesture];
+
+    if (outcome !== undefined && gestureAction !== 'start_or_end') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'invalid_outcome' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Gesture turned off for this court
+    if (gestureAction === 'none') {
+      return new Response(
+        JSON.stringify({ success: true, action: 'gesture_ignored', gesture }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
     // Query for active match
     const { data: match, error: matchError } = await supabase
       .from('live_matches')
@@ -100,8 +445,18 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Handle 'hold' gesture - start or end match
-    if (gesture === 'hold') {
+    // Start or end match (default: hold)
+    if (gestureAction === 'start_or_end' || gestureAction === 'start') {
+      if (!match && outcome) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'no_active_match' }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
       if (!match) {
         // No active match - create Quick Play match
         const matchId = crypto.randomUUID();
@@ -110,6 +465,7 @@ Deno.serve(async (req) => {
           court_id: court_id,
           game_mode: 'golden_point',
           sets_to_win: 1,
+          games_per_set: 6,
           tiebreak_at: 6,
           serving_team: Math.random() > 0.5 ? 'a' : 'b',
         });
@@ -119,9 +475,19 @@ Deno.serve(async (req) => {
           id: matchState.id,
           court_id: matchState.court_id,
           version: matchState.version,
+          schema_version: matchState.schema_version,
           game_mode: matchState.game_mode,
           sets_to_win: matchState.sets_to_win,
+          games_per_set: matchState.games_per_set,
           tiebreak_at: matchState.tiebreak_at,
+          deciding_set_format: matchState.deciding_set_format,
+          match_tiebreak_points: matchState.match_tiebreak_points,
+          time_limit_minutes: matchState.time_limit_minutes,
+          time_limit_rule: matchState.time_limit_rule,
+          americano_points: matchState.americano_points,
+          americano_serve_every: matchState.americano_serve_every,
+          handicap: matchState.handicap,
+          sudden_death_after_deuces: matchState.sudden_death_after_deuces,
           status: matchState.status,
           current_set: matchState.current_set,
           is_tiebreak: matchState.is_tiebreak,
@@ -132,7 +498,14 @@ Deno.serve(async (req) => {
           set_scores: matchState.set_scores,
           deuce_count: matchState.deuce_count,
           serving_team: matchState.serving_team,
+          team_a_server: matchState.team_a_server,
+          team_b_server: matchState.team_b_server,
+          server_number: matchState.server_number,
+          sides_swapped: matchState.sides_swapped,
           winner: matchState.winner,
+          time_expired: matchState.time_expired,
+          ended_by_time: matchState.ended_by_time,
+          end_reason: matchState.end_reason,
           team_a_player_1: matchState.team_a_player_1 || null,
           team_a_player_2: matchState.team_a_player_2 || null,
           team_b_player_1: matchState.team_b_player_1 || null,
@@ -141,6 +514,7 @@ Deno.serve(async (req) => {
           completed_at: matchState.completed_at || null,
           tiebreak_scores: matchState.tiebreak_scores || null,
           tiebreak_starting_server: matchState.tiebreak_starting_server || null,
+          stats: matchState.stats || null,
         };
 
         const { data: createdMatch, error: insertError } = await supabase
@@ -171,15 +545,47 @@ Deno.serve(async (req) => {
             headers: { ...corsHeaders, 'Content-Type': 'application/json' },
           }
         );
+      } else if (gestureAction === 'start') {
+        // Court doesn't allow ending a match from the button (e.g. tournament courts)
+        return new Response(
+          JSON.stringify({ success: false, error: 'match_in_progress' }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
       } else {
-        // Active match exists - end it
-        const reason = match.winner ? 'completed' : 'abandoned';
+        // Active match exists - end it (early with a winner if an outcome was given)
+        let update: Record<string, any> = {
+          status: match.winner ? 'completed' : 'abandoned',
+          completed_at: new Date().toISOString(),
+        };
+
+        if (outcome && winner) {
+          const { state: currentState } = parseMatchState(match);
+          if (!canEndEarly(currentState, outcome)) {
+            return new Response(
+              JSON.stringify({ success: false, error: 'invalid_outcome' }),
+              {
+                status: 409,
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+              }
+            );
+          }
+
+          const { newState } = endMatchEarly(currentState, outcome, winner, end_reason || null);
+          update = {
+            version: match.version + 1,
+            status: newState.status,
+            winner: newState.winner,
+            end_reason: newState.end_reason,
+            completed_at: newState.completed_at,
+          };
+        }
+
         const { data: updatedMatch, error: updateError } = await supabase
           .from('live_matches')
-          .update({
-            status: reason,
-            completed_at: new Date().toISOString(),
-          })
+          .update(update)
           .eq('id', match.id)
           .select()
           .single();
@@ -200,6 +606,9 @@ Deno.serve(async (req) => {
             success: true,
             action: 'match_ended',
             match_id: match.id,
+            status: updatedMatch.status,
+            winner: updatedMatch.winner,
+            end_reason: updatedMatch.end_reason || null,
             final_score: {
               team_a_games: updatedMatch.team_a_games,
               team_b_games: updatedMatch.team_b_games,
@@ -214,8 +623,8 @@ Deno.serve(async (req) => {
       }
     }
 
-    // Handle 'double_click' gesture - undo last point
-    if (gesture === 'double_click') {
+    // Undo last point (default: double_click)
+    if (gestureAction === 'undo') {
       if (!match) {
         return new Response(
           JSON.stringify({ success: false, error: 'no_active_match' }),
@@ -231,6 +640,7 @@ Deno.serve(async (req) => {
         .from('score_events')
         .select('*')
         .eq('match_id', match.id)
+        .neq('event_type', 'debounced')
         .order('created_at', { ascending: false })
         .limit(1)
         .maybeSingle();
@@ -256,17 +666,36 @@ Deno.serve(async (req) => {
         );
       }
 
-      // Get state_before from the event
-      const stateBefore = recentEvent.state_before as MatchState;
+      // Get state_before from the event (snapshots may predate the current schema)
+      const { state: stateBefore, issues } = parseMatchState(recentEvent.state_before);
+      if (issues.length > 0) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'invalid_match_state', issues }),
+          {
+            status: 422,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
 
       // Convert state_before to database format
       const restoreData: Record<string, any> = {
         id: stateBefore.id,
         court_id: stateBefore.court_id,
         version: stateBefore.version,
+        schema_version: stateBefore.schema_version,
         game_mode: stateBefore.game_mode,
         sets_to_win: stateBefore.sets_to_win,
+        games_per_set: stateBefore.games_per_set || 6,
         tiebreak_at: stateBefore.tiebreak_at,
+        deciding_set_format: stateBefore.deciding_set_format || 'full_set',
+        match_tiebreak_points: stateBefore.match_tiebreak_points || 10,
+        time_limit_minutes: stateBefore.time_limit_minutes || null,
+        time_limit_rule: stateBefore.time_limit_rule || 'finish_game',
+        americano_points: stateBefore.americano_points || 24,
+        americano_serve_every: stateBefore.americano_serve_every || 4,
+        handicap: stateBefore.handicap || null,
+        sudden_death_after_deuces: stateBefore.sudden_death_after_deuces,
         status: stateBefore.status,
         current_set: stateBefore.current_set,
         is_tiebreak: stateBefore.is_tiebreak,
@@ -277,7 +706,14 @@ Deno.serve(async (req) => {
         set_scores: stateBefore.set_scores,
         deuce_count: stateBefore.deuce_count,
         serving_team: stateBefore.serving_team,
+        team_a_server: stateBefore.team_a_server || 1,
+        team_b_server: stateBefore.team_b_server || 1,
+        server_number: stateBefore.server_number,
+        sides_swapped: stateBefore.sides_swapped || false,
         winner: stateBefore.winner,
+        time_expired: stateBefore.time_expired || false,
+        ended_by_time: stateBefore.ended_by_time || false,
+        end_reason: stateBefore.end_reason || null,
         team_a_player_1: stateBefore.team_a_player_1 || null,
         team_a_player_2: stateBefore.team_a_player_2 || null,
         team_b_player_1: stateBefore.team_b_player_1 || null,
@@ -286,6 +722,7 @@ Deno.serve(async (req) => {
         completed_at: stateBefore.completed_at || null,
         tiebreak_scores: stateBefore.tiebreak_scores || null,
         tiebreak_starting_server: stateBefore.tiebreak_starting_server || null,
+        stats: stateBefore.stats || null,
       };
 
       // Update live_matches with restored state
@@ -342,7 +779,216 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Handle 'click' gesture (or missing) - score a point (current behavior)
+    // Handle 'annotate' gesture - record how the last point ended
+    if (gesture === 'annotate') {
+      if (!match) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'no_active_match' }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      const { data: lastEvent, error: eventError } = await supabase
+        .from('score_events')
+        .select('*')
+        .eq('match_id', match.id)
+        .neq('event_type', 'debounced')
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (eventError) {
+        console.error('Error querying score_events:', eventError);
+        return new Response(
+          JSON.stringify({ success: false, error: 'database_error' }),
+          {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      if (!lastEvent || (lastEvent.event_type !== 'point_a' && lastEvent.event_type !== 'point_b')) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'nothing_to_annotate' }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      // Another point was scored since the picker opened
+      if (lastEvent.event_type !== (team === 'a' ? 'point_a' : 'point_b')) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'point_mismatch' }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      // Re-annotating replaces the earlier annotation in the stats
+      // (the version is unchanged: the score itself is not touched)
+      const stats = annotatePoint(match.stats || undefined, annotation!, lastEvent.payload?.annotation);
+      const { data: updatedMatches, error: updateError } = await supabase
+        .from('live_matches')
+        .update({ stats })
+        .eq('id', match.id)
+        .eq('version', match.version) // Optimistic locking
+        .select();
+
+      if (updateError) {
+        console.error('Error updating live_matches:', updateError);
+        return new Response(
+          JSON.stringify({ success: false, error: 'database_error' }),
+          {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      if (!updatedMatches || updatedMatches.length === 0) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'version_conflict' }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      const { error: annotateError } = await supabase
+        .from('score_events')
+        .update({ payload: { ...lastEvent.payload, annotation } })
+        .eq('id', lastEvent.id);
+
+      if (annotateError) {
+        console.error('Error annotating score_event:', annotateError);
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          action: 'point_annotated',
+          match_id: match.id,
+          annotation,
+          stats,
+        }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Other player of the pressing team serves first (before the set's first point)
+    if (gestureAction === 'switch_server') {
+      if (!match) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'no_active_match' }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      const { state: currentState, issues } = parseMatchState(match);
+      if (issues.length > 0) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'invalid_match_state', issues }),
+          {
+            status: 422,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      if (!canChooseServers(currentState)) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'servers_locked' }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      const current = (team === 'a' ? currentState.team_a_server : currentState.team_b_server) ?? 1;
+      const servers = team === 'a'
+        ? { team_a_server: current === 1 ? 2 as const : 1 as const }
+        : { team_b_server: current === 1 ? 2 as const : 1 as const };
+      const newState = chooseServers(currentState, servers);
+
+      const { data: updatedMatch, error: updateError } = await supabase
+        .from('live_matches')
+        .update({
+          team_a_server: newState.team_a_server,
+          team_b_server: newState.team_b_server,
+          version: match.version + 1,
+        })
+        .eq('id', match.id)
+        .eq('version', match.version)
+        .select()
+        .maybeSingle();
+
+      if (updateError) {
+        console.error('Error switching server:', updateError);
+        return new Response(
+          JSON.stringify({ success: false, error: 'database_error' }),
+          {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      if (!updatedMatch) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'version_conflict' }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      // Logged like the control panel's choice, so it can be undone and replayed
+      const { error: eventError } = await supabase
+        .from('score_events')
+        .insert({
+          match_id: match.id,
+          event_type: 'set_servers',
+          source: source,
+          payload: servers,
+          state_before: currentState,
+        });
+
+      if (eventError) {
+        console.error('Error inserting score_events:', eventError);
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          action: 'server_switched',
+          match_id: match.id,
+          new_state: updatedMatch,
+        }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Score a point (default: click)
     if (!match) {
       return new Response(
         JSON.stringify({ success: false, error: 'no_active_match' }),
@@ -379,43 +1025,106 @@ Deno.serve(async (req) => {
       }
     }
 
+    // Debounce: a second press too soon after this button's last point for the
+    // same team is a double press, not a new point (undo gestures never get here)
+    const debounceMs =
+      source === 'control_panel' ? 0 : courtSettings?.press_debounce_ms ?? DEFAULT_PRESS_DEBOUNCE_MS;
+
+    if (debounceMs > 0) {
+      const { data: recentPress, error: pressError } = await supabase
+        .from('score_events')
+        .select('id')
+        .eq('match_id', match.id)
+        .eq('source', source)
+        .eq('event_type', team === 'a' ? 'point_a' : 'point_b')
+        .gte('created_at', new Date(Date.now() - debounceMs).toISOString())
+        .limit(1)
+        .maybeSingle();
+
+      if (pressError) {
+        console.error('Error querying score_events:', pressError);
+        return new Response(
+          JSON.stringify({ success: false, error: 'database_error' }),
+          {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      if (recentPress) {
+        // Logged for press diagnostics; undo, annotate and replay skip it
+        const { error: debounceLogError } = await supabase
+          .from('score_events')
+          .insert({
+            match_id: match.id,
+            event_type: 'debounced',
+            source: source,
+            event_id: event_id || null,
+            payload: { team, debounce_ms: debounceMs },
+          });
+
+        if (debounceLogError) {
+          console.error('Error inserting score_events:', debounceLogError);
+        }
+
+        return new Response(
+          JSON.stringify({
+            success: true,
+            action: 'debounced',
+            match_id: match.id,
+            new_state: match,
+            effects: [],
+          }),
+          {
+            status: 200,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+    }
+
     // Convert database row to MatchState
-    // The database uses snake_case which matches MatchState type
-    const stateBefore: MatchState = {
-      id: match.id,
-      court_id: match.court_id,
-      version: match.version,
-      game_mode: match.game_mode,
-      sets_to_win: match.sets_to_win,
-      tiebreak_at: match.tiebreak_at,
-      status: match.status,
-      current_set: match.current_set,
-      is_tiebreak: match.is_tiebreak || false,
-      team_a_points: match.team_a_points,
-      team_b_points: match.team_b_points,
-      team_a_games: match.team_a_games,
-      team_b_games: match.team_b_games,
-      set_scores: match.set_scores || [],
-      tiebreak_scores: match.tiebreak_scores || undefined,
-      tiebreak_starting_server: match.tiebreak_starting_server || undefined,
-      deuce_count: match.deuce_count || 0,
-      serving_team: match.serving_team,
-      team_a_player_1: match.team_a_player_1 || null,
-      team_a_player_2: match.team_a_player_2 || null,
-      team_b_player_1: match.team_b_player_1 || null,
-      team_b_player_2: match.team_b_player_2 || null,
-      winner: match.winner || null,
-      started_at: match.started_at || null,
-      completed_at: match.completed_at || null,
-    };
+    // Rows written by earlier versions are migrated to the current schema first
+    const { state: stateBefore, issues } = parseMatchState(match);
+    if (issues.length > 0) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'invalid_match_state', issues }),
+        {
+          status: 422,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Time limit ran out since the last point: apply the end rule first
+    // (logged as its own event below so undo and replay see it)
+    let pointState = stateBefore;
+    let timeEffects: Effect[] = [];
+    if (isTimeUp(stateBefore)) {
+      const expired = expireTime(stateBefore);
+      pointState = { ...expired.newState, version: stateBefore.version + 1 };
+      timeEffects = expired.effects;
+    }
+
+    // count_games, or finish_game between games: time ended the match before
+    // this press, so it scores nothing and only the time_up event is logged
+    const endedByTime = pointState !== stateBefore && isFinishedStatus(pointState.status);
 
     // Apply score using engine
-    const result = applyScore(stateBefore, { type: 'point', team });
+    const result = endedByTime
+      ? { newState: pointState, effects: [] as Effect[] }
+      : applyScore(pointState, { type: 'point', team, annotation });
+    const stats = endedByTime
+      ? pointState.stats
+      : updateStats(pointState.stats, pointState, result, annotation);
 
     // Prepare update data (convert back to database format)
+    // (the expired state already counts the time_up in its version)
     const newState = result.newState;
     const updateData: Record<string, any> = {
-      version: newState.version + 1,
+      version: endedByTime ? newState.version : newState.version + 1,
+      schema_version: newState.schema_version,
       status: newState.status,
       current_set: newState.current_set,
       is_tiebreak: newState.is_tiebreak,
@@ -426,9 +1135,17 @@ Deno.serve(async (req) => {
       set_scores: newState.set_scores,
       deuce_count: newState.deuce_count,
       serving_team: newState.serving_team,
+      team_a_server: newState.team_a_server,
+      team_b_server: newState.team_b_server,
+      server_number: newState.server_number,
+      sides_swapped: newState.sides_swapped,
       winner: newState.winner,
+      time_expired: newState.time_expired,
+      ended_by_time: newState.ended_by_time,
+      end_reason: newState.end_reason,
       started_at: newState.started_at,
       completed_at: newState.completed_at,
+      stats,
     };
 
     // Handle optional tiebreak fields
@@ -485,31 +1202,50 @@ Deno.serve(async (req) => {
     }
 
     // Insert into score_events
-    const eventType = team === 'a' ? 'point_a' : 'point_b';
-    const { error: eventError } = await supabase
-      .from('score_events')
-      .insert({
-        match_id: match.id,
-        event_type: eventType,
-        source: source,
-        event_id: event_id || null,
-        state_before: stateBefore,
-      });
-
-    if (eventError) {
-      console.error('Error inserting score_events:', eventError);
-      // Note: We don't fail the request if event logging fails,
-      // but we should log it for debugging
+    if (pointState !== stateBefore) {
+      const { error: timeEventError } = await supabase
+        .from('score_events')
+        .insert({
+          match_id: match.id,
+          event_type: 'time_up',
+          source: source,
+          state_before: stateBefore,
+        });
+
+      if (timeEventError) {
+        console.error('Error inserting score_events:', timeEventError);
+      }
+    }
+
+    if (!endedByTime) {
+      const eventType = team === 'a' ? 'point_a' : 'point_b';
+      const { error: eventError } = await supabase
+        .from('score_events')
+        .insert({
+          match_id: match.id,
+          event_type: eventType,
+          source: source,
+          event_id: event_id || null,
+          payload: annotation ? { annotation } : null,
+          state_before: pointState,
+        });
+
+      if (eventError) {
+        console.error('Error inserting score_events:', eventError);
+        // Note: We don't fail the request if event logging fails,
+        // but we should log it for debugging
+      }
     }
 
     // Return success response for click gesture
     return new Response(
       JSON.stringify({
         success: true,
-        action: 'point_scored',
+        action: endedByTime ? 'time_up' : 'point_scored',
         match_id: match.id,
         new_state: updatedMatch,
-        effects: result.effects,
+        effects: [...timeEffects, ...result.effects],
+        stats,
       }),
       {
         status: 200,
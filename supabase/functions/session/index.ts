@@ -1,9 +1,14 @@
 // ============================================================
 // PALAPOINT V4 - SESSION MANAGEMENT EDGE FUNCTION
 // Handles session creation, validation, and lifecycle
+// Creating (or taking over) a session also issues its session token, the
+// players' credential for scoring and ending matches (see _shared/staff-auth.ts)
 // ============================================================
 
 import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { GAMES_PER_SET_OPTIONS, isValidTiebreakAt } from '../_shared/scoring/engine.ts';
+import type { GamesPerSet } from '../_shared/scoring/types.ts';
+import { generateSessionToken } from '../_shared/staff-auth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -15,9 +20,10 @@ interface CreateSessionRequest {
   action: 'create';
   court_id: string;
   settings?: {
-    game_mode?: 'traditional' | 'golden_point' | 'silver_point';
+    game_mode?: 'traditional' | 'golden_point' | 'silver_point' | 'americano' | 'pickleball';
     sets_to_win?: 1 | 2;
-    tiebreak_at?: 6 | 7;
+    games_per_set?: GamesPerSet;
+    tiebreak_at?: number;
     side_swap_enabled?: boolean;
   };
   team_a_player_1?: string;
@@ -51,9 +57,10 @@ interface TakeoverRequest {
   action: 'takeover';
   court_id: string;
   settings?: {
-    game_mode?: 'traditional' | 'golden_point' | 'silver_point';
+    game_mode?: 'traditional' | 'golden_point' | 'silver_point' | 'americano' | 'pickleball';
     sets_to_win?: 1 | 2;
-    tiebreak_at?: 6 | 7;
+    games_per_set?: GamesPerSet;
+    tiebreak_at?: number;
     side_swap_enabled?: boolean;
   };
   team_a_player_1?: string;
@@ -70,6 +77,45 @@ type SessionRequest =
   | EndSessionRequest
   | TakeoverRequest;
 
+type SessionSettings = CreateSessionRequest['settings'];
+
+/**
+ * Validate match settings stored on a session
+ * Returns an error code, or null if settings are valid
+ */
+function validateSettings(settings: SessionSettings): string | null {
+  if (!settings) return null;
+
+  const gamesPerSet = settings.games_per_set ?? 6;
+  if (!GAMES_PER_SET_OPTIONS.includes(gamesPerSet)) {
+    return 'invalid_games_per_set';
+  }
+
+  if (settings.tiebreak_at !== undefined && !isValidTiebreakAt(gamesPerSet, settings.tiebreak_at)) {
+    return 'invalid_tiebreak_at';
+  }
+
+  return null;
+}
+
+/**
+ * Issue the token for a new session
+ * Returns null if it could not be stored
+ */
+async function issueSessionToken(supabase: any, sessionId: string): Promise<string | null> {
+  const token = generateSessionToken();
+  const { error } = await supabase
+    .from('session_tokens')
+    .insert({ session_id: sessionId, token });
+
+  if (error) {
+    console.error('Error issuing session token:', error);
+    return null;
+  }
+
+  return token;
+}
+
 // Session with games count
 interface SessionWithGames {
   id: string;
@@ -219,6 +265,14 @@ Deno.serve(async (req) => {
           );
         }
 
+        const settingsError = validateSettings(settings);
+        if (settingsError) {
+          return new Response(
+            JSON.stringify({ success: false, error: settingsError }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
         // Check for existing active session
         const { data: existingSession } = await supabase
           .from('sessions')
@@ -246,6 +300,7 @@ Deno.serve(async (req) => {
             settings: settings || {
               game_mode: 'golden_point',
               sets_to_win: 1,
+              games_per_set: 6,
               tiebreak_at: 6,
               side_swap_enabled: true,
             },
@@ -265,11 +320,20 @@ Deno.serve(async (req) => {
           );
         }
 
+        const sessionToken = await issueSessionToken(supabase, newSession.id);
+        if (!sessionToken) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'database_error' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
         return new Response(
           JSON.stringify({
             success: true,
             action: 'create',
             session: newSession,
+            session_token: sessionToken,
           }),
           { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
@@ -476,6 +540,14 @@ Deno.serve(async (req) => {
           );
         }
 
+        const settingsError = validateSettings(settings);
+        if (settingsError) {
+          return new Response(
+            JSON.stringify({ success: false, error: settingsError }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
         // End existing active session
         const { data: existingSession } = await supabase
           .from('sessions')
@@ -513,6 +585,7 @@ Deno.serve(async (req) => {
             settings: settings || {
               game_mode: 'golden_point',
               sets_to_win: 1,
+              games_per_set: 6,
               tiebreak_at: 6,
               side_swap_enabled: true,
             },
@@ -532,12 +605,21 @@ Deno.serve(async (req) => {
           );
         }
 
+        const sessionToken = await issueSessionToken(supabase, newSession.id);
+        if (!sessionToken) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'database_error' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
         return new Response(
           JSON.stringify({
             success: true,
             action: 'takeover',
             previous_session_ended: !!existingSession,
             session: newSession,
+            session_token: sessionToken,
           }),
           { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );